@@ -1,29 +1,145 @@
-import { useState } from 'react';
+import { useRef, useState } from 'react';
 import { Histogram } from '@/components/Histogram';
 import { GameDetails } from '@/components/GameDetails';
 import { GameList } from '@/components/GameList';
-import { VotingGame, InfluenceVotingGame, runSimulation, calculateStatistics } from '@/lib/voting-game';
-import type { EndCondition, SimulationType, GameResult, GameType } from '@/lib/interfaces';
+import { PlayGame } from '@/components/PlayGame';
+import { SweepExperiment } from '@/components/SweepExperiment';
+import { VotingGame } from '@/lib/voting-game';
+import { runSimulationPool } from '@/lib/simulation-pool';
+import { summariseStatistics } from '@/lib/statistics';
+import { SeededRandom, createSeed, deriveSeed } from '@/lib/random';
+import { getStrategy, listStrategies } from '@/lib/strategies';
+import { RULE_SETS } from '@/lib/rule-sets';
+import { PHASE_TWO_TARGETING } from '@/lib/phase-two';
+import { ROLES } from '@/lib/roles';
+import { TIE_POLICIES } from '@/lib/tie-break';
+import { REVEAL_POLICIES } from '@/lib/reveal';
+import { FACTIONS, OUTCOMES } from '@/lib/factions';
+import { END_CONDITIONS } from '@/lib/end-conditions';
+import { exactSolverLimitation, solveExact } from '@/lib/markov';
+import type { ActorType, ExactSolution, GameOutcome, GameRetention, PooledSimulation, PooledSimulationResult, RunningStatistics, SimulationWorker, EndCondition, SimulationType, GameResult, GameType, GameConfig, TraitorPolicy, PhaseTwoTargeting, RecruitmentTrigger, ActorRole, TiePolicy, RevealPolicy, InfluenceUpdateConfig, ThirdFaction, EndThresholds } from '@/lib/interfaces';
+
+function parseSkipRounds(text: string): number[] {
+  return text
+    .split(',')
+    .map((part) => parseInt(part.trim()))
+    .filter((round) => Number.isInteger(round) && round > 0);
+}
+
+// Vite bundles the worker from this URL pattern
+const createSimulationWorker = (): SimulationWorker =>
+  new Worker(new URL('./lib/simulation.worker.ts', import.meta.url), { type: 'module' });
 
 function App() {
   const [loyalists, setLoyalists] = useState(16);
   const [traitors, setTraitors] = useState(4);
   const [iterations, setIterations] = useState(1000);
   const [gameType, setGameType] = useState<GameType>('random');
+  const [traitorPolicy, setTraitorPolicy] = useState<TraitorPolicy>('random');
   const [endCondition, setEndCondition] = useState<EndCondition>('first_traitor_removed');
+  const [endThresholds, setEndThresholds] = useState<EndThresholds>({
+    remainingActors: 4,
+    traitorsRemoved: 2,
+    rounds: 10
+  });
+  // 0 means no round cap
+  const [maxRounds, setMaxRounds] = useState(100);
   const [simulationType, setSimulationType] = useState<SimulationType>('random');
-  const [results, setResults] = useState<GameResult[]>([]);
+  const [influenceUpdate, setInfluenceUpdate] = useState<InfluenceUpdateConfig>({
+    banishedLoyalistPenalty: 0,
+    banishedTraitorReward: 0,
+    decayRate: 0
+  });
+  const [tiePolicy, setTiePolicy] = useState<TiePolicy>('revote');
+  const [maxRevotes, setMaxRevotes] = useState(10);
+  const [chairId, setChairId] = useState(0);
+  const [revealPolicy, setRevealPolicy] = useState<RevealPolicy>('immediate');
+  const [revealProbability, setRevealProbability] = useState(0.5);
+  const [removalsPerRound, setRemovalsPerRound] = useState(1);
+  const [removalProbability, setRemovalProbability] = useState(1);
+  const [skipRoundsText, setSkipRoundsText] = useState('');
+  const [phaseTwoTargeting, setPhaseTwoTargeting] = useState<PhaseTwoTargeting | null>(null);
+  const [recruitmentTriggers, setRecruitmentTriggers] = useState<RecruitmentTrigger[]>([]);
+  const [traitorThreshold, setTraitorThreshold] = useState(2);
+  const [roleCounts, setRoleCounts] = useState<Record<ActorRole, number>>({ seer: 0, protector: 0 });
+  const [factionCounts, setFactionCounts] = useState<Record<ThirdFaction, number>>({ neutral: 0, jester: 0 });
+  const [seed, setSeed] = useState(() => createSeed());
+  const [sampleSize, setSampleSize] = useState(1000);
+  // null keeps the sample alone
+  const [keepOutcome, setKeepOutcome] = useState<GameOutcome | null>(null);
+  const [keepMinRounds, setKeepMinRounds] = useState(0);
+  const [statistics, setStatistics] = useState<RunningStatistics | null>(null);
+  const [games, setGames] = useState<GameResult[]>([]);
+  const [exactSolution, setExactSolution] = useState<ExactSolution | null>(null);
+  const [exactLimitation, setExactLimitation] = useState<string | null>(null);
+  const [showExact, setShowExact] = useState(true);
   const [isRunning, setIsRunning] = useState(false);
   const [progress, setProgress] = useState(0);
+  const runRef = useRef<PooledSimulation | null>(null);
   const [sampleGame, setSampleGame] = useState<ReturnType<VotingGame['run']> | null>(null);
   const [selectedGame, setSelectedGame] = useState<GameResult | null>(null);
   const [isGameDialogOpen, setIsGameDialogOpen] = useState(false);
   const [activeTab, setActiveTab] = useState<'overview' | 'all-games'>('overview');
   const [statusMessage, setStatusMessage] = useState<string | null>(null);
+  const [playConfig, setPlayConfig] = useState<GameConfig | null>(null);
+  const [playSeed, setPlaySeed] = useState(() => createSeed());
+  const [sweepConfig, setSweepConfig] = useState<GameConfig | null>(null);
 
-  const handleRunSimulation = async () => {
+  // Checks the form and builds the game rules from it, or reports why it cannot
+  const buildConfig = (): GameConfig | null => {
     if (loyalists < 1 || traitors < 1) {
       setStatusMessage('Must have at least 1 loyalist and 1 traitor');
+      return null;
+    }
+
+    if (Object.values(roleCounts).reduce((sum, count) => sum + count, 0) > loyalists) {
+      setStatusMessage('Cannot assign more roles than there are loyalists');
+      return null;
+    }
+
+    const thirdFactionActors = Object.values(factionCounts).reduce((sum, count) => sum + count, 0);
+    if (tiePolicy === 'chair' && chairId >= loyalists + traitors + thirdFactionActors) {
+      setStatusMessage('The chair must be one of the actors');
+      return null;
+    }
+
+    return {
+      loyalistCount: loyalists,
+      traitorCount: traitors,
+      simulationType,
+      endCondition,
+      endThresholds,
+      gameType,
+      traitorPolicy,
+      influenceUpdate,
+      tieBreak: {
+        policy: tiePolicy,
+        maxRevotes,
+        chairId
+      },
+      phaseTwo: {
+        removalsPerRound,
+        removalProbability,
+        skipRounds: parseSkipRounds(skipRoundsText),
+        targeting: phaseTwoTargeting
+      },
+      recruitment: {
+        triggers: recruitmentTriggers,
+        traitorThreshold
+      },
+      roles: roleCounts,
+      factions: factionCounts,
+      maxRounds: maxRounds > 0 ? maxRounds : null,
+      reveal: {
+        policy: revealPolicy,
+        probability: revealProbability
+      }
+    };
+  };
+
+  const handleRunSimulation = async () => {
+    const config = buildConfig();
+    if (!config) {
       return;
     }
 
@@ -36,27 +152,49 @@ function App() {
     setProgress(0);
     setStatusMessage(null);
 
-    const batchSize = 100;
-    const batches = Math.ceil(iterations / batchSize);
-    const allResults: GameResult[] = [];
-
-    for (let i = 0; i < batches; i++) {
-      const currentBatchSize = Math.min(batchSize, iterations - i * batchSize);
-      
-      await new Promise(resolve => setTimeout(resolve, 0));
-      
-      const startId = i * batchSize;
-      const batchResults = runSimulation(currentBatchSize, loyalists, traitors, simulationType, endCondition, gameType, startId);
-      allResults.push(...batchResults);
-      
-      setProgress(((i + 1) / batches) * 100);
+    const retention: GameRetention = {
+      sampleSize,
+      filter: keepOutcome === null ? null : { outcomes: [keepOutcome], minRounds: keepMinRounds, maxRounds: null }
+    };
+    const run = runSimulationPool(iterations, config, seed, retention, navigator.hardwareConcurrency || 4, createSimulationWorker,
+      (completed) => setProgress((completed / iterations) * 100));
+    runRef.current = run;
+    let pooled: PooledSimulationResult;
+    try {
+      pooled = await run.done;
+    } catch (error) {
+      setIsRunning(false);
+      setStatusMessage(`Simulation failed: ${error instanceof Error ? error.message : String(error)}`);
+      return;
+    } finally {
+      runRef.current = null;
     }
 
-    setResults(allResults);
+    setStatistics(pooled.statistics);
+    setGames(pooled.games);
+
+    // A cancelled run reports at once, without solving the exact curve or playing a sample game
+    if (pooled.cancelled) {
+      setExactSolution(null);
+      setExactLimitation('the run was cancelled');
+      setSampleGame(null);
+      setIsRunning(false);
+      setStatusMessage(`Cancelled after ${pooled.statistics.games} of ${iterations} simulations`);
+      return;
+    }
+
+    // The exact curve is only available for games every actor plays at random
+    const limitation = exactSolverLimitation(config);
+    try {
+      setExactSolution(limitation === null ? solveExact(config) : null);
+      setExactLimitation(limitation);
+    } catch (error) {
+      setExactSolution(null);
+      setExactLimitation(error instanceof Error ? error.message : String(error));
+    }
     
-    const game = simulationType === 'influence'
-      ? new InfluenceVotingGame(loyalists, traitors)
-      : new VotingGame(loyalists, traitors, endCondition, gameType);
+    // Game IDs start at 1, so ID 0 gives the sample game its own reproducible seed
+    const game = new VotingGame(config, new SeededRandom(deriveSeed(seed, 0)));
     const gameResult = game.run();
     setSampleGame(gameResult);
     
@@ -64,16 +202,52 @@ function App() {
     setStatusMessage(`Completed ${iterations} simulations`);
   };
 
-  const stats = results.length > 0 ? calculateStatistics(results) : null;
+  const stats = statistics && statistics.games > 0 ? summariseStatistics(statistics) : null;
+  const effectiveTargeting = PHASE_TWO_TARGETING[phaseTwoTargeting ?? RULE_SETS[simulationType].phaseTwoTargeting];
+
+  const toggleRecruitmentTrigger = (trigger: RecruitmentTrigger, enabled: boolean) => {
+    setRecruitmentTriggers(enabled
+      ? [...recruitmentTriggers, trigger]
+      : recruitmentTriggers.filter((t) => t !== trigger));
+  };
+
+  const handleSimulationTypeChange = (type: SimulationType) => {
+    setSimulationType(type);
+    if (phaseTwoTargeting && PHASE_TWO_TARGETING[phaseTwoTargeting].requiresInfluence && !RULE_SETS[type].usesInfluence) {
+      setPhaseTwoTargeting(null);
+    }
+  };
 
   const handleReset = () => {
-    setResults([]);
+    setStatistics(null);
+    setGames([]);
+    setExactSolution(null);
+    setExactLimitation(null);
     setSampleGame(null);
     setSelectedGame(null);
     setProgress(0);
     setStatusMessage(null);
   };
 
+  const handlePlay = () => {
+    const config = buildConfig();
+    if (!config) {
+      return;
+    }
+    setStatusMessage(null);
+    setPlaySeed(createSeed());
+    setPlayConfig(config);
+  };
+
+  const handleSweep = () => {
+    const config = buildConfig();
+    if (!config) {
+      return;
+    }
+    setStatusMessage(null);
+    setSweepConfig(config);
+  };
+
   const handleSelectGame = (game: GameResult) => {
     setSelectedGame(game);
     setIsGameDialogOpen(true);
@@ -116,13 +290,29 @@ function App() {
                   onChange={(e) => setGameType(e.target.value as GameType)}
                   className="w-full h-9 px-3 rounded-md border bg-background text-sm"
                 >
-                  <option value="random">Random</option>
-                  <option value="fixate">Fixate on Suspect</option>
+                  {listStrategies('loyalist', false).map((strategy) => (
+                    <option key={strategy.id} value={strategy.id}>{strategy.label}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-muted-foreground">
+                  {getStrategy('loyalist', gameType).description}
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <label htmlFor="traitorPolicy" className="text-sm font-medium">Traitor Policy</label>
+                <select
+                  id="traitorPolicy"
+                  value={traitorPolicy}
+                  onChange={(e) => setTraitorPolicy(e.target.value as TraitorPolicy)}
+                  className="w-full h-9 px-3 rounded-md border bg-background text-sm"
+                >
+                  {listStrategies('traitor', false).map((strategy) => (
+                    <option key={strategy.id} value={strategy.id}>{strategy.label}</option>
+                  ))}
                 </select>
                 <p className="text-xs text-muted-foreground">
-                  {gameType === 'random' 
-                    ? 'Loyalists vote randomly each round' 
-                    : 'Loyalists fixate on a suspect until removed'}
+                  {getStrategy('traitor', traitorPolicy).description}
                 </p>
               </div>
 
@@ -131,7 +321,7 @@ function App() {
                 <select
                   id="simulation-type"
                   value={simulationType}
-                  onChange={(e) => setSimulationType(e.target.value as SimulationType)}
+                  onChange={(e) => handleSimulationTypeChange(e.target.value as SimulationType)}
                   className="w-full h-9 px-3 rounded-md border bg-background text-sm"
                 >
                   <option value="random">Random Voting</option>
@@ -211,6 +401,52 @@ function App() {
                 />
               </div>
 
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <label htmlFor="sampleSize" className="text-sm font-medium">Games Kept in Full</label>
+                  <input
+                    id="sampleSize"
+                    type="number"
+                    value={sampleSize}
+                    onChange={(e) => setSampleSize(Math.max(0, parseInt(e.target.value) || 0))}
+                    className="w-24 text-right h-8 px-2 rounded-md border bg-background text-sm"
+                    style={{ fontFamily: 'var(--font-mono)' }}
+                    min={0}
+                  />
+                </div>
+                <div className="flex items-center gap-2 text-sm">
+                  <label htmlFor="keepOutcome" className="text-muted-foreground">Also keep</label>
+                  <select
+                    id="keepOutcome"
+                    value={keepOutcome ?? ''}
+                    onChange={(e) => setKeepOutcome(e.target.value === '' ? null : e.target.value as GameOutcome)}
+                    className="flex-1 h-8 px-2 rounded-md border bg-background text-sm"
+                  >
+                    <option value="">No other games</option>
+                    {Object.values(OUTCOMES).map((outcome) => (
+                      <option key={outcome.id} value={outcome.id}>{outcome.label}</option>
+                    ))}
+                  </select>
+                  {keepOutcome !== null && (
+                    <>
+                      <label htmlFor="keepMinRounds" className="text-muted-foreground">from round</label>
+                      <input
+                        id="keepMinRounds"
+                        type="number"
+                        value={keepMinRounds}
+                        onChange={(e) => setKeepMinRounds(Math.max(0, parseInt(e.target.value) || 0))}
+                        className="w-16 text-right h-8 px-2 rounded-md border bg-background text-sm"
+                        style={{ fontFamily: 'var(--font-mono)' }}
+                        min={0}
+                      />
+                    </>
+                  )}
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  Every game counts towards the statistics; only the first games, and any that match, are kept to explore
+                </p>
+              </div>
+
               <div className="space-y-2">
                 <label htmlFor="endCondition" className="text-sm font-medium">End Condition</label>
                 <select
@@ -219,9 +455,302 @@ function App() {
                   onChange={(e) => setEndCondition(e.target.value as EndCondition)}
                   className="w-full h-9 px-3 rounded-md border bg-background text-sm"
                 >
-                  <option value="first_traitor_removed">First Traitor Removed</option>
-                  <option value="all_one_type">All One Type Remaining</option>
+                  {Object.values(END_CONDITIONS).map((condition) => (
+                    <option key={condition.id} value={condition.id}>{condition.label}</option>
+                  ))}
                 </select>
+                <p className="text-xs text-muted-foreground">{END_CONDITIONS[endCondition].description}</p>
+                {([
+                  ['final_circle', 'remainingActors', 'Final circle size'],
+                  ['traitors_removed', 'traitorsRemoved', 'Traitors to remove'],
+                  ['survive_rounds', 'rounds', 'Rounds to survive']
+                ] as const).filter(([condition]) => condition === endCondition).map(([, field, label]) => (
+                  <div key={field} className="flex items-center justify-between">
+                    <label htmlFor={field} className="text-sm text-muted-foreground">{label}</label>
+                    <input
+                      id={field}
+                      type="number"
+                      value={endThresholds[field]}
+                      onChange={(e) => setEndThresholds({ ...endThresholds, [field]: Math.max(1, parseInt(e.target.value) || 1) })}
+                      className="w-20 text-right h-8 px-2 rounded-md border bg-background text-sm"
+                      style={{ fontFamily: 'var(--font-mono)' }}
+                      min={1}
+                    />
+                  </div>
+                ))}
+                <div className="flex items-center justify-between">
+                  <label htmlFor="maxRounds" className="text-sm text-muted-foreground">Round cap (0 for none)</label>
+                  <input
+                    id="maxRounds"
+                    type="number"
+                    value={maxRounds}
+                    onChange={(e) => setMaxRounds(Math.max(0, parseInt(e.target.value) || 0))}
+                    className="w-20 text-right h-8 px-2 rounded-md border bg-background text-sm"
+                    style={{ fontFamily: 'var(--font-mono)' }}
+                    min={0}
+                  />
+                </div>
+              </div>
+
+              {simulationType === 'influence' && (
+                <div className="space-y-2">
+                  <div className="text-sm font-medium">Influence Updates</div>
+                  {([
+                    ['banishedLoyalistPenalty', 'Penalty for voting out a loyalist', 1],
+                    ['banishedTraitorReward', 'Reward for voting out a traitor', 1],
+                    ['decayRate', 'Decay per round', 0.05]
+                  ] as const).map(([field, label, step]) => (
+                    <div key={field} className="flex items-center justify-between">
+                      <label htmlFor={field} className="text-sm text-muted-foreground">{label}</label>
+                      <input
+                        id={field}
+                        type="number"
+                        value={influenceUpdate[field]}
+                        onChange={(e) => {
+                          const value = Math.max(0, parseFloat(e.target.value) || 0);
+                          setInfluenceUpdate({ ...influenceUpdate, [field]: field === 'decayRate' ? Math.min(1, value) : value });
+                        }}
+                        className="w-20 text-right h-8 px-2 rounded-md border bg-background text-sm"
+                        style={{ fontFamily: 'var(--font-mono)' }}
+                        min={0}
+                        step={step}
+                      />
+                    </div>
+                  ))}
+                  <p className="text-xs text-muted-foreground">
+                    Leave all at 0 to keep influence fixed for the whole game
+                  </p>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <label htmlFor="tiePolicy" className="text-sm font-medium">Tie Policy</label>
+                <select
+                  id="tiePolicy"
+                  value={tiePolicy}
+                  onChange={(e) => setTiePolicy(e.target.value as TiePolicy)}
+                  className="w-full h-9 px-3 rounded-md border bg-background text-sm"
+                >
+                  {Object.values(TIE_POLICIES).map((policy) => (
+                    <option key={policy.id} value={policy.id}>{policy.label}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-muted-foreground">{TIE_POLICIES[tiePolicy].description}</p>
+                {tiePolicy === 'revote' && (
+                  <div className="flex items-center justify-between">
+                    <label htmlFor="maxRevotes" className="text-sm text-muted-foreground">Maximum re-votes</label>
+                    <input
+                      id="maxRevotes"
+                      type="number"
+                      value={maxRevotes}
+                      onChange={(e) => setMaxRevotes(Math.max(0, parseInt(e.target.value) || 0))}
+                      className="w-20 text-right h-8 px-2 rounded-md border bg-background text-sm"
+                      style={{ fontFamily: 'var(--font-mono)' }}
+                      min={0}
+                    />
+                  </div>
+                )}
+                {tiePolicy === 'chair' && (
+                  <div className="flex items-center justify-between">
+                    <label htmlFor="chairId" className="text-sm text-muted-foreground">Chair (actor ID)</label>
+                    <input
+                      id="chairId"
+                      type="number"
+                      value={chairId}
+                      onChange={(e) => setChairId(Math.max(0, parseInt(e.target.value) || 0))}
+                      className="w-20 text-right h-8 px-2 rounded-md border bg-background text-sm"
+                      style={{ fontFamily: 'var(--font-mono)' }}
+                      min={0}
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <label htmlFor="revealPolicy" className="text-sm font-medium">Reveal Removed Types</label>
+                <select
+                  id="revealPolicy"
+                  value={revealPolicy}
+                  onChange={(e) => setRevealPolicy(e.target.value as RevealPolicy)}
+                  className="w-full h-9 px-3 rounded-md border bg-background text-sm"
+                >
+                  {Object.values(REVEAL_POLICIES).map((policy) => (
+                    <option key={policy.id} value={policy.id}>{policy.label}</option>
+                  ))}
+                </select>
+                <p className="text-xs text-muted-foreground">{REVEAL_POLICIES[revealPolicy].description}</p>
+                {revealPolicy === 'probabilistic' && (
+                  <div className="flex items-center justify-between">
+                    <label htmlFor="revealProbability" className="text-sm text-muted-foreground">Reveal probability</label>
+                    <input
+                      id="revealProbability"
+                      type="number"
+                      value={revealProbability}
+                      onChange={(e) => setRevealProbability(Math.min(1, Math.max(0, parseFloat(e.target.value) || 0)))}
+                      className="w-20 text-right h-8 px-2 rounded-md border bg-background text-sm"
+                      style={{ fontFamily: 'var(--font-mono)' }}
+                      min={0}
+                      max={1}
+                      step={0.05}
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-4">
+                <div className="text-sm font-medium">Phase 2 (Night)</div>
+                <div className="space-y-2">
+                  <label htmlFor="phaseTwoTargeting" className="text-sm text-muted-foreground">Targeting</label>
+                  <select
+                    id="phaseTwoTargeting"
+                    value={phaseTwoTargeting ?? ''}
+                    onChange={(e) => setPhaseTwoTargeting(e.target.value === '' ? null : e.target.value as PhaseTwoTargeting)}
+                    className="w-full h-9 px-3 rounded-md border bg-background text-sm"
+                  >
+                    <option value="">Rule set default ({PHASE_TWO_TARGETING[RULE_SETS[simulationType].phaseTwoTargeting].label})</option>
+                    {Object.values(PHASE_TWO_TARGETING)
+                      .filter((targeting) => RULE_SETS[simulationType].usesInfluence || !targeting.requiresInfluence)
+                      .map((targeting) => (
+                        <option key={targeting.id} value={targeting.id}>{targeting.label}</option>
+                      ))}
+                  </select>
+                  <p className="text-xs text-muted-foreground">{effectiveTargeting.description}</p>
+                </div>
+                <div className="flex items-center justify-between">
+                  <label htmlFor="removalsPerRound" className="text-sm text-muted-foreground">Removals per round</label>
+                  <input
+                    id="removalsPerRound"
+                    type="number"
+                    value={removalsPerRound}
+                    onChange={(e) => setRemovalsPerRound(Math.max(0, parseInt(e.target.value) || 0))}
+                    className="w-20 text-right h-8 px-2 rounded-md border bg-background text-sm"
+                    style={{ fontFamily: 'var(--font-mono)' }}
+                    min={0}
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <label htmlFor="removalProbability" className="text-sm text-muted-foreground">Removal probability</label>
+                  <input
+                    id="removalProbability"
+                    type="number"
+                    value={removalProbability}
+                    onChange={(e) => setRemovalProbability(Math.min(1, Math.max(0, parseFloat(e.target.value) || 0)))}
+                    className="w-20 text-right h-8 px-2 rounded-md border bg-background text-sm"
+                    style={{ fontFamily: 'var(--font-mono)' }}
+                    min={0}
+                    max={1}
+                    step={0.05}
+                  />
+                </div>
+                <div className="flex items-center justify-between">
+                  <label htmlFor="skipRounds" className="text-sm text-muted-foreground">Skip rounds</label>
+                  <input
+                    id="skipRounds"
+                    type="text"
+                    value={skipRoundsText}
+                    onChange={(e) => setSkipRoundsText(e.target.value)}
+                    placeholder="e.g. 1, 3"
+                    className="w-32 text-right h-8 px-2 rounded-md border bg-background text-sm"
+                    style={{ fontFamily: 'var(--font-mono)' }}
+                  />
+                </div>
+              </div>
+
+              <div className="space-y-2">
+                <div className="text-sm font-medium">Loyalist Roles</div>
+                {Object.values(ROLES).map((role) => (
+                  <div key={role.id} className="flex items-center justify-between">
+                    <label htmlFor={`role-${role.id}`} className="text-sm text-muted-foreground" title={role.description}>{role.label}s</label>
+                    <input
+                      id={`role-${role.id}`}
+                      type="number"
+                      value={roleCounts[role.id]}
+                      onChange={(e) => setRoleCounts({ ...roleCounts, [role.id]: Math.max(0, parseInt(e.target.value) || 0) })}
+                      className="w-20 text-right h-8 px-2 rounded-md border bg-background text-sm"
+                      style={{ fontFamily: 'var(--font-mono)' }}
+                      min={0}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <div className="text-sm font-medium">Third Factions</div>
+                {(Object.keys(factionCounts) as ThirdFaction[]).map((faction) => (
+                  <div key={faction} className="flex items-center justify-between">
+                    <label htmlFor={`faction-${faction}`} className="text-sm text-muted-foreground" title={FACTIONS[faction].description}>{FACTIONS[faction].label}s</label>
+                    <input
+                      id={`faction-${faction}`}
+                      type="number"
+                      value={factionCounts[faction]}
+                      onChange={(e) => setFactionCounts({ ...factionCounts, [faction]: Math.max(0, parseInt(e.target.value) || 0) })}
+                      className="w-20 text-right h-8 px-2 rounded-md border bg-background text-sm"
+                      style={{ fontFamily: 'var(--font-mono)' }}
+                      min={0}
+                    />
+                  </div>
+                ))}
+              </div>
+
+              <div className="space-y-2">
+                <div className="text-sm font-medium">Recruitment</div>
+                <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <input
+                    type="checkbox"
+                    checked={recruitmentTriggers.includes('traitor_banished')}
+                    onChange={(e) => toggleRecruitmentTrigger('traitor_banished', e.target.checked)}
+                  />
+                  After a traitor is banished
+                </label>
+                <div className="flex items-center justify-between">
+                  <label className="flex items-center gap-2 text-sm text-muted-foreground">
+                    <input
+                      type="checkbox"
+                      checked={recruitmentTriggers.includes('below_threshold')}
+                      onChange={(e) => toggleRecruitmentTrigger('below_threshold', e.target.checked)}
+                    />
+                    While traitors number fewer than
+                  </label>
+                  <input
+                    id="traitorThreshold"
+                    type="number"
+                    value={traitorThreshold}
+                    onChange={(e) => setTraitorThreshold(Math.max(0, parseInt(e.target.value) || 0))}
+                    className="w-20 text-right h-8 px-2 rounded-md border bg-background text-sm"
+                    style={{ fontFamily: 'var(--font-mono)' }}
+                    min={0}
+                  />
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  On a triggered night, traitors convert a random loyalist instead of removing one
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                <div className="flex items-center justify-between">
+                  <label htmlFor="seed" className="text-sm font-medium">Seed</label>
+                  <div className="flex gap-2">
+                    <input
+                      id="seed"
+                      type="number"
+                      value={seed}
+                      onChange={(e) => setSeed(Math.max(0, parseInt(e.target.value) || 0) >>> 0)}
+                      className="w-32 text-right h-8 px-2 rounded-md border bg-background text-sm"
+                      style={{ fontFamily: 'var(--font-mono)' }}
+                      min={0}
+                    />
+                    <button
+                      onClick={() => setSeed(createSeed())}
+                      className="h-8 px-2 rounded-md border bg-background text-sm hover:bg-muted"
+                      title="New random seed"
+                    >
+                      🎲
+                    </button>
+                  </div>
+                </div>
+                <p className="text-xs text-muted-foreground">
+                  The same seed and parameters always produce the same games
+                </p>
               </div>
 
               <div className="flex gap-2">
@@ -232,7 +761,23 @@ function App() {
                 >
                   ▶ {isRunning ? 'Running...' : 'Run Simulation'}
                 </button>
-                {results.length > 0 && (
+                <button
+                  onClick={handlePlay}
+                  disabled={isRunning}
+                  className="h-9 px-3 rounded-md border bg-background text-sm hover:bg-muted disabled:opacity-50 disabled:pointer-events-none"
+                  title="Play a game as one of the loyalists"
+                >
+                  🎮 Play
+                </button>
+                <button
+                  onClick={handleSweep}
+                  disabled={isRunning}
+                  className="h-9 px-3 rounded-md border bg-background text-sm hover:bg-muted disabled:opacity-50 disabled:pointer-events-none"
+                  title="Run a grid of loyalist and traitor counts, strategies and end conditions"
+                >
+                  🧪 Sweep
+                </button>
+                {statistics && (
                   <button 
                     onClick={handleReset}
                     className="h-9 px-3 rounded-md border bg-background text-sm hover:bg-muted"
@@ -246,7 +791,15 @@ function App() {
                 <div className="space-y-2">
                   <div className="flex items-center justify-between text-sm">
                     <span className="text-muted-foreground">Progress</span>
-                    <span style={{ fontFamily: 'var(--font-mono)' }}>{Math.round(progress)}%</span>
+                    <span className="flex items-center gap-3">
+                      <span style={{ fontFamily: 'var(--font-mono)' }}>{Math.round(progress)}%</span>
+                      <button
+                        onClick={() => runRef.current?.cancel()}
+                        className="h-7 px-2 rounded-md border bg-background text-xs hover:bg-muted"
+                      >
+                        Cancel
+                      </button>
+                    </span>
                   </div>
                   <div className="w-full h-2 bg-muted rounded-full overflow-hidden">
                     <div 
@@ -260,11 +813,11 @@ function App() {
           </div>
 
           {/* Statistics Card */}
-          {stats && (
+          {statistics && stats && (
             <div className="lg:col-span-2 bg-card text-card-foreground rounded-xl border py-6 shadow-sm">
               <div className="px-6 mb-4">
                 <h2 className="font-semibold">📊 Statistics</h2>
-                <p className="text-muted-foreground text-sm">Summary of {results.length.toLocaleString()} simulations</p>
+                <p className="text-muted-foreground text-sm">Summary of {statistics.games.toLocaleString()} simulations</p>
               </div>
               <div className="px-6">
                 <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
@@ -304,6 +857,14 @@ function App() {
                       {stats.stdDev.toFixed(2)}
                     </div>
                   </div>
+                  {stats.timeouts > 0 && (
+                    <div>
+                      <div className="text-sm text-muted-foreground">Timeouts</div>
+                      <div className="text-2xl font-bold mt-1" style={{ fontFamily: 'var(--font-mono)' }}>
+                        {stats.timeouts}
+                      </div>
+                    </div>
+                  )}
                 </div>
               </div>
             </div>
@@ -315,13 +876,13 @@ function App() {
           <div className="px-6 mb-4">
             <h2 className="font-semibold">Simulation Results</h2>
             <p className="text-muted-foreground text-sm">
-              {results.length > 0 
-                ? `Explore ${results.length.toLocaleString()} simulated games`
+              {statistics && stats
+                ? `Explore ${statistics.games.toLocaleString()} simulated games, ${games.length.toLocaleString()} kept in full`
                 : 'Run a simulation to see results'}
             </p>
           </div>
           <div className="px-6">
-            {results.length > 0 ? (
+            {statistics && stats ? (
               <div>
                 {/* Tab buttons */}
                 <div className="flex gap-1 mb-4 border-b">
@@ -343,13 +904,38 @@ function App() {
                         : 'border-transparent text-muted-foreground hover:text-foreground'
                     }`}
                   >
-                    👁 All Games
+                    👁 Kept Games
                   </button>
                 </div>
 
                 {activeTab === 'overview' && (
                   <div className="space-y-4">
-                    <Histogram data={results} width={Math.min(1000, window.innerWidth - 100)} />
+                    <Histogram
+                      data={statistics}
+                      exact={showExact ? exactSolution : null}
+                      width={Math.min(1000, window.innerWidth - 100)}
+                    />
+
+                    <div className="flex items-center justify-between gap-4 text-sm text-muted-foreground">
+                      <label className="flex items-center gap-2" title={exactLimitation ?? undefined}>
+                        <input
+                          type="checkbox"
+                          checked={showExact && exactSolution !== null}
+                          disabled={exactSolution === null}
+                          onChange={(e) => setShowExact(e.target.checked)}
+                        />
+                        Overlay exact distribution
+                      </label>
+                      {exactSolution ? (
+                        <span>
+                          Exact win chances: {(Object.entries(exactSolution.wins) as [ActorType, number][])
+                            .map(([faction, probability]) => `${FACTIONS[faction].label} ${(probability * 100).toFixed(1)}%`)
+                            .join(', ')}
+                        </span>
+                      ) : (
+                        exactLimitation && <span>No exact solution: {exactLimitation}</span>
+                      )}
+                    </div>
                     
                     {sampleGame && (
                       <div className="flex justify-end">
@@ -369,7 +955,7 @@ function App() {
 
                 {activeTab === 'all-games' && (
                   <GameList
-                    games={results}
+                    games={games}
                     onSelectGame={handleSelectGame}
                   />
                 )}
@@ -415,6 +1001,66 @@ function App() {
           </div>
         )}
 
+        {/* Sweep Dialog */}
+        {sweepConfig && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center">
+            <div 
+              className="fixed inset-0 bg-black/50" 
+              onClick={() => setSweepConfig(null)}
+            />
+            <div className="relative bg-card rounded-xl border shadow-lg max-w-5xl w-full mx-4 max-h-[85vh] overflow-y-auto p-6">
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <h2 className="text-lg font-semibold">Parameter Sweep</h2>
+                  <p className="text-sm text-muted-foreground">
+                    Compare win chances and game lengths across a grid of settings
+                  </p>
+                </div>
+                <button
+                  onClick={() => setSweepConfig(null)}
+                  className="h-8 w-8 rounded-md border flex items-center justify-center hover:bg-muted"
+                >
+                  ✕
+                </button>
+              </div>
+              <SweepExperiment config={sweepConfig} seed={seed} createWorker={createSimulationWorker} />
+            </div>
+          </div>
+        )}
+
+        {/* Play Dialog */}
+        {playConfig && (
+          <div className="fixed inset-0 z-50 flex items-center justify-center">
+            <div 
+              className="fixed inset-0 bg-black/50" 
+              onClick={() => setPlayConfig(null)}
+            />
+            <div className="relative bg-card rounded-xl border shadow-lg max-w-3xl w-full mx-4 max-h-[80vh] overflow-y-auto p-6">
+              <div className="flex items-center justify-between mb-4">
+                <div>
+                  <h2 className="text-lg font-semibold">Play as a Loyalist</h2>
+                  <p className="text-sm text-muted-foreground">
+                    Cast your own vote each round against simulated opponents
+                  </p>
+                </div>
+                <button
+                  onClick={() => setPlayConfig(null)}
+                  className="h-8 w-8 rounded-md border flex items-center justify-center hover:bg-muted"
+                >
+                  ✕
+                </button>
+              </div>
+              <PlayGame
+                key={playSeed}
+                config={playConfig}
+                seed={playSeed}
+                createWorker={createSimulationWorker}
+                onNewGame={() => setPlaySeed(createSeed())}
+              />
+            </div>
+          </div>
+        )}
+
         {/* Game Rules */}
         <div className="mt-6 bg-card text-card-foreground rounded-xl border py-6 shadow-sm">
           <div className="px-6 mb-4">
@@ -456,17 +1102,32 @@ function App() {
                   <h4 className="font-semibold mb-2">Phase 1: Voting</h4>
                   <ul className="list-disc list-inside space-y-1 text-muted-foreground">
                     <li>Each actor votes to remove one other actor</li>
-                    <li>Loyalists vote randomly for anyone except themselves</li>
-                    <li>Traitors vote randomly for any loyalist</li>
+                    <li>{getStrategy('loyalist', gameType).description}</li>
+                    {roleCounts.seer > 0 && <li>{ROLES.seer.description}</li>}
+                    <li>{getStrategy('traitor', traitorPolicy).description}</li>
                     <li>The actor with the most votes is removed</li>
-                    <li>If there&apos;s a tie, a run-off vote occurs between tied actors only</li>
+                    <li>Ties: {TIE_POLICIES[tiePolicy].description.toLowerCase()}</li>
                   </ul>
                 </div>
                 <div>
-                  <h4 className="font-semibold mb-2">Phase 2: Random Removal</h4>
-                  <p className="text-muted-foreground">
-                    A random loyalist is removed from the group.
-                  </p>
+                  <h4 className="font-semibold mb-2">Phase 2: {effectiveTargeting.label}</h4>
+                  <ul className="list-disc list-inside space-y-1 text-muted-foreground">
+                    <li>{effectiveTargeting.description}</li>
+                    <li>Up to {removalsPerRound} loyalist{removalsPerRound !== 1 ? 's are' : ' is'} removed each night</li>
+                    {removalProbability < 1 && <li>Each night has a {Math.round(removalProbability * 100)}% chance of any removal</li>}
+                    {parseSkipRounds(skipRoundsText).length > 0 && <li>No one is removed on night {parseSkipRounds(skipRoundsText).join(', ')}</li>}
+                    {roleCounts.protector > 0 && <li>{ROLES.protector.description}; a shielded target survives</li>}
+                    {recruitmentTriggers.length > 0 && <li>When recruitment is triggered, the first removal instead converts a random loyalist into a traitor</li>}
+                  </ul>
+                </div>
+                <div>
+                  <h4 className="font-semibold mb-2">Information</h4>
+                  <ul className="list-disc list-inside space-y-1 text-muted-foreground">
+                    <li>Traitors know every actor's type; loyalists know only their own</li>
+                    <li>{revealPolicy === 'probabilistic'
+                      ? `Each removed actor's type is revealed with a ${Math.round(revealProbability * 100)}% chance`
+                      : REVEAL_POLICIES[revealPolicy].description}</li>
+                  </ul>
                 </div>
                 <div>
                   <h4 className="font-semibold mb-2">Game End</h4>
@@ -474,8 +1135,13 @@ function App() {
                     The game ending condition can be configured:
                   </p>
                   <ul className="list-disc list-inside space-y-1 text-muted-foreground">
-                    <li><strong>First Traitor Removed:</strong> The game ends when either a traitor is removed (loyalists win) or no loyalists remain (traitors win).</li>
-                    <li><strong>All One Type Remaining:</strong> The game continues until all remaining actors are either loyalists or all traitors.</li>
+                    {Object.values(END_CONDITIONS).map((condition) => (
+                      <li key={condition.id}><strong>{condition.label}:</strong> {condition.description}.</li>
+                    ))}
+                    {maxRounds > 0 && <li><strong>Round Cap:</strong> A game still undecided after {maxRounds} round{maxRounds !== 1 ? 's' : ''} ends in a timeout, won by no one.</li>}
+                    {(Object.keys(factionCounts) as ThirdFaction[]).filter((faction) => factionCounts[faction] > 0).map((faction) => (
+                      <li key={faction}><strong>{FACTIONS[faction].label}:</strong> {FACTIONS[faction].description}.</li>
+                    ))}
                   </ul>
                 </div>
               </div>
@@ -484,7 +1150,7 @@ function App() {
                 <div>
                   <h4 className="font-semibold mb-2">Setup</h4>
                   <p className="text-muted-foreground">
-                    The game starts with a group of actors consisting of loyalists and traitors. Each actor has an influence score (1-100) against every other actor, set randomly at the start and never changing.
+                    The game starts with a group of actors consisting of loyalists and traitors. Each actor has an influence score (1-100) against every other actor, set randomly at the start. Unless influence updates are configured, the scores never change; otherwise, after each vote everyone's influence over an actor drops if they voted out a loyalist, rises if they voted out a traitor, and all scores decay toward the middle.
                   </p>
                 </div>
                 <div>
@@ -492,22 +1158,46 @@ function App() {
                   <ul className="list-disc list-inside space-y-1 text-muted-foreground">
                     <li>Each actor votes to remove one other actor</li>
                     <li>Loyalists vote for the actor they have the lowest influence over</li>
+                    {roleCounts.seer > 0 && <li>{ROLES.seer.description}</li>}
                     <li>Traitors vote for the loyalist they have the lowest influence over</li>
                     <li>The actor with the most votes is removed</li>
-                    <li>If there&apos;s a tie, a run-off vote occurs between tied actors only</li>
+                    <li>Ties: {TIE_POLICIES[tiePolicy].description.toLowerCase()}</li>
                   </ul>
                 </div>
                 <div>
-                  <h4 className="font-semibold mb-2">Phase 2: Influence-Based Removal</h4>
-                  <p className="text-muted-foreground">
-                    The loyalist with the highest total influence over all other actors is removed from the group.
-                  </p>
+                  <h4 className="font-semibold mb-2">Phase 2: {effectiveTargeting.label}</h4>
+                  <ul className="list-disc list-inside space-y-1 text-muted-foreground">
+                    <li>{effectiveTargeting.description}</li>
+                    <li>Up to {removalsPerRound} loyalist{removalsPerRound !== 1 ? 's are' : ' is'} removed each night</li>
+                    {removalProbability < 1 && <li>Each night has a {Math.round(removalProbability * 100)}% chance of any removal</li>}
+                    {parseSkipRounds(skipRoundsText).length > 0 && <li>No one is removed on night {parseSkipRounds(skipRoundsText).join(', ')}</li>}
+                    {roleCounts.protector > 0 && <li>{ROLES.protector.description}; a shielded target survives</li>}
+                    {recruitmentTriggers.length > 0 && <li>When recruitment is triggered, the first removal instead converts a random loyalist into a traitor</li>}
+                  </ul>
+                </div>
+                <div>
+                  <h4 className="font-semibold mb-2">Information</h4>
+                  <ul className="list-disc list-inside space-y-1 text-muted-foreground">
+                    <li>Traitors know every actor's type; loyalists know only their own</li>
+                    <li>{revealPolicy === 'probabilistic'
+                      ? `Each removed actor's type is revealed with a ${Math.round(revealProbability * 100)}% chance`
+                      : REVEAL_POLICIES[revealPolicy].description}</li>
+                  </ul>
                 </div>
                 <div>
                   <h4 className="font-semibold mb-2">Game End</h4>
-                  <p className="text-muted-foreground">
-                    The game ends when either a traitor is removed (loyalists win) or no loyalists remain (traitors win).
+                  <p className="text-muted-foreground mb-2">
+                    The game ending condition can be configured:
                   </p>
+                  <ul className="list-disc list-inside space-y-1 text-muted-foreground">
+                    {Object.values(END_CONDITIONS).map((condition) => (
+                      <li key={condition.id}><strong>{condition.label}:</strong> {condition.description}.</li>
+                    ))}
+                    {maxRounds > 0 && <li><strong>Round Cap:</strong> A game still undecided after {maxRounds} round{maxRounds !== 1 ? 's' : ''} ends in a timeout, won by no one.</li>}
+                    {(Object.keys(factionCounts) as ThirdFaction[]).filter((faction) => factionCounts[faction] > 0).map((faction) => (
+                      <li key={faction}><strong>{FACTIONS[faction].label}:</strong> {FACTIONS[faction].description}.</li>
+                    ))}
+                  </ul>
                 </div>
               </div>
             )}
@@ -0,0 +1,58 @@
+// @vitest-environment node
+/// <reference types="node" />
+import { describe, it, expect, beforeAll, afterAll } from 'vitest'
+import { spawn } from 'node:child_process'
+import { mkdtempSync, rmSync } from 'node:fs'
+import { tmpdir } from 'node:os'
+import { join } from 'node:path'
+import { build } from 'vite'
+
+let outDir: string
+
+// Bundled as `npm run build:cli` does, into a directory of its own
+beforeAll(async () => {
+  outDir = mkdtempSync(join(tmpdir(), 'voting-rings-cli-'))
+  await build({ logLevel: 'silent', build: { ssr: 'src/cli.ts', outDir } })
+}, 120_000)
+
+afterAll(() => {
+  rmSync(outDir, { recursive: true, force: true })
+})
+
+/** Runs the command line, leaving its output unread for `readAfter` ms as a slow reader would. */
+function runCli(args: string[], readAfter: number): Promise<{ code: number | null; stdout: string; stderr: string }> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(process.execPath, [join(outDir, 'cli.js'), ...args])
+    let stdout = ''
+    let stderr = ''
+    child.stderr.on('data', chunk => {
+      stderr += chunk
+    })
+    setTimeout(() => child.stdout.on('data', chunk => {
+      stdout += chunk
+    }), readAfter)
+    child.on('error', reject)
+    child.on('close', code => resolve({ code, stdout, stderr }))
+  })
+}
+
+describe('command line', () => {
+  it('should wait for a slow reader when writing games to stdout', async () => {
+    // Several megabytes, far more than a pipe holds
+    const { code, stdout, stderr } = await runCli(['--iterations', '300', '--seed', '1', '--output', '-', '--format', 'ndjson'], 1000)
+
+    expect(stderr).toContain('300 games of 16 loyalists and 4 traitors')
+    expect(code).toBe(0)
+    const lines = stdout.trimEnd().split('\n')
+    expect(stdout.length).toBeGreaterThan(1 << 20)
+    expect(lines).toHaveLength(300)
+    expect(lines.map(line => JSON.parse(line).id)).toEqual(Array.from({ length: 300 }, (_, i) => i + 1))
+  }, 60_000)
+
+  it('should point at --help for options it does not understand', async () => {
+    const { code, stderr } = await runCli(['--loyalists', 'many'], 0)
+
+    expect(code).toBe(1)
+    expect(stderr).toContain('Run with --help for the options.')
+  }, 60_000)
+})
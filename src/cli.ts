@@ -0,0 +1,91 @@
+/// <reference types="node" />
+import { createWriteStream } from 'node:fs';
+import { once } from 'node:events';
+import type { Writable } from 'node:stream';
+import type { CliOptions, GameConfig } from '@/lib/interfaces';
+import { CLI_USAGE, cliConfig, formatSummary, parseCliArgs } from '@/lib/cli';
+import { RESULT_FORMATS } from '@/lib/result-formats';
+import { addGame, createRunningStatistics } from '@/lib/statistics';
+import { SeededRandom, createSeed } from '@/lib/random';
+import { VotingGame, streamSimulation } from '@/lib/voting-game';
+
+/** Games played between writes, so a slow reader holds up the run rather than filling memory */
+const BATCH_SIZE = 100;
+
+/** Writes `text`, waiting until the stream drains if it has fallen behind. */
+async function write(stream: Writable, text: string): Promise<void> {
+  if (!stream.write(text)) {
+    await once(stream, 'drain');
+  }
+}
+
+// Node entry point, bundled by `npm run build:cli`. Games are written out as
+// they finish and only their statistics are kept, so runs of any size fit in memory.
+async function main(args: string[]): Promise<void> {
+  let options: CliOptions;
+  let config: GameConfig;
+  try {
+    options = parseCliArgs(args);
+    if (options.help) {
+      process.stdout.write(CLI_USAGE);
+      return;
+    }
+    config = cliConfig(options);
+    // Throws on rules the engine rejects before any output file is created
+    new VotingGame(config, new SeededRandom(0));
+  } catch (error) {
+    process.stderr.write(`${error instanceof Error ? error.message : String(error)}\nRun with --help for the options.\n`);
+    process.exitCode = 1;
+    return;
+  }
+
+  const seed = options.seed ?? createSeed();
+  const format = RESULT_FORMATS[options.format];
+  const toStdout = options.output === '-';
+  const output: Writable | null = options.output === null ? null : toStdout ? process.stdout : createWriteStream(options.output);
+  // An error between writes is held until the next one, rather than going unhandled
+  let outputError: Error | null = null;
+  output?.on('error', error => {
+    outputError = error;
+  });
+  const emit = async (text: string) => {
+    if (output) {
+      if (!outputError) {
+        await write(output, text);
+      }
+      if (outputError) {
+        throw outputError;
+      }
+    }
+  };
+
+  const statistics = createRunningStatistics();
+  await emit(format.header);
+  for (let startId = 0; startId < options.iterations; startId += BATCH_SIZE) {
+    let text = '';
+    streamSimulation(Math.min(BATCH_SIZE, options.iterations - startId), config, seed, startId, game => {
+      if (output) {
+        text += (statistics.games > 0 ? format.separator : '') + format.formatGame(game);
+      }
+      addGame(statistics, { rounds: game.totalRounds, outcome: game.outcome, thirdFactionWinners: game.thirdFactionWinners });
+    });
+    await emit(text);
+  }
+  await emit(format.footer);
+  if (output && !toStdout) {
+    output.end();
+    await once(output, 'finish');
+  }
+
+  // Keep stdout for the games when they are written there
+  (toStdout ? process.stderr : process.stdout).write(formatSummary(options, seed, statistics));
+}
+
+main(process.argv.slice(2)).catch((error: NodeJS.ErrnoException) => {
+  // A reader that stops early, such as `head`, has all it wants
+  if (error.code === 'EPIPE') {
+    return;
+  }
+  process.stderr.write(`${error.message}\n`);
+  process.exitCode = 1;
+});
@@ -1,4 +1,11 @@
-import type { GameResult } from '@/lib/interfaces';
+import { useMemo } from 'react';
+import type { ActorType, GameResult } from '@/lib/interfaces';
+import { FACTIONS, OUTCOMES } from '@/lib/factions';
+import { PHASE_TWO_TARGETING } from '@/lib/phase-two';
+import { ROLES } from '@/lib/roles';
+import { TIE_POLICIES } from '@/lib/tie-break';
+import { getStrategy } from '@/lib/strategies';
+import { roundsFromEvents } from '@/lib/replay';
 
 interface GameDetailsProps {
   game: GameResult;
@@ -7,17 +14,50 @@ interface GameDetailsProps {
 }
 
 export function GameDetails({ game, initialLoyalists, initialTraitors }: GameDetailsProps) {
-  const getActorBadge = (actorId: number) => {
-    const isTraitor = actorId >= initialLoyalists;
-    return isTraitor ? (
-      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium text-white" style={{ backgroundColor: 'var(--traitor)' }}>
-        Traitor #{actorId - initialLoyalists + 1}
-      </span>
-    ) : (
-      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium text-white" style={{ backgroundColor: 'var(--loyalist)' }}>
-        Loyalist #{actorId + 1}
+  const rounds = useMemo(() => roundsFromEvents(game.events), [game]);
+
+  // Recruited loyalists keep their name but take the traitor colour from the round they convert
+  const recruitedBy = (roundNumber: number) => new Set(
+    rounds
+      .filter((round) => round.roundNumber <= roundNumber && round.phaseTwoRecruited !== null)
+      .map((round) => round.phaseTwoRecruited)
+  );
+
+  // Everyone removed up to the end of a round, in removal order
+  const removedBy = (roundNumber: number) => rounds
+    .filter((round) => round.roundNumber <= roundNumber)
+    .flatMap((round) => [...round.phaseOneRemoved, ...round.phaseTwoRemoved]);
+
+  const getActorBadge = (actorId: number, recruited: Set<number | null>) => {
+    const startingType: ActorType = game.factions.get(actorId) ?? (actorId >= initialLoyalists ? 'traitor' : 'loyalist');
+    const type = recruited.has(actorId) ? 'traitor' : startingType;
+    // Actors are numbered within their starting faction, in ID order
+    const firstId = startingType === 'loyalist' ? 0
+      : startingType === 'traitor' ? initialLoyalists
+      : Math.min(...[...game.factions].filter(([, faction]) => faction === startingType).map(([id]) => id));
+    const name = `${FACTIONS[startingType].label} #${actorId - firstId + 1}`;
+    const badge = (
+      <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium text-white" style={{ backgroundColor: `var(--${type})` }}>
+        {name}{recruited.has(actorId) ? ' (recruited)' : ''}
       </span>
     );
+    const role = recruited.has(actorId) ? undefined : game.roles.get(actorId);
+    return role ? (
+      <span className="inline-flex items-center gap-1">
+        {badge}
+        <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium border">{ROLES[role].label}</span>
+      </span>
+    ) : badge;
+  };
+
+  // The event log is plain data and holds the whole game, so it doubles as the export format
+  const exportEvents = () => {
+    const url = URL.createObjectURL(new Blob([JSON.stringify(game.events)], { type: 'application/json' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `game-${game.id ?? game.seed}-events.json`;
+    link.click();
+    URL.revokeObjectURL(url);
   };
 
   return (
@@ -36,15 +76,22 @@ export function GameDetails({ game, initialLoyalists, initialTraitors }: GameDet
           <div className="p-4 rounded-xl border">
             <div className="text-sm text-muted-foreground">Outcome</div>
             <div className="text-lg font-semibold mt-1">
-              {{
-                'traitor_removed': <span style={{ color: 'var(--loyalist)' }}>First Traitor Removed</span>,
-                'all_loyalists': <span style={{ color: 'var(--loyalist)' }}>All Loyalists Remaining</span>,
-                'no_loyalists': <span style={{ color: 'var(--traitor)' }}>No Loyalists Left</span>,
-                'all_traitors': <span style={{ color: 'var(--traitor)' }}>All Traitors Remaining</span>
-              }[game.outcome]}
+              <span style={{ color: OUTCOMES[game.outcome].winner ? `var(--${OUTCOMES[game.outcome].winner})` : 'var(--removed-foreground)' }}>{OUTCOMES[game.outcome].label}</span>
+              {game.thirdFactionWinners.map((faction) => (
+                <span key={faction} style={{ color: `var(--${faction})` }}> + {FACTIONS[faction].label}</span>
+              ))}
             </div>
           </div>
         </div>
+        <div className="flex items-center justify-between text-xs text-muted-foreground mt-2">
+          <span>Traitor policy: {getStrategy('traitor', game.traitorPolicy).label}</span>
+          <span className="flex items-center gap-3">
+            <button onClick={exportEvents} className="underline hover:text-foreground">
+              Export event log
+            </button>
+            <span style={{ fontFamily: 'var(--font-mono)' }}>Seed {game.seed}</span>
+          </span>
+        </div>
       </div>
 
       <hr className="border-border" />
@@ -54,7 +101,7 @@ export function GameDetails({ game, initialLoyalists, initialTraitors }: GameDet
           Round-by-Round Breakdown
         </h3>
         <div className="space-y-4">
-          {game.rounds.map((round) => (
+          {rounds.map((round) => (
             <div key={round.roundNumber} className="p-4 rounded-xl border">
               <div className="flex items-center justify-between mb-3">
                 <h4 className="text-lg font-semibold" style={{ fontFamily: 'var(--font-heading)' }}>
@@ -75,13 +122,13 @@ export function GameDetails({ game, initialLoyalists, initialTraitors }: GameDet
                       {Array.from(round.phaseOneVotes.entries())
                         .sort((a, b) => b[1] - a[1])
                         .map(([actorId, voteCount]) => {
-                          const isRemoved = actorId === round.phaseOneRemoved;
+                          const isRemoved = round.phaseOneRemoved.includes(actorId);
                           return (
                             <div 
                               key={actorId} 
                               className={`flex items-center justify-between ${isRemoved ? 'font-semibold' : ''}`}
                             >
-                              {getActorBadge(actorId)}
+                              {getActorBadge(actorId, recruitedBy(round.roundNumber - 1))}
                               <span 
                                 className="text-sm" 
                                 style={{ fontFamily: 'var(--font-mono)' }}
@@ -94,18 +141,89 @@ export function GameDetails({ game, initialLoyalists, initialTraitors }: GameDet
                     </div>
                   )}
                   
-                  <div className="flex items-center gap-2">
+                  {round.phaseOneBallots.some((vote) => vote.length > 0) && (
+                    <details className="mb-3 text-sm">
+                      <summary className="cursor-pointer text-xs font-semibold text-muted-foreground">Ballots</summary>
+                      <div className="space-y-2 mt-2">
+                        {round.phaseOneBallots.map((vote, voteIndex) => (
+                          <div key={voteIndex}>
+                            <div className="text-xs text-muted-foreground mb-1">
+                              {voteIndex === 0 ? 'Opening vote' : round.tieBreak?.policy === 'lowest_id' || round.tieBreak?.policy === 'chair' ? 'Deciding vote' : `Re-vote ${voteIndex}`}
+                            </div>
+                            <div className="space-y-1">
+                              {vote.map((ballot) => (
+                                <div key={ballot.voterId} className="flex items-center gap-2">
+                                  {getActorBadge(ballot.voterId, recruitedBy(round.roundNumber - 1))}
+                                  <span className="text-muted-foreground">→</span>
+                                  {getActorBadge(ballot.targetId, recruitedBy(round.roundNumber - 1))}
+                                </div>
+                              ))}
+                            </div>
+                          </div>
+                        ))}
+                      </div>
+                    </details>
+                  )}
+
+                  {round.tieBreak && (
+                    <div className="text-xs text-muted-foreground mb-2">
+                      Tie settled by {TIE_POLICIES[round.tieBreak.policy].label.toLowerCase()}
+                      {round.tieBreak.revotes > 0 && ` after ${round.tieBreak.revotes} re-vote${round.tieBreak.revotes !== 1 ? 's' : ''}`}
+                    </div>
+                  )}
+
+                  <div className="flex flex-wrap items-center gap-2">
                     <span className="text-sm font-semibold">Removed:</span>
-                    {getActorBadge(round.phaseOneRemoved)}
+                    {round.phaseOneRemoved.length > 0 ? round.phaseOneRemoved.map((actorId) => (
+                      <div key={actorId}>{getActorBadge(actorId, recruitedBy(round.roundNumber - 1))}</div>
+                    )) : (
+                      <span className="text-sm text-muted-foreground">No one</span>
+                    )}
                   </div>
                 </div>
 
-                {round.phaseTwoRemoved !== -1 && (
+                {(round.phaseTwoRemoved.length > 0 || round.phaseTwoRecruited !== null || round.phaseTwoSaved.length > 0) && (
+                  <div className="space-y-2">
+                    <div className="text-sm font-medium text-muted-foreground">Phase 2: {PHASE_TWO_TARGETING[game.phaseTwoTargeting].label}</div>
+                    {round.phaseTwoRecruited !== null && (
+                      <div className="flex items-center gap-2">
+                        <span className="text-sm">Recruited:</span>
+                        {getActorBadge(round.phaseTwoRecruited, recruitedBy(round.roundNumber - 1))}
+                        <span className="text-sm text-muted-foreground">→</span>
+                        {getActorBadge(round.phaseTwoRecruited, recruitedBy(round.roundNumber))}
+                      </div>
+                    )}
+                    {round.phaseTwoSaved.length > 0 && (
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-sm">Saved by a protector:</span>
+                        {round.phaseTwoSaved.map((actorId, index) => (
+                          <div key={index}>{getActorBadge(actorId, recruitedBy(round.roundNumber))}</div>
+                        ))}
+                      </div>
+                    )}
+                    {round.phaseTwoRemoved.length > 0 && (
+                      <div className="flex flex-wrap items-center gap-2">
+                        <span className="text-sm">Removed:</span>
+                        {round.phaseTwoRemoved.map((actorId) => (
+                          <div key={actorId}>{getActorBadge(actorId, recruitedBy(round.roundNumber))}</div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+
+                {removedBy(round.roundNumber).length > 0 && (
                   <div>
-                    <div className="text-sm font-medium mb-2 text-muted-foreground">Phase 2: Random Loyalist Removal</div>
-                    <div className="flex items-center gap-2">
-                      <span className="text-sm">Removed:</span>
-                      {getActorBadge(round.phaseTwoRemoved)}
+                    <div className="text-sm font-medium mb-2 text-muted-foreground">Public Knowledge</div>
+                    <div className="flex flex-wrap gap-2">
+                      {removedBy(round.roundNumber).map((actorId) => (
+                        <div key={actorId} className="inline-flex items-center gap-1">
+                          {getActorBadge(actorId, recruitedBy(round.roundNumber))}
+                          <span className="text-xs text-muted-foreground">
+                            {round.revealed.includes(actorId) ? 'revealed' : 'hidden'}
+                          </span>
+                        </div>
+                      ))}
                     </div>
                   </div>
                 )}
@@ -114,7 +232,7 @@ export function GameDetails({ game, initialLoyalists, initialTraitors }: GameDet
                   <div className="text-sm font-medium mb-2 text-muted-foreground">Remaining Actors</div>
                   <div className="flex flex-wrap gap-2">
                     {round.remainingActors.map((actor) => (
-                      <div key={actor.id}>{getActorBadge(actor.id)}</div>
+                      <div key={actor.id}>{getActorBadge(actor.id, recruitedBy(round.roundNumber))}</div>
                     ))}
                   </div>
                 </div>
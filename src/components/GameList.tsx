@@ -1,5 +1,7 @@
 import { useState, useMemo, useEffect } from 'react';
-import type { GameResult } from '@/lib/interfaces';
+import { FACTIONS, OUTCOMES } from '@/lib/factions';
+import { END_CONDITIONS } from '@/lib/end-conditions';
+import type { GameOutcome, GameResult } from '@/lib/interfaces';
 
 interface GameListProps {
   games: GameResult[];
@@ -8,7 +10,7 @@ interface GameListProps {
 
 type SortField = 'id' | 'rounds' | 'outcome';
 type SortDirection = 'asc' | 'desc';
-type OutcomeFilter = 'all' | 'traitor_removed' | 'all_loyalists' | 'no_loyalists' | 'all_traitors';
+type OutcomeFilter = 'all' | GameOutcome;
 
 export function GameList({ games, onSelectGame }: GameListProps) {
   const [sortField, setSortField] = useState<SortField>('id');
@@ -18,6 +20,26 @@ export function GameList({ games, onSelectGame }: GameListProps) {
   const [currentPage, setCurrentPage] = useState(1);
   const [itemsPerPage, setItemsPerPage] = useState(100);
 
+  // Offer the outcomes the games' end conditions can produce, those of every
+  // third faction in play that ends the game, and outcomes without a winner
+  // only when some game ended that way
+  const outcomeOptions = useMemo(() => {
+    const possible = new Set<GameOutcome>();
+    for (const game of games) {
+      END_CONDITIONS[game.endCondition].outcomes.forEach(outcome => possible.add(outcome));
+      game.factions.forEach(faction => {
+        const { outcome } = FACTIONS[faction];
+        if (outcome) {
+          possible.add(outcome);
+        }
+      });
+      if (OUTCOMES[game.outcome].winner === null) {
+        possible.add(game.outcome);
+      }
+    }
+    return Object.values(OUTCOMES).filter(outcome => possible.has(outcome.id));
+  }, [games]);
+
   const filteredAndSortedGames = useMemo(() => {
     let result = [...games];
 
@@ -71,21 +93,26 @@ export function GameList({ games, onSelectGame }: GameListProps) {
     }
   };
 
-  const getOutcomeBadge = (outcome: GameResult['outcome']) => {
-    const isLoyalist = outcome === 'traitor_removed' || outcome === 'all_loyalists';
-    const label = {
-      'traitor_removed': 'First Traitor Removed',
-      'all_loyalists': 'All Loyalists',
-      'no_loyalists': 'No Loyalists',
-      'all_traitors': 'All Traitors'
-    }[outcome];
-    
+  const getOutcomeBadge = (game: GameResult) => {
+    const { label, winner } = OUTCOMES[game.outcome];
+
     return (
-      <span 
-        className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium text-white"
-        style={{ backgroundColor: isLoyalist ? 'var(--loyalist)' : 'var(--traitor)' }}
-      >
-        {label}
+      <span className="inline-flex items-center gap-1">
+        <span
+          className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium text-white"
+          style={{ backgroundColor: winner ? `var(--${winner})` : 'var(--removed-foreground)' }}
+        >
+          {label}
+        </span>
+        {game.thirdFactionWinners.map((faction) => (
+          <span
+            key={faction}
+            className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium text-white"
+            style={{ backgroundColor: `var(--${faction})` }}
+          >
+            + {FACTIONS[faction].label}
+          </span>
+        ))}
       </span>
     );
   };
@@ -114,10 +141,9 @@ export function GameList({ games, onSelectGame }: GameListProps) {
             className="h-9 px-3 rounded-md border bg-background text-sm w-[200px]"
           >
             <option value="all">All Outcomes</option>
-            <option value="traitor_removed">First Traitor Removed</option>
-            <option value="all_loyalists">All Loyalists</option>
-            <option value="no_loyalists">No Loyalists</option>
-            <option value="all_traitors">All Traitors</option>
+            {outcomeOptions.map((outcome) => (
+              <option key={outcome.id} value={outcome.id}>{outcome.label}</option>
+            ))}
           </select>
           <select 
             value={itemsPerPage.toString()} 
@@ -185,7 +211,7 @@ export function GameList({ games, onSelectGame }: GameListProps) {
                     {game.totalRounds}
                   </td>
                   <td className="px-4 py-3">
-                    {getOutcomeBadge(game.outcome)}
+                    {getOutcomeBadge(game)}
                   </td>
                   <td className="px-4 py-3">
                     <button
@@ -1,19 +1,22 @@
 import { useEffect, useRef } from 'react';
 import * as d3 from 'd3';
 
-import type { GameResult } from '@/lib/interfaces';
+import { FACTIONS, OUTCOMES } from '@/lib/factions';
+import type { ActorType, ExactSolution, GameOutcome, RunningStatistics } from '@/lib/interfaces';
 
 interface HistogramProps {
-  data: GameResult[];
+  data: RunningStatistics;
+  /** Exact distribution to overlay as a curve of expected game counts */
+  exact?: ExactSolution | null;
   width?: number;
   height?: number;
 }
 
-export function Histogram({ data, width = 800, height = 400 }: HistogramProps) {
+export function Histogram({ data, exact = null, width = 800, height = 400 }: HistogramProps) {
   const svgRef = useRef<SVGSVGElement>(null);
 
   useEffect(() => {
-    if (!svgRef.current || data.length === 0) return;
+    if (!svgRef.current || data.games === 0) return;
 
     const svg = d3.select(svgRef.current);
     svg.selectAll('*').remove();
@@ -26,44 +29,75 @@ export function Histogram({ data, width = 800, height = 400 }: HistogramProps) {
       .append('g')
       .attr('transform', `translate(${margin.left},${margin.top})`);
 
-    // Group data by rounds and outcome
+    // Group data by rounds and winning faction; null counts games no one won
     interface HistDataPoint {
       rounds: number;
-      loyalistWins: number;
-      traitorWins: number;
+      wins: Map<ActorType | null, number>;
       total: number;
     }
 
-    const dataByRounds = new Map<number, { loyalistWins: number; traitorWins: number }>();
-    
-    for (const result of data) {
-      const existing = dataByRounds.get(result.totalRounds) || { loyalistWins: 0, traitorWins: 0 };
-      if (result.outcome === 'traitor_removed' || result.outcome === 'all_loyalists') {
-        existing.loyalistWins++;
-      } else {
-        existing.traitorWins++;
+    interface HistSeries {
+      winner: ActorType | null;
+      label: string;
+      color: string;
+      hoverColor: string;
+    }
+
+    const dataByRounds = new Map<number, Map<ActorType | null, number>>();
+    const factionsInPlay = new Set<ActorType>(['loyalist', 'traitor']);
+
+    data.histogram.forEach((tally, rounds) => {
+      const wins = new Map<ActorType | null, number>();
+      for (const [outcome, count] of Object.entries(tally) as [GameOutcome, number][]) {
+        const winner = OUTCOMES[outcome].winner;
+        wins.set(winner, (wins.get(winner) || 0) + count);
+        if (winner !== null) {
+          factionsInPlay.add(winner);
+        }
+      }
+      if (wins.size > 0) {
+        dataByRounds.set(rounds, wins);
       }
-      dataByRounds.set(result.totalRounds, existing);
+    });
+
+    // One stacked series per faction in play, in FACTIONS order from the bottom,
+    // with games that hit the round cap on top
+    const series: HistSeries[] = (Object.keys(FACTIONS) as ActorType[])
+      .filter(faction => factionsInPlay.has(faction))
+      .map(faction => ({
+        winner: faction,
+        label: `${FACTIONS[faction].label} wins`,
+        color: FACTIONS[faction].color,
+        hoverColor: FACTIONS[faction].hoverColor
+      }));
+    if ((Object.keys(data.outcomes) as GameOutcome[]).some(outcome => OUTCOMES[outcome].winner === null)) {
+      series.push({ winner: null, label: 'Timeouts', color: 'oklch(0.70 0.02 250)', hoverColor: 'oklch(0.75 0.03 250)' });
     }
 
     const histData: HistDataPoint[] = Array.from(dataByRounds.entries())
-      .map(([rounds, counts]) => ({
+      .map(([rounds, wins]) => ({
         rounds,
-        loyalistWins: counts.loyalistWins,
-        traitorWins: counts.traitorWins,
-        total: counts.loyalistWins + counts.traitorWins
+        wins,
+        total: Array.from(wins.values()).reduce((sum, count) => sum + count, 0)
       }))
       .sort((a, b) => a.rounds - b.rounds);
 
+    // Games the exact distribution expects in each round, kept where at least half a game is due
+    const expected = (exact?.rounds ?? [])
+      .map((probability, rounds) => ({ rounds, games: probability * data.games }))
+      .filter(d => d.games >= 0.5 || dataByRounds.has(d.rounds));
+    const roundsShown = Array.from(new Set([...histData.map(d => d.rounds), ...expected.map(d => d.rounds)]))
+      .sort((a, b) => a - b);
+
     const xScale = d3
       .scaleBand()
-      .domain(histData.map(d => d.rounds.toString()))
+      .domain(roundsShown.map(rounds => rounds.toString()))
       .range([0, innerWidth])
       .padding(0.1);
 
     const yScale = d3
       .scaleLinear()
-      .domain([0, d3.max(histData, d => d.total) || 0])
+      .domain([0, Math.max(d3.max(histData, d => d.total) || 0, d3.max(expected, d => d.games) || 0)])
       .nice()
       .range([innerHeight, 0]);
 
@@ -85,60 +119,22 @@ export function Histogram({ data, width = 800, height = 400 }: HistogramProps) {
     g.selectAll('.domain, .tick line')
       .style('stroke', 'oklch(0.90 0.005 250)');
 
-    // Color scheme: Blue for loyalist wins, Red for traitor wins
-    const loyalistColor = 'oklch(0.65 0.15 240)';
-    const traitorColor = 'oklch(0.60 0.20 25)';
-    const loyalistHoverColor = 'oklch(0.70 0.17 240)';
-    const traitorHoverColor = 'oklch(0.65 0.22 25)';
-
     // Helper function to create tooltip content
     const createTooltipHtml = (d: HistDataPoint) => {
-      return `<strong>${d.rounds} rounds</strong><br/>Loyalist wins: ${d.loyalistWins} (${((d.loyalistWins / d.total) * 100).toFixed(1)}%)<br/>Traitor wins: ${d.traitorWins} (${((d.traitorWins / d.total) * 100).toFixed(1)}%)<br/>Total: ${d.total} games`;
+      const lines = series.map(({ winner, label }) => {
+        const wins = d.wins.get(winner) || 0;
+        return `${label}: ${wins} (${((wins / d.total) * 100).toFixed(1)}%)`;
+      });
+      const expectedGames = expected.find(e => e.rounds === d.rounds);
+      if (expectedGames) {
+        lines.push(`Exact: ${expectedGames.games.toFixed(1)} games expected`);
+      }
+      return `<strong>${d.rounds} rounds</strong><br/>${lines.join('<br/>')}<br/>Total: ${d.total} games`;
     };
 
-    // Create loyalist win bars (bottom of stack)
-    const loyalistBars = g
-      .selectAll('.bar-loyalist')
-      .data(histData)
-      .join('rect')
-      .attr('class', 'bar-loyalist')
-      .attr('x', d => xScale(d.rounds.toString()) || 0)
-      .attr('y', innerHeight)
-      .attr('width', xScale.bandwidth())
-      .attr('height', 0)
-      .attr('fill', loyalistColor)
-      .attr('rx', 4)
-      .style('cursor', 'pointer');
-
-    // Create traitor win bars (top of stack)
-    const traitorBars = g
-      .selectAll('.bar-traitor')
-      .data(histData)
-      .join('rect')
-      .attr('class', 'bar-traitor')
-      .attr('x', d => xScale(d.rounds.toString()) || 0)
-      .attr('y', innerHeight)
-      .attr('width', xScale.bandwidth())
-      .attr('height', 0)
-      .attr('fill', traitorColor)
-      .attr('rx', 4)
-      .style('cursor', 'pointer');
-
-    // Animate loyalist bars
-    loyalistBars
-      .transition()
-      .duration(800)
-      .ease(d3.easeCubicOut)
-      .attr('y', d => yScale(d.loyalistWins))
-      .attr('height', d => innerHeight - yScale(d.loyalistWins));
-
-    // Animate traitor bars (stacked on top of loyalist bars)
-    traitorBars
-      .transition()
-      .duration(800)
-      .ease(d3.easeCubicOut)
-      .attr('y', d => yScale(d.total))
-      .attr('height', d => yScale(d.loyalistWins) - yScale(d.total));
+    // Games stacked below a series' bar in each round
+    const winsBelow = (d: HistDataPoint, index: number) =>
+      series.slice(0, index).reduce((sum, { winner }) => sum + (d.wins.get(winner) || 0), 0);
 
     const tooltip = d3
       .select('body')
@@ -154,57 +150,89 @@ export function Histogram({ data, width = 800, height = 400 }: HistogramProps) {
       .style('opacity', 0)
       .style('z-index', 1000);
 
-    // Add hover interactions for loyalist bars
-    loyalistBars
-      .on('mouseenter', function (event, d) {
-        d3.select(this)
-          .transition()
-          .duration(200)
-          .attr('fill', loyalistHoverColor);
-
-        tooltip
-          .style('opacity', 1)
-          .html(createTooltipHtml(d));
-      })
-      .on('mousemove', function (event) {
-        tooltip
-          .style('left', event.pageX + 10 + 'px')
-          .style('top', event.pageY - 10 + 'px');
-      })
-      .on('mouseleave', function () {
-        d3.select(this)
-          .transition()
-          .duration(200)
-          .attr('fill', loyalistColor);
-
-        tooltip.style('opacity', 0);
-      });
-
-    // Add hover interactions for traitor bars
-    traitorBars
-      .on('mouseenter', function (event, d) {
-        d3.select(this)
-          .transition()
-          .duration(200)
-          .attr('fill', traitorHoverColor);
-
-        tooltip
-          .style('opacity', 1)
-          .html(createTooltipHtml(d));
-      })
-      .on('mousemove', function (event) {
-        tooltip
-          .style('left', event.pageX + 10 + 'px')
-          .style('top', event.pageY - 10 + 'px');
-      })
-      .on('mouseleave', function () {
-        d3.select(this)
-          .transition()
-          .duration(200)
-          .attr('fill', traitorColor);
-
-        tooltip.style('opacity', 0);
-      });
+    series.forEach(({ winner, color, hoverColor }, index) => {
+      const barClass = `bar-${winner ?? 'timeout'}`;
+
+      const bars = g
+        .selectAll(`.${barClass}`)
+        .data(histData)
+        .join('rect')
+        .attr('class', barClass)
+        .attr('x', d => xScale(d.rounds.toString()) || 0)
+        .attr('y', innerHeight)
+        .attr('width', xScale.bandwidth())
+        .attr('height', 0)
+        .attr('fill', color)
+        .attr('rx', 4)
+        .style('cursor', 'pointer');
+
+      // Animate the bars, stacked on top of the series before this one
+      bars
+        .transition()
+        .duration(800)
+        .ease(d3.easeCubicOut)
+        .attr('y', d => yScale(winsBelow(d, index + 1)))
+        .attr('height', d => yScale(winsBelow(d, index)) - yScale(winsBelow(d, index + 1)));
+
+      bars
+        .on('mouseenter', function (event, d) {
+          d3.select(this)
+            .transition()
+            .duration(200)
+            .attr('fill', hoverColor);
+
+          tooltip
+            .style('opacity', 1)
+            .html(createTooltipHtml(d));
+        })
+        .on('mousemove', function (event) {
+          tooltip
+            .style('left', event.pageX + 10 + 'px')
+            .style('top', event.pageY - 10 + 'px');
+        })
+        .on('mouseleave', function () {
+          d3.select(this)
+            .transition()
+            .duration(200)
+            .attr('fill', color);
+
+          tooltip.style('opacity', 0);
+        });
+    });
+
+    // The exact curve sits over the bars and lets hover events through to them
+    if (expected.length > 0) {
+      const centre = (rounds: number) => (xScale(rounds.toString()) || 0) + xScale.bandwidth() / 2;
+      const curve = g.append('g').style('pointer-events', 'none');
+
+      curve
+        .append('path')
+        .datum(expected)
+        .attr('fill', 'none')
+        .attr('stroke', 'oklch(0.35 0.06 250)')
+        .attr('stroke-width', 2)
+        .attr('stroke-dasharray', '6 4')
+        .attr('d', d3.line<{ rounds: number; games: number }>(d => centre(d.rounds), d => yScale(d.games)));
+
+      curve
+        .selectAll('circle')
+        .data(expected)
+        .join('circle')
+        .attr('cx', d => centre(d.rounds))
+        .attr('cy', d => yScale(d.games))
+        .attr('r', 3)
+        .attr('fill', 'oklch(0.35 0.06 250)');
+
+      curve
+        .append('text')
+        .attr('x', innerWidth)
+        .attr('y', 0)
+        .attr('text-anchor', 'end')
+        .style('font-family', 'Space Grotesk, sans-serif')
+        .style('font-size', '12px')
+        .style('fill', 'oklch(0.35 0.06 250)')
+        .text('- - Exact distribution');
+    }
 
     g.append('text')
       .attr('x', innerWidth / 2)
@@ -230,9 +258,9 @@ export function Histogram({ data, width = 800, height = 400 }: HistogramProps) {
     return () => {
       tooltip.remove();
     };
-  }, [data, width, height]);
+  }, [data, exact, width, height]);
 
-  if (data.length === 0) {
+  if (data.games === 0) {
     return (
       <div className="flex items-center justify-center h-[400px] text-muted-foreground">
         Run a simulation to see results
@@ -0,0 +1,247 @@
+import { useEffect, useMemo, useState } from 'react';
+import type { Actor, GameConfig, GameState, SimulationWorker, StrategyComparison } from '@/lib/interfaces';
+import { FACTIONS, OUTCOMES } from '@/lib/factions';
+import { ROLES } from '@/lib/roles';
+import { VotingGame } from '@/lib/voting-game';
+import { SeededRandom, deriveSeed } from '@/lib/random';
+import { PlayerVoter, compareWithStrategies, playerSeat, playerWon, summarisePlayerVotes } from '@/lib/play';
+
+interface PlayGameProps {
+  config: GameConfig;
+  seed: number;
+  /** Starts a worker for the end-of-game strategy comparison */
+  createWorker: () => SimulationWorker;
+  onNewGame?: () => void;
+}
+
+/** Games simulated per loyalist strategy for the end-of-game comparison */
+const COMPARISON_GAMES = 200;
+
+export function PlayGame({ config, seed, createWorker, onNewGame }: PlayGameProps) {
+  // One game per mount; give the component a new key to start another
+  const [session] = useState(() => {
+    const game = new VotingGame(config, new SeededRandom(seed));
+    const voter = new PlayerVoter();
+    const playerId = playerSeat(game.getState().actors);
+    game.seatVoter(playerId, voter);
+
+    // Actor IDs give away factions, so the player sees seats numbered in a shuffled order
+    const order = game.getState().actors.map((actor) => actor.id);
+    const random = new SeededRandom(deriveSeed(seed, 1));
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = random.nextInt(i + 1);
+      [order[i], order[j]] = [order[j], order[i]];
+    }
+    const seats = new Map(order.map((id, index) => [id, index + 1]));
+
+    return { game, voter, playerId, seats };
+  });
+  const { game, voter, playerId, seats } = session;
+  const [state, setState] = useState<GameState>(() => game.getState());
+  const [target, setTarget] = useState<number | null>(null);
+
+  const player = state.actors[playerId];
+  const playerActive = player.status === 'active';
+  const isFinished = state.nextPhase === 'finished';
+  const lastRound = state.rounds.length > 0 ? state.rounds[state.rounds.length - 1] : null;
+
+  const result = useMemo(() => (isFinished ? game.run() : null), [isFinished, game]);
+  const summary = useMemo(() => (result ? summarisePlayerVotes(result, playerId) : null), [result, playerId]);
+  const [comparison, setComparison] = useState<StrategyComparison[] | null>(null);
+  const [comparisonError, setComparisonError] = useState<string | null>(null);
+
+  // The comparison plays on workers once the game is over, and stops if the game is closed first
+  useEffect(() => {
+    if (!isFinished) {
+      return;
+    }
+    const run = compareWithStrategies(config, COMPARISON_GAMES, seed, navigator.hardwareConcurrency || 4, createWorker);
+    run.done.then(
+      (result) => {
+        if (result) {
+          setComparison(result);
+        }
+      },
+      (error) => setComparisonError(error instanceof Error ? error.message : String(error))
+    );
+    return run.cancel;
+  }, [isFinished, config, seed, createWorker]);
+
+  const castVote = () => {
+    if (target === null) {
+      return;
+    }
+    voter.choose(target);
+    setTarget(null);
+    setState(game.stepPhase());
+  };
+
+  // Once the player is out there is nothing left to decide
+  const playOut = () => {
+    game.run();
+    setState(game.getState());
+  };
+
+  // The player knows their own faction and any that have been revealed
+  const getSeatBadge = (actor: Actor) => {
+    const known = actor.id === playerId || state.revealed.includes(actor.id);
+    const name = actor.id === playerId ? `Seat ${seats.get(actor.id)} (you)` : `Seat ${seats.get(actor.id)}`;
+    return (
+      <span
+        className={`inline-flex items-center px-2 py-0.5 rounded text-xs font-medium ${known ? 'text-white' : 'border'}`}
+        style={known ? { backgroundColor: `var(--${actor.type})` } : undefined}
+      >
+        {name}{known ? ` · ${FACTIONS[actor.type].label}` : ''}
+      </span>
+    );
+  };
+  const badgeFor = (actorId: number) => getSeatBadge(state.actors[actorId]);
+
+  const bySeat = (a: Actor, b: Actor) => seats.get(a.id)! - seats.get(b.id)!;
+  const activeActors = state.actors.filter((actor) => actor.status === 'active').sort(bySeat);
+
+  const phaseOne = state.pendingPhaseOne ?? (lastRound && {
+    votes: lastRound.phaseOneVotes,
+    removedIds: lastRound.phaseOneRemoved
+  });
+  const won = result !== null && playerWon(result, playerId);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div className="text-sm text-muted-foreground">
+          {isFinished ? `Game over after ${state.currentRound} rounds` : `Round ${state.nextPhase === 'phase_one' ? state.currentRound + 1 : state.currentRound}`}
+          {' · '}{activeActors.length} actors remaining
+        </div>
+        <div className="flex items-center gap-2">
+          {getSeatBadge(player)}
+          {player.role && (
+            <span className="inline-flex items-center px-2 py-0.5 rounded text-xs font-medium border">{ROLES[player.role].label}</span>
+          )}
+        </div>
+      </div>
+
+      {phaseOne && phaseOne.votes.size > 0 && (
+        <div className="p-4 rounded-xl border space-y-2">
+          <div className="text-sm font-medium text-muted-foreground">
+            Round {state.currentRound} vote{state.pendingPhaseOne ? '' : ' and night'}
+          </div>
+          {Array.from(phaseOne.votes.entries())
+            .sort((a, b) => b[1] - a[1])
+            .map(([actorId, voteCount]) => (
+              <div key={actorId} className={`flex items-center justify-between ${phaseOne.removedIds.includes(actorId) ? 'font-semibold' : ''}`}>
+                {badgeFor(actorId)}
+                <span className="text-sm" style={{ fontFamily: 'var(--font-mono)' }}>
+                  {voteCount} vote{voteCount !== 1 ? 's' : ''}
+                </span>
+              </div>
+            ))}
+          <div className="flex flex-wrap items-center gap-2">
+            <span className="text-sm font-semibold">Banished:</span>
+            {phaseOne.removedIds.length > 0
+              ? phaseOne.removedIds.map((actorId) => <div key={actorId}>{badgeFor(actorId)}</div>)
+              : <span className="text-sm text-muted-foreground">No one</span>}
+          </div>
+          {!state.pendingPhaseOne && lastRound && (
+            <div className="flex flex-wrap items-center gap-2">
+              <span className="text-sm font-semibold">Removed in the night:</span>
+              {lastRound.phaseTwoRemoved.length > 0
+                ? lastRound.phaseTwoRemoved.map((actorId) => <div key={actorId}>{badgeFor(actorId)}</div>)
+                : <span className="text-sm text-muted-foreground">No one</span>}
+            </div>
+          )}
+        </div>
+      )}
+
+      {!isFinished && state.nextPhase === 'phase_one' && playerActive && (
+        <div className="space-y-3">
+          <div className="text-sm font-medium">Who do you vote to banish?</div>
+          <div className="flex flex-wrap gap-2">
+            {activeActors.filter((actor) => actor.id !== playerId).map((actor) => (
+              <button
+                key={actor.id}
+                onClick={() => setTarget(actor.id)}
+                className={`rounded-md p-1 border-2 ${target === actor.id ? 'border-primary' : 'border-transparent hover:border-border'}`}
+              >
+                {getSeatBadge(actor)}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={castVote}
+            disabled={target === null}
+            className="h-9 px-4 rounded-md bg-primary text-primary-foreground text-sm font-medium hover:bg-primary/90 disabled:opacity-50 disabled:pointer-events-none"
+          >
+            Cast vote
+          </button>
+        </div>
+      )}
+
+      {!isFinished && state.nextPhase === 'phase_two' && (
+        <button
+          onClick={() => setState(game.stepPhase())}
+          className="h-9 px-4 rounded-md bg-primary text-primary-foreground text-sm font-medium hover:bg-primary/90"
+        >
+          Continue to night
+        </button>
+      )}
+
+      {!isFinished && !playerActive && (
+        <div className="space-y-3">
+          <p className="text-sm text-muted-foreground">You have been removed from the game.</p>
+          <button
+            onClick={playOut}
+            className="h-9 px-4 rounded-md border bg-background text-sm hover:bg-muted"
+          >
+            Play out the rest
+          </button>
+        </div>
+      )}
+
+      {isFinished && state.outcome && summary && (
+        <div className="space-y-4">
+          <div className="p-4 rounded-xl border">
+            <div className="text-sm text-muted-foreground">Outcome</div>
+            <div className="text-lg font-semibold mt-1">
+              <span style={{ color: OUTCOMES[state.outcome].winner ? `var(--${OUTCOMES[state.outcome].winner})` : 'var(--removed-foreground)' }}>
+                {OUTCOMES[state.outcome].label}
+              </span>
+              {' · '}{won ? 'You won' : 'You lost'}
+            </div>
+          </div>
+
+          <div className="p-4 rounded-xl border space-y-1 text-sm">
+            <div className="font-medium">Your votes</div>
+            <div className="text-muted-foreground">
+              {summary.traitorVotes} of {summary.votes} vote{summary.votes !== 1 ? 's' : ''} landed on a traitor.
+              Voting at random would have found {summary.expectedTraitorVotes.toFixed(1)} on average.
+            </div>
+          </div>
+
+          <div className="p-4 rounded-xl border space-y-2 text-sm">
+            <div className="font-medium">Loyalist win rate over {COMPARISON_GAMES} simulated games</div>
+            {comparison ? comparison.map((entry) => (
+              <div key={entry.strategy} className="flex items-center justify-between">
+                <span>{entry.label}</span>
+                <span style={{ fontFamily: 'var(--font-mono)' }}>{(entry.loyalistWinRate * 100).toFixed(1)}%</span>
+              </div>
+            )) : <div className="text-muted-foreground">{comparisonError ? `Comparison failed: ${comparisonError}` : 'Simulating...'}</div>}
+          </div>
+
+          {onNewGame && (
+            <button
+              onClick={onNewGame}
+              className="h-9 px-4 rounded-md bg-primary text-primary-foreground text-sm font-medium hover:bg-primary/90"
+            >
+              New game
+            </button>
+          )}
+        </div>
+      )}
+
+      <div className="text-xs text-muted-foreground text-right" style={{ fontFamily: 'var(--font-mono)' }}>
+        Seed {seed}
+      </div>
+    </div>
+  );
+}
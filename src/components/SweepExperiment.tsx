@@ -0,0 +1,327 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import type {
+  CountRange,
+  EndCondition,
+  GameConfig,
+  GameType,
+  PooledSimulation,
+  PooledSimulationResult,
+  SimulationWorker,
+  SweepCell,
+  SweepConfig,
+  TraitorPolicy
+} from '@/lib/interfaces';
+import { END_CONDITIONS } from '@/lib/end-conditions';
+import { RULE_SETS } from '@/lib/rule-sets';
+import { getStrategy, listStrategies } from '@/lib/strategies';
+import { runSimulationPool } from '@/lib/simulation-pool';
+import { SWEEP_RETENTION, sweepCell, sweepConfigs, sweepToCsv, sweptStrategies } from '@/lib/sweep';
+
+interface SweepExperimentProps {
+  /** Rules for everything the sweep does not vary */
+  config: GameConfig;
+  seed: number;
+  /** Starts a worker for the pool that plays each cell */
+  createWorker: () => SimulationWorker;
+}
+
+type SortField = keyof SweepCell;
+type SortDirection = 'asc' | 'desc';
+
+const COLUMNS: { field: SortField; label: string }[] = [
+  { field: 'loyalists', label: 'Loyalists' },
+  { field: 'traitors', label: 'Traitors' },
+  { field: 'gameType', label: 'Strategy' },
+  { field: 'traitorPolicy', label: 'Traitor Strategy' },
+  { field: 'endCondition', label: 'End Condition' },
+  { field: 'loyalistWinRate', label: 'Loyalist Wins' },
+  { field: 'traitorWinRate', label: 'Traitor Wins' },
+  { field: 'meanRounds', label: 'Mean Rounds' },
+  { field: 'stdDev', label: 'Std Dev' }
+];
+
+function download(contents: string, type: string, fileName: string) {
+  const url = URL.createObjectURL(new Blob([contents], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function SweepExperiment({ config, seed, createWorker }: SweepExperimentProps) {
+  const [loyalists, setLoyalists] = useState<CountRange>({ from: 5, to: 30 });
+  const [traitors, setTraitors] = useState<CountRange>({ from: 1, to: 8 });
+  const [gameTypes, setGameTypes] = useState<GameType[]>([config.gameType]);
+  const [traitorPolicies, setTraitorPolicies] = useState<TraitorPolicy[]>([config.traitorPolicy]);
+  const [endConditions, setEndConditions] = useState<EndCondition[]>([config.endCondition]);
+  const [iterations, setIterations] = useState(200);
+  const [cells, setCells] = useState<SweepCell[]>([]);
+  const [cellCount, setCellCount] = useState(0);
+  const [isRunning, setIsRunning] = useState(false);
+  const [message, setMessage] = useState<string | null>(null);
+  const [sortField, setSortField] = useState<SortField>('loyalists');
+  const [sortDirection, setSortDirection] = useState<SortDirection>('asc');
+  const cancelledRef = useRef(false);
+  const runRef = useRef<PooledSimulation | null>(null);
+
+  const cancel = () => {
+    cancelledRef.current = true;
+    runRef.current?.cancel();
+  };
+
+  // Stop a sweep still running when the dialog closes
+  useEffect(() => cancel, []);
+
+  const ruleSet = RULE_SETS[config.simulationType];
+  const sweep: SweepConfig = { loyalists, traitors, gameTypes, traitorPolicies, endConditions, iterations };
+  const swept = sweptStrategies(config.simulationType, sweep);
+  const plannedCells = Math.max(0, loyalists.to - loyalists.from + 1) * Math.max(0, traitors.to - traitors.from + 1)
+    * swept.gameTypes.length * swept.traitorPolicies.length * endConditions.length;
+
+  const sortedCells = useMemo(() => [...cells].sort((a, b) => {
+    const x = a[sortField];
+    const y = b[sortField];
+    const comparison = typeof x === 'number' && typeof y === 'number' ? x - y : String(x).localeCompare(String(y));
+    return sortDirection === 'asc' ? comparison : -comparison;
+  }), [cells, sortField, sortDirection]);
+
+  const handleSort = (field: SortField) => {
+    if (sortField === field) {
+      setSortDirection(sortDirection === 'asc' ? 'desc' : 'asc');
+    } else {
+      setSortField(field);
+      setSortDirection('asc');
+    }
+  };
+
+  const toggle = <T,>(values: T[], value: T, enabled: boolean) =>
+    enabled ? [...values, value] : values.filter((v) => v !== value);
+
+  // Cells run one at a time, each spread across the worker pool so cancelling stops it mid-cell
+  const handleRun = async () => {
+    let configs: GameConfig[];
+    try {
+      configs = sweepConfigs(config, sweep);
+    } catch (error) {
+      setMessage(error instanceof Error ? error.message : String(error));
+      return;
+    }
+
+    cancelledRef.current = false;
+    setIsRunning(true);
+    setMessage(null);
+    setCells([]);
+    setCellCount(configs.length);
+    const finished: SweepCell[] = [];
+    for (const cellConfig of configs) {
+      if (cancelledRef.current) {
+        setMessage(`Cancelled after ${finished.length} of ${configs.length} cells`);
+        break;
+      }
+      const run = runSimulationPool(iterations, cellConfig, seed, SWEEP_RETENTION, navigator.hardwareConcurrency || 4,
+        createWorker, () => {});
+      runRef.current = run;
+      let pooled: PooledSimulationResult;
+      try {
+        pooled = await run.done;
+      } catch (error) {
+        setMessage(`Sweep failed: ${error instanceof Error ? error.message : String(error)}`);
+        break;
+      } finally {
+        runRef.current = null;
+      }
+      // A cell cut short would skew the table, so it is dropped
+      if (pooled.cancelled) {
+        setMessage(`Cancelled after ${finished.length} of ${configs.length} cells`);
+        break;
+      }
+      finished.push(sweepCell(cellConfig, pooled.statistics));
+      setCells([...finished]);
+    }
+    setIsRunning(false);
+  };
+
+  const rangeInput = (label: string, range: CountRange, setRange: (range: CountRange) => void) => {
+    const input = (end: keyof CountRange) => (
+      <input
+        type="number"
+        aria-label={`${label} ${end}`}
+        value={range[end]}
+        onChange={(e) => setRange({ ...range, [end]: Math.max(1, parseInt(e.target.value) || 1) })}
+        className="w-16 text-right h-8 px-2 rounded-md border bg-background text-sm"
+        style={{ fontFamily: 'var(--font-mono)' }}
+        min={1}
+      />
+    );
+    return (
+      <div className="flex items-center justify-between gap-2">
+        <span className="text-sm font-medium">{label}</span>
+        <span className="flex items-center gap-2 text-sm text-muted-foreground">
+          {input('from')} to {input('to')}
+        </span>
+      </div>
+    );
+  };
+
+  const formatCell = (cell: SweepCell, field: SortField) => {
+    switch (field) {
+      case 'loyalistWinRate':
+      case 'traitorWinRate':
+        return `${(cell[field] * 100).toFixed(1)}%`;
+      case 'meanRounds':
+      case 'stdDev':
+        return cell[field].toFixed(2);
+      case 'gameType':
+        return getStrategy('loyalist', cell.gameType).label;
+      case 'traitorPolicy':
+        return getStrategy('traitor', cell.traitorPolicy).label;
+      case 'endCondition':
+        return END_CONDITIONS[cell.endCondition].label;
+      default:
+        return String(cell[field]);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="grid md:grid-cols-2 gap-6">
+        <div className="space-y-3">
+          {rangeInput('Loyalists', loyalists, setLoyalists)}
+          {rangeInput('Traitors', traitors, setTraitors)}
+          <div className="flex items-center justify-between gap-2">
+            <label htmlFor="sweepIterations" className="text-sm font-medium">Games per cell</label>
+            <input
+              id="sweepIterations"
+              type="number"
+              value={iterations}
+              onChange={(e) => setIterations(Math.max(1, parseInt(e.target.value) || 0))}
+              className="w-24 text-right h-8 px-2 rounded-md border bg-background text-sm"
+              style={{ fontFamily: 'var(--font-mono)' }}
+              min={1}
+            />
+          </div>
+          <div className="space-y-1">
+            <div className="text-sm font-medium">End Conditions</div>
+            {Object.values(END_CONDITIONS).map((condition) => (
+              <label key={condition.id} className="flex items-center gap-2 text-sm text-muted-foreground">
+                <input
+                  type="checkbox"
+                  checked={endConditions.includes(condition.id)}
+                  onChange={(e) => setEndConditions(toggle(endConditions, condition.id, e.target.checked))}
+                />
+                {condition.label}
+              </label>
+            ))}
+          </div>
+        </div>
+        <div className="space-y-3">
+          {([
+            ['Loyalist Strategies', 'loyalist', ruleSet.loyalistStrategy, gameTypes, setGameTypes],
+            ['Traitor Strategies', 'traitor', ruleSet.traitorStrategy, traitorPolicies, setTraitorPolicies]
+          ] as const).map(([title, faction, override, selected, setSelected]) => (
+            <div key={faction} className="space-y-1">
+              <div className="text-sm font-medium">{title}</div>
+              {override !== null && (
+                <p className="text-xs text-muted-foreground">
+                  {ruleSet.label} always plays {getStrategy(faction, override).label}
+                </p>
+              )}
+              {listStrategies(faction, ruleSet.usesInfluence).map((strategy) => (
+                <label key={strategy.id} className="flex items-center gap-2 text-sm text-muted-foreground">
+                  <input
+                    type="checkbox"
+                    checked={override === null ? selected.includes(strategy.id) : strategy.id === override}
+                    disabled={override !== null}
+                    onChange={(e) => setSelected(toggle(selected, strategy.id, e.target.checked))}
+                  />
+                  {strategy.label}
+                </label>
+              ))}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <p className="text-xs text-muted-foreground">
+        Every other rule comes from the parameters card, and every cell replays the same seeds
+      </p>
+
+      <div className="flex items-center gap-2">
+        <button
+          onClick={handleRun}
+          disabled={isRunning}
+          className="h-9 px-4 rounded-md bg-primary text-primary-foreground text-sm font-medium hover:bg-primary/90 disabled:opacity-50 disabled:pointer-events-none"
+        >
+          ▶ {isRunning ? 'Running...' : `Run ${plannedCells.toLocaleString()} cells × ${iterations.toLocaleString()} games`}
+        </button>
+        {isRunning && (
+          <>
+            <span className="text-sm text-muted-foreground" style={{ fontFamily: 'var(--font-mono)' }}>
+              {cells.length} / {cellCount}
+            </span>
+            <button
+              onClick={cancel}
+              className="h-9 px-3 rounded-md border bg-background text-sm hover:bg-muted"
+            >
+              Cancel
+            </button>
+          </>
+        )}
+        {cells.length > 0 && !isRunning && (
+          <span className="ml-auto flex gap-2">
+            <button
+              onClick={() => download(sweepToCsv(sortedCells), 'text/csv', `sweep-${seed}.csv`)}
+              className="h-9 px-3 rounded-md border bg-background text-sm hover:bg-muted"
+            >
+              ⬇ CSV
+            </button>
+            <button
+              onClick={() => download(JSON.stringify(sortedCells, null, 2), 'application/json', `sweep-${seed}.json`)}
+              className="h-9 px-3 rounded-md border bg-background text-sm hover:bg-muted"
+            >
+              ⬇ JSON
+            </button>
+          </span>
+        )}
+      </div>
+
+      {message && <p className="text-sm text-muted-foreground">{message}</p>}
+
+      {cells.length > 0 && (
+        <div className="max-h-[400px] overflow-y-auto rounded-md border">
+          <table className="w-full text-sm">
+            <thead className="sticky top-0 bg-background z-10 border-b">
+              <tr>
+                {COLUMNS.map(({ field, label }) => (
+                  <th
+                    key={field}
+                    className="text-left px-3 py-2 font-medium cursor-pointer select-none hover:bg-muted/50"
+                    onClick={() => handleSort(field)}
+                  >
+                    {label}
+                    {sortField === field && <span className="ml-1">{sortDirection === 'asc' ? '↑' : '↓'}</span>}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {sortedCells.map((cell) => (
+                <tr
+                  key={`${cell.loyalists}-${cell.traitors}-${cell.gameType}-${cell.traitorPolicy}-${cell.endCondition}`}
+                  className="border-b"
+                >
+                  {COLUMNS.map(({ field }) => (
+                    <td key={field} className="px-3 py-2" style={{ fontFamily: 'var(--font-mono)' }}>
+                      {formatCell(cell, field)}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </div>
+  );
+}
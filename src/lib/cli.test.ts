@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest'
+import { cliConfig, formatSummary, parseCliArgs } from './cli'
+import { addGame, createRunningStatistics } from './statistics'
+import { runSimulation } from './voting-game'
+
+describe('parseCliArgs', () => {
+  it('should fill in the web form defaults', () => {
+    expect(parseCliArgs([])).toEqual({
+      loyalists: 16,
+      traitors: 4,
+      iterations: 1000,
+      simulationType: 'random',
+      endCondition: 'first_traitor_removed',
+      gameType: 'random',
+      traitorPolicy: 'random',
+      seed: null,
+      maxRounds: 100,
+      output: null,
+      format: 'json',
+      help: false
+    })
+  })
+
+  it('should read options given as separate values or with =', () => {
+    const options = parseCliArgs(['--loyalists', '10', '--traitors=3', '--iterations', '50', '--simulation-type', 'influence',
+      '--end-condition=all_one_type', '--strategy', 'fixate', '--traitor-policy', 'bloc', '--seed', '42', '--max-rounds', '0', '-h'])
+
+    expect(options).toMatchObject({
+      loyalists: 10,
+      traitors: 3,
+      iterations: 50,
+      simulationType: 'influence',
+      endCondition: 'all_one_type',
+      gameType: 'fixate',
+      traitorPolicy: 'bloc',
+      seed: 42,
+      maxRounds: null,
+      help: true
+    })
+  })
+
+  it('should take the format from the output file unless given', () => {
+    expect(parseCliArgs(['--output', 'games.csv']).format).toBe('csv')
+    expect(parseCliArgs(['--output', 'games.NDJSON']).format).toBe('ndjson')
+    expect(parseCliArgs(['--output', 'games.txt']).format).toBe('json')
+    expect(parseCliArgs(['--output', '-', '--format', 'csv'])).toMatchObject({ output: '-', format: 'csv' })
+  })
+
+  it('should reject what it does not understand', () => {
+    expect(() => parseCliArgs(['--players', '5'])).toThrow('Unknown option: --players')
+    expect(() => parseCliArgs(['--loyalists'])).toThrow('needs a value')
+    expect(() => parseCliArgs(['--loyalists', '0'])).toThrow('at least 1')
+    expect(() => parseCliArgs(['--iterations', '2.5'])).toThrow('whole number')
+    expect(() => parseCliArgs(['--seed', '4294967296'])).toThrow('32 bits')
+    expect(() => parseCliArgs(['--simulation-type', 'toString'])).toThrow('one of random, influence')
+    expect(() => parseCliArgs(['--end-condition', 'sudden_death'])).toThrow('first_traitor_removed')
+    expect(() => parseCliArgs(['--format', 'xml'])).toThrow('json, ndjson, csv')
+    expect(() => parseCliArgs(['--strategy', 'psychic'])).toThrow('Unknown loyalist strategy')
+    expect(() => parseCliArgs(['--traitor-policy', 'psychic'])).toThrow('Unknown traitor strategy')
+  })
+})
+
+describe('formatSummary', () => {
+  it('should print the run, its round statistics and its outcomes', () => {
+    const options = parseCliArgs(['--loyalists', '6', '--traitors', '2', '--iterations', '40'])
+    const statistics = createRunningStatistics()
+    runSimulation(40, cliConfig(options), 8).forEach(game => addGame(statistics, { rounds: game.totalRounds, outcome: game.outcome }))
+    const summary = formatSummary(options, 8, statistics)
+
+    expect(summary).toContain('40 games of 6 loyalists and 2 traitors, Random Voting, First Traitor Removed, seed 8')
+    expect(summary).toMatch(/Mean\s+\d+\.\d{2}/)
+    expect(summary).toMatch(/Timeouts\s+0/)
+    const wins = [...summary.matchAll(/(First Traitor Removed|No Loyalists)\s+(\d+) \(/g)].map(m => Number(m[2]))
+    expect(wins.reduce((sum, n) => sum + n, 0)).toBe(40)
+  })
+})
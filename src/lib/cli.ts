@@ -0,0 +1,153 @@
+import type { CliOptions, EndCondition, GameConfig, GameOutcome, ResultFormat, RunningStatistics, SimulationType } from './interfaces';
+import { RULE_SETS } from './rule-sets';
+import { END_CONDITIONS } from './end-conditions';
+import { OUTCOMES } from './factions';
+import { getStrategy } from './strategies';
+import { RESULT_FORMATS, resultFormatFor } from './result-formats';
+import { summariseStatistics } from './statistics';
+
+export const CLI_USAGE = `Usage: npm run --silent cli -- [options]
+
+Runs simulations without the browser and prints their statistics.
+
+Options:
+  --loyalists <n>         Loyalists in each game (default 16)
+  --traitors <n>          Traitors in each game (default 4)
+  --iterations <n>        Games to play (default 1000)
+  --simulation-type <id>  ${Object.keys(RULE_SETS).join(', ')} (default random)
+  --end-condition <id>    ${Object.keys(END_CONDITIONS).join(', ')}
+                          (default first_traitor_removed)
+  --strategy <id>         Loyalist strategy (default random)
+  --traitor-policy <id>   Traitor strategy (default random)
+  --seed <n>              Seed for reproducible runs (default: a fresh one)
+  --max-rounds <n>        Round cap, or 0 for none (default 100)
+  --output <file>         Also write every game to <file>, or to stdout for -
+  --format <id>           ${Object.keys(RESULT_FORMATS).join(', ')} (default: from the output's extension, else json)
+  -h, --help              Show this message
+`;
+
+const CLI_FLAGS = ['loyalists', 'traitors', 'iterations', 'simulation-type', 'end-condition', 'strategy',
+  'traitor-policy', 'seed', 'max-rounds', 'output', 'format'];
+
+/** Reads the command line, filling in defaults; throws on anything it does not understand. */
+export function parseCliArgs(args: readonly string[]): CliOptions {
+  const values = new Map<string, string>();
+  let help = false;
+  for (let i = 0; i < args.length; i++) {
+    if (args[i] === '--help' || args[i] === '-h') {
+      help = true;
+      continue;
+    }
+    // --flag value or --flag=value
+    const match = /^--([a-z-]+)(?:=(.*))?$/.exec(args[i]);
+    if (!match || !CLI_FLAGS.includes(match[1])) {
+      throw new Error(`Unknown option: ${args[i]}`);
+    }
+    const value = match[2] ?? args[++i];
+    if (value === undefined) {
+      throw new Error(`--${match[1]} needs a value`);
+    }
+    values.set(match[1], value);
+  }
+
+  const integer = (flag: string, fallback: number, min: number): number => {
+    const text = values.get(flag);
+    if (text === undefined) {
+      return fallback;
+    }
+    const value = Number(text);
+    if (!Number.isInteger(value) || value < min) {
+      throw new Error(`--${flag} must be a whole number of at least ${min}, not "${text}"`);
+    }
+    return value;
+  };
+  const choice = <T extends string>(flag: string, fallback: T, choices: Record<T, unknown>): T => {
+    const value = values.get(flag) ?? fallback;
+    if (!Object.keys(choices).includes(value)) {
+      throw new Error(`--${flag} must be one of ${Object.keys(choices).join(', ')}, not "${value}"`);
+    }
+    return value as T;
+  };
+
+  const gameType = values.get('strategy') ?? 'random';
+  const traitorPolicy = values.get('traitor-policy') ?? 'random';
+  getStrategy('loyalist', gameType);
+  getStrategy('traitor', traitorPolicy);
+
+  const output = values.get('output') ?? null;
+  const maxRounds = integer('max-rounds', 100, 0);
+  const seed = values.has('seed') ? integer('seed', 0, 0) : null;
+  if (seed !== null && seed > 0xffffffff) {
+    throw new Error('--seed must fit in 32 bits');
+  }
+
+  return {
+    loyalists: integer('loyalists', 16, 1),
+    traitors: integer('traitors', 4, 1),
+    iterations: integer('iterations', 1000, 1),
+    simulationType: choice<SimulationType>('simulation-type', 'random', RULE_SETS),
+    endCondition: choice<EndCondition>('end-condition', 'first_traitor_removed', END_CONDITIONS),
+    gameType,
+    traitorPolicy,
+    seed,
+    maxRounds: maxRounds > 0 ? maxRounds : null,
+    output,
+    format: choice<ResultFormat>('format', (output === null ? null : resultFormatFor(output)) ?? 'json', RESULT_FORMATS),
+    help
+  };
+}
+
+/** The game rules for a command-line run, with the web form's defaults for everything it has no option for. */
+export function cliConfig(options: CliOptions): GameConfig {
+  return {
+    loyalistCount: options.loyalists,
+    traitorCount: options.traitors,
+    simulationType: options.simulationType,
+    endCondition: options.endCondition,
+    endThresholds: { remainingActors: 4, traitorsRemoved: 2, rounds: 10 },
+    gameType: options.gameType,
+    traitorPolicy: options.traitorPolicy,
+    influenceUpdate: { banishedLoyalistPenalty: 0, banishedTraitorReward: 0, decayRate: 0 },
+    tieBreak: { policy: 'revote', maxRevotes: 10, chairId: 0 },
+    phaseTwo: { removalsPerRound: 1, removalProbability: 1, skipRounds: [], targeting: null },
+    recruitment: { triggers: [], traitorThreshold: 2 },
+    roles: { seer: 0, protector: 0 },
+    factions: { neutral: 0, jester: 0 },
+    maxRounds: options.maxRounds,
+    reveal: { policy: 'immediate', probability: 0.5 }
+  };
+}
+
+/** The run's settings, calculateStatistics' summary and how often each outcome came up, as printed text. */
+export function formatSummary(options: CliOptions, seed: number, statistics: RunningStatistics): string {
+  const stats = summariseStatistics(statistics);
+  const rows: [string, string][] = [
+    ['Mean', stats.mean.toFixed(2)],
+    ['Median', stats.median.toFixed(2)],
+    ['Mode', String(stats.mode)],
+    ['Min', String(stats.min)],
+    ['Max', String(stats.max)],
+    ['Std Dev', stats.stdDev.toFixed(2)],
+    ['Timeouts', String(stats.timeouts)]
+  ];
+  const outcomes = (Object.entries(statistics.outcomes) as [GameOutcome, number][])
+    .sort(([, a], [, b]) => b - a)
+    .map(([outcome, games]): [string, string] =>
+      [OUTCOMES[outcome].label, `${games} (${(games / statistics.games * 100).toFixed(1)}%)`]);
+  const table = (lines: [string, string][]) => {
+    const width = Math.max(...lines.map(([label]) => label.length));
+    return lines.map(([label, value]) => `  ${label.padEnd(width)}  ${value}`);
+  };
+
+  return [
+    `${statistics.games} games of ${options.loyalists} loyalists and ${options.traitors} traitors, ` +
+      `${RULE_SETS[options.simulationType].label}, ${END_CONDITIONS[options.endCondition].label}, seed ${seed}`,
+    '',
+    'Rounds:',
+    ...table(rows),
+    '',
+    'Outcomes:',
+    ...table(outcomes),
+    ''
+  ].join('\n');
+}
@@ -0,0 +1,89 @@
+import { describe, it, expect } from 'vitest'
+import { END_CONDITIONS, actorsRemain, firstOf, noLoyalists, noTraitors, roundsPlayed, traitorParity, traitorsRemoved } from './end-conditions'
+import type { EndState, EndThresholds } from './interfaces'
+
+function makeState(overrides: Partial<EndState>): EndState {
+  return {
+    activeLoyalists: 5,
+    activeTraitors: 2,
+    activeActors: 7,
+    traitorsRemoved: 0,
+    completedRounds: 0,
+    ...overrides
+  }
+}
+
+const thresholds: EndThresholds = { remainingActors: 3, traitorsRemoved: 2, rounds: 4 }
+
+describe('end predicates', () => {
+  it('should end when a side is eliminated', () => {
+    expect(noLoyalists('no_loyalists')(makeState({ activeLoyalists: 0 }))).toBe('no_loyalists')
+    expect(noLoyalists('no_loyalists')(makeState({}))).toBeNull()
+    expect(noTraitors('all_loyalists')(makeState({ activeTraitors: 0 }))).toBe('all_loyalists')
+    expect(noTraitors('all_loyalists')(makeState({}))).toBeNull()
+  })
+
+  it('should end once enough traitors have been removed', () => {
+    expect(traitorsRemoved(2, 'traitors_removed')(makeState({ traitorsRemoved: 1 }))).toBeNull()
+    expect(traitorsRemoved(2, 'traitors_removed')(makeState({ traitorsRemoved: 2 }))).toBe('traitors_removed')
+  })
+
+  it('should end at traitor parity', () => {
+    expect(traitorParity('traitor_parity')(makeState({ activeLoyalists: 3, activeTraitors: 2 }))).toBeNull()
+    expect(traitorParity('traitor_parity')(makeState({ activeLoyalists: 2, activeTraitors: 2 }))).toBe('traitor_parity')
+  })
+
+  it('should name the final circle by whether a traitor is in it', () => {
+    const predicate = actorsRemain(3, 'final_circle_traitors', 'final_circle_loyalists')
+
+    expect(predicate(makeState({ activeActors: 4 }))).toBeNull()
+    expect(predicate(makeState({ activeActors: 3, activeTraitors: 1 }))).toBe('final_circle_traitors')
+    expect(predicate(makeState({ activeActors: 3, activeTraitors: 0 }))).toBe('final_circle_loyalists')
+  })
+
+  it('should end after the given number of full rounds', () => {
+    expect(roundsPlayed(4, 'traitors_survived')(makeState({ completedRounds: 3 }))).toBeNull()
+    expect(roundsPlayed(4, 'traitors_survived')(makeState({ completedRounds: 4 }))).toBe('traitors_survived')
+  })
+
+  it('should let the first predicate to end the game decide the outcome', () => {
+    const predicate = firstOf(noTraitors('all_loyalists'), traitorParity('traitor_parity'))
+
+    // No traitors also satisfies parity when no loyalists remain either
+    expect(predicate(makeState({ activeLoyalists: 0, activeTraitors: 0 }))).toBe('all_loyalists')
+    expect(predicate(makeState({ activeLoyalists: 1, activeTraitors: 1 }))).toBe('traitor_parity')
+    expect(predicate(makeState({}))).toBeNull()
+  })
+})
+
+describe('END_CONDITIONS', () => {
+  it('should only produce the outcomes each condition declares', () => {
+    const states = [
+      makeState({}),
+      makeState({ activeLoyalists: 0 }),
+      makeState({ activeTraitors: 0, traitorsRemoved: 2 }),
+      makeState({ activeLoyalists: 2, activeTraitors: 2, activeActors: 4 }),
+      makeState({ activeActors: 3, activeLoyalists: 2, activeTraitors: 1, traitorsRemoved: 1 }),
+      makeState({ completedRounds: 4 })
+    ]
+
+    for (const condition of Object.values(END_CONDITIONS)) {
+      const predicate = condition.create(thresholds)
+      for (const state of states) {
+        const outcome = predicate(state)
+        if (outcome !== null) {
+          expect(condition.outcomes).toContain(outcome)
+        }
+      }
+    }
+  })
+
+  it('should end every condition once a side is eliminated', () => {
+    for (const condition of Object.values(END_CONDITIONS)) {
+      const predicate = condition.create(thresholds)
+
+      expect(predicate(makeState({ activeTraitors: 0 }))).not.toBeNull()
+      expect(predicate(makeState({ activeLoyalists: 0 }))).not.toBeNull()
+    }
+  })
+})
@@ -0,0 +1,109 @@
+import type { EndCondition, EndConditionDefinition, EndPredicate, GameOutcome } from './interfaces';
+
+/** Ends with `outcome` once no loyalists remain. */
+export function noLoyalists(outcome: GameOutcome): EndPredicate {
+  return state => (state.activeLoyalists === 0 ? outcome : null);
+}
+
+/** Ends with `outcome` once no traitors remain. */
+export function noTraitors(outcome: GameOutcome): EndPredicate {
+  return state => (state.activeTraitors === 0 ? outcome : null);
+}
+
+/** Ends with `outcome` once at least `count` traitors have been removed. */
+export function traitorsRemoved(count: number, outcome: GameOutcome): EndPredicate {
+  return state => (state.traitorsRemoved >= count ? outcome : null);
+}
+
+/** Ends with `outcome` once traitors are at least as many as loyalists. */
+export function traitorParity(outcome: GameOutcome): EndPredicate {
+  return state => (state.activeTraitors >= state.activeLoyalists ? outcome : null);
+}
+
+/**
+ * Ends once `count` actors or fewer remain, with `withTraitors` if a traitor
+ * made it into the final circle and `withoutTraitors` otherwise.
+ */
+export function actorsRemain(count: number, withTraitors: GameOutcome, withoutTraitors: GameOutcome): EndPredicate {
+  return state => {
+    if (state.activeActors > count) {
+      return null;
+    }
+    return state.activeTraitors > 0 ? withTraitors : withoutTraitors;
+  };
+}
+
+/** Ends with `outcome` once `rounds` full rounds have been played. */
+export function roundsPlayed(rounds: number, outcome: GameOutcome): EndPredicate {
+  return state => (state.completedRounds >= rounds ? outcome : null);
+}
+
+/** Combines predicates; the first one to end the game decides the outcome. */
+export function firstOf(...predicates: EndPredicate[]): EndPredicate {
+  return state => {
+    for (const predicate of predicates) {
+      const outcome = predicate(state);
+      if (outcome !== null) {
+        return outcome;
+      }
+    }
+    return null;
+  };
+}
+
+export const END_CONDITIONS: Record<EndCondition, EndConditionDefinition> = {
+  first_traitor_removed: {
+    id: 'first_traitor_removed',
+    label: 'First Traitor Removed',
+    description: 'The game ends when either a traitor is removed (loyalists win) or no loyalists remain (traitors win)',
+    outcomes: ['traitor_removed', 'no_loyalists'],
+    create: () => firstOf(traitorsRemoved(1, 'traitor_removed'), noTraitors('traitor_removed'), noLoyalists('no_loyalists'))
+  },
+  all_one_type: {
+    id: 'all_one_type',
+    label: 'All One Type Remaining',
+    description: 'The game continues until the remaining actors are all loyalists or all traitors',
+    outcomes: ['all_loyalists', 'all_traitors'],
+    create: () => firstOf(noTraitors('all_loyalists'), noLoyalists('all_traitors'))
+  },
+  traitor_parity: {
+    id: 'traitor_parity',
+    label: 'Traitor Parity',
+    description: 'Traitors win as soon as they are at least as many as the loyalists; loyalists win by removing every traitor',
+    outcomes: ['all_loyalists', 'traitor_parity'],
+    create: () => firstOf(noTraitors('all_loyalists'), traitorParity('traitor_parity'))
+  },
+  final_circle: {
+    id: 'final_circle',
+    label: 'Final Circle',
+    description: 'The game ends when few enough actors remain; traitors win if any of them made the final circle',
+    outcomes: ['all_loyalists', 'all_traitors', 'final_circle_traitors', 'final_circle_loyalists'],
+    create: ({ remainingActors }) => firstOf(
+      noTraitors('all_loyalists'),
+      noLoyalists('all_traitors'),
+      actorsRemain(remainingActors, 'final_circle_traitors', 'final_circle_loyalists')
+    )
+  },
+  traitors_removed: {
+    id: 'traitors_removed',
+    label: 'Traitors Removed',
+    description: 'Loyalists win once a set number of traitors, or every traitor, have been removed; traitors win if no loyalists remain first',
+    outcomes: ['traitors_removed', 'no_loyalists'],
+    create: ({ traitorsRemoved: count }) => firstOf(
+      traitorsRemoved(count, 'traitors_removed'),
+      noTraitors('traitors_removed'),
+      noLoyalists('no_loyalists')
+    )
+  },
+  survive_rounds: {
+    id: 'survive_rounds',
+    label: 'Survive Rounds',
+    description: 'Traitors win if any of them survive a set number of rounds; loyalists win by removing every traitor first',
+    outcomes: ['all_loyalists', 'all_traitors', 'traitors_survived'],
+    create: ({ rounds }) => firstOf(
+      noTraitors('all_loyalists'),
+      noLoyalists('all_traitors'),
+      roundsPlayed(rounds, 'traitors_survived')
+    )
+  }
+};
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import { FACTIONS, OUTCOMES } from './factions'
+import type { Actor } from './interfaces'
+
+const jester: Actor = { id: 7, type: 'jester', status: 'removed', role: null }
+const neutral: Actor = { id: 8, type: 'neutral', status: 'active', role: null }
+
+describe('factions', () => {
+  it('should leave loyalists and traitors to the end condition', () => {
+    expect(FACTIONS.loyalist.hasWon).toBeNull()
+    expect(FACTIONS.traitor.hasWon).toBeNull()
+  })
+
+  it('should give every third faction a strategy', () => {
+    for (const faction of [FACTIONS.neutral, FACTIONS.jester]) {
+      expect(faction.strategy).not.toBeNull()
+    }
+  })
+
+  it('should end the game with a jester win but leave a neutral win beside the outcome', () => {
+    expect(OUTCOMES[FACTIONS.jester.outcome!].winner).toBe('jester')
+    expect(FACTIONS.neutral.outcome).toBeNull()
+  })
+
+  it('should have the jester win only when banished in phase one', () => {
+    expect(FACTIONS.jester.hasWon!(jester, { phaseOneRemoved: [7], contestOver: false })).toBe(true)
+    expect(FACTIONS.jester.hasWon!(jester, { phaseOneRemoved: [3], contestOver: true })).toBe(false)
+  })
+
+  it('should have the neutral win only by surviving the contest', () => {
+    expect(FACTIONS.neutral.hasWon!(neutral, { phaseOneRemoved: [], contestOver: false })).toBe(false)
+    expect(FACTIONS.neutral.hasWon!(neutral, { phaseOneRemoved: [], contestOver: true })).toBe(true)
+    expect(FACTIONS.neutral.hasWon!({ ...neutral, status: 'removed' }, { phaseOneRemoved: [], contestOver: true })).toBe(false)
+  })
+})
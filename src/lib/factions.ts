@@ -0,0 +1,58 @@
+import type { ActorType, FactionDefinition, GameOutcome, OutcomeDefinition } from './interfaces';
+
+export const FACTIONS: Record<ActorType, FactionDefinition> = {
+  loyalist: {
+    id: 'loyalist',
+    label: 'Loyalist',
+    description: 'Wins by removing the traitors',
+    color: 'oklch(0.65 0.15 240)',
+    hoverColor: 'oklch(0.70 0.17 240)',
+    strategy: null,
+    hasWon: null,
+    outcome: null
+  },
+  traitor: {
+    id: 'traitor',
+    label: 'Traitor',
+    description: 'Wins by outlasting the loyalists',
+    color: 'oklch(0.60 0.20 25)',
+    hoverColor: 'oklch(0.65 0.22 25)',
+    strategy: null,
+    hasWon: null,
+    outcome: null
+  },
+  jester: {
+    id: 'jester',
+    label: 'Jester',
+    description: 'Wins outright, ending the game, if banished in phase one',
+    color: 'oklch(0.70 0.17 320)',
+    hoverColor: 'oklch(0.75 0.19 320)',
+    strategy: 'random',
+    hasWon: (actor, check) => check.phaseOneRemoved.includes(actor.id),
+    outcome: 'jester_banished'
+  },
+  neutral: {
+    id: 'neutral',
+    label: 'Neutral',
+    description: 'Wins alongside the winning side if still active when the loyalist-traitor contest is decided',
+    color: 'oklch(0.70 0.14 150)',
+    hoverColor: 'oklch(0.75 0.16 150)',
+    strategy: 'random',
+    hasWon: (actor, check) => check.contestOver && actor.status === 'active',
+    outcome: null
+  }
+};
+
+export const OUTCOMES: Record<GameOutcome, OutcomeDefinition> = {
+  traitor_removed: { id: 'traitor_removed', label: 'First Traitor Removed', winner: 'loyalist' },
+  all_loyalists: { id: 'all_loyalists', label: 'All Loyalists', winner: 'loyalist' },
+  no_loyalists: { id: 'no_loyalists', label: 'No Loyalists', winner: 'traitor' },
+  all_traitors: { id: 'all_traitors', label: 'All Traitors', winner: 'traitor' },
+  jester_banished: { id: 'jester_banished', label: 'Jester Banished', winner: 'jester' },
+  traitor_parity: { id: 'traitor_parity', label: 'Traitor Parity', winner: 'traitor' },
+  final_circle_loyalists: { id: 'final_circle_loyalists', label: 'Loyal Final Circle', winner: 'loyalist' },
+  final_circle_traitors: { id: 'final_circle_traitors', label: 'Traitor in Final Circle', winner: 'traitor' },
+  traitors_removed: { id: 'traitors_removed', label: 'Traitors Removed', winner: 'loyalist' },
+  traitors_survived: { id: 'traitors_survived', label: 'Traitors Survived', winner: 'traitor' },
+  timeout: { id: 'timeout', label: 'Timeout', winner: null }
+};
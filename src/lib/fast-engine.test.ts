@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest'
+import { FastVotingGame, fastEngineLimitation, runFastSimulation } from './fast-engine'
+import { calculateSimulationStatistics, calculateStatistics, runSimulation } from './voting-game'
+import { SeededRandom } from './random'
+import { makeGameConfig } from '../test/game-config'
+import type { GameConfig, TiePolicy } from './interfaces'
+
+const configs: Record<string, GameConfig> = {
+  default: makeGameConfig({}),
+  'all one type': makeGameConfig({ loyalistCount: 10, traitorCount: 3, endCondition: 'all_one_type' }),
+  'fixating loyalists and a traitor bloc': makeGameConfig({ loyalistCount: 9, traitorCount: 3, endCondition: 'all_one_type', gameType: 'fixate', traitorPolicy: 'bloc' }),
+  'influence': makeGameConfig({
+    loyalistCount: 8,
+    traitorCount: 2,
+    simulationType: 'influence',
+    endCondition: 'traitor_parity',
+    influenceUpdate: { banishedLoyalistPenalty: 15, banishedTraitorReward: 10, decayRate: 0.2 }
+  }),
+  'influence with accuser targeting': makeGameConfig({
+    loyalistCount: 7,
+    traitorCount: 2,
+    simulationType: 'influence',
+    endCondition: 'all_one_type',
+    phaseTwo: { removalsPerRound: 1, removalProbability: 1, skipRounds: [], targeting: 'accuser' }
+  }),
+  'least-suspected targeting, skipped and uncertain nights': makeGameConfig({
+    loyalistCount: 10,
+    traitorCount: 3,
+    endCondition: 'final_circle',
+    phaseTwo: { removalsPerRound: 2, removalProbability: 0.6, skipRounds: [1, 3], targeting: 'least_suspected' }
+  }),
+  'recruitment': makeGameConfig({
+    loyalistCount: 10,
+    traitorCount: 2,
+    endCondition: 'all_one_type',
+    recruitment: { triggers: ['traitor_banished', 'below_threshold'], traitorThreshold: 2 }
+  }),
+  'probabilistic reveals and a round cap': makeGameConfig({
+    loyalistCount: 12,
+    traitorCount: 3,
+    endCondition: 'all_one_type',
+    reveal: { policy: 'probabilistic', probability: 0.4 },
+    phaseTwo: { removalsPerRound: 0, removalProbability: 1, skipRounds: [], targeting: null },
+    maxRounds: 4
+  }),
+  'survive rounds': makeGameConfig({ loyalistCount: 8, traitorCount: 2, endCondition: 'survive_rounds', endThresholds: { remainingActors: 3, traitorsRemoved: 1, rounds: 3 } })
+}
+for (const policy of ['random', 'no_banishment', 'banish_all', 'lowest_id', 'chair'] as TiePolicy[]) {
+  configs[`the ${policy} tie policy`] = makeGameConfig({
+    loyalistCount: 7,
+    traitorCount: 3,
+    endCondition: 'all_one_type',
+    traitorPolicy: 'bloc',
+    tieBreak: { policy, maxRevotes: 2, chairId: 8 },
+    maxRounds: 20
+  })
+}
+
+describe('FastVotingGame', () => {
+  for (const [name, config] of Object.entries(configs)) {
+    it(`should play the same games as VotingGame with ${name}`, () => {
+      const expected = runSimulation(150, config, 11)
+      const actual = runFastSimulation(150, config, 11, 0)
+
+      expect(actual).toEqual(expected.map(r => ({ rounds: r.totalRounds, outcome: r.outcome })))
+    })
+  }
+
+  it('should number games like runSimulation when a run is split into batches', () => {
+    const config = configs['all one type']
+    const whole = runFastSimulation(40, config, 5, 0)
+
+    expect([...runFastSimulation(15, config, 5, 0), ...runFastSimulation(25, config, 5, 15)]).toEqual(whole)
+  })
+
+  it('should end a game that is decided before it starts at round zero', () => {
+    const game = new FastVotingGame(makeGameConfig({ traitorCount: 0, endCondition: 'all_one_type' }))
+
+    expect(game.play(new SeededRandom(1))).toEqual({ rounds: 0, outcome: 'all_loyalists' })
+  })
+
+  it('should reset its state between games', () => {
+    const config = configs['fixating loyalists and a traitor bloc']
+    const game = new FastVotingGame(config)
+    const first = game.play(new SeededRandom(3))
+    game.play(new SeededRandom(4))
+
+    expect(game.play(new SeededRandom(3))).toEqual(first)
+  })
+
+  it('should give the same statistics as VotingGame', () => {
+    const config = configs.recruitment
+
+    expect(calculateSimulationStatistics(runFastSimulation(300, config, 2, 0)))
+      .toEqual(calculateStatistics(runSimulation(300, config, 2)))
+  })
+
+  it('should check the configuration as VotingGame does', () => {
+    expect(() => new FastVotingGame(makeGameConfig({ maxRounds: 0 }))).toThrow('round cap')
+    expect(() => new FastVotingGame(makeGameConfig({ reveal: { policy: 'probabilistic', probability: 2 } }))).toThrow('between 0 and 1')
+  })
+})
+
+describe('fastEngineLimitation', () => {
+  it('should accept what the fast engine plays and name what it does not', () => {
+    for (const config of Object.values(configs)) {
+      expect(fastEngineLimitation(config)).toBeNull()
+    }
+
+    const unsupported: [Partial<GameConfig>, string][] = [
+      [{ gameType: 'bayesian' }, 'bayesian'],
+      [{ traitorPolicy: 'blend_in' }, 'blend_in'],
+      [{ roles: { seer: 1, protector: 0 } }, 'roles'],
+      [{ factions: { neutral: 0, jester: 1 } }, 'third factions']
+    ]
+    for (const [overrides, reason] of unsupported) {
+      const config = makeGameConfig(overrides)
+      expect(fastEngineLimitation(config)).toContain(reason)
+      expect(() => new FastVotingGame(config)).toThrow(reason)
+    }
+  })
+})
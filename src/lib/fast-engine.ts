@@ -0,0 +1,664 @@
+import type {
+  EndPredicate,
+  EndState,
+  GameConfig,
+  GameOutcome,
+  GameType,
+  InfluenceUpdateConfig,
+  PhaseTwoConfig,
+  PhaseTwoTargeting,
+  RandomSource,
+  RecruitmentConfig,
+  SimulationResult,
+  TieBreakConfig,
+  TiePolicy,
+  TraitorPolicy
+} from './interfaces';
+import { END_CONDITIONS } from './end-conditions';
+import { InfluenceMatrix } from './influence';
+import { PHASE_TWO_TARGETING } from './phase-two';
+import { SeededRandom, deriveSeed } from './random';
+import { RULE_SETS } from './rule-sets';
+import { VotingGame } from './voting-game';
+
+/** Strategies the fast engine plays; the others read the game history, which it does not keep. */
+const FAST_LOYALIST_STRATEGIES: readonly GameType[] = ['random', 'fixate', 'lowest_influence'];
+const FAST_TRAITOR_POLICIES: readonly TraitorPolicy[] = ['random', 'bloc', 'lowest_influence'];
+
+// Actor types as stored in FastVotingGame.types
+const LOYALIST = 0;
+const TRAITOR = 1;
+
+/**
+ * Why FastVotingGame cannot play games of `config`, or null if it can. The
+ * fast engine leaves out roles, third factions and the strategies that read
+ * the game history.
+ */
+export function fastEngineLimitation(config: GameConfig): string | null {
+  const ruleSet = RULE_SETS[config.simulationType];
+  const loyalistStrategy = ruleSet.loyalistStrategy ?? config.gameType;
+  if (!FAST_LOYALIST_STRATEGIES.includes(loyalistStrategy)) {
+    return `The fast engine does not play the "${loyalistStrategy}" loyalist strategy`;
+  }
+  const traitorPolicy = ruleSet.traitorStrategy ?? config.traitorPolicy;
+  if (!FAST_TRAITOR_POLICIES.includes(traitorPolicy)) {
+    return `The fast engine does not play the "${traitorPolicy}" traitor strategy`;
+  }
+  if (ruleSet.revotesFollowStrategies && (loyalistStrategy !== 'lowest_influence' || traitorPolicy !== 'lowest_influence')) {
+    return 'The fast engine only follows the lowest-influence strategies in tie-break re-votes';
+  }
+  if (Object.values(config.roles).some(count => count > 0)) {
+    return 'The fast engine does not model roles';
+  }
+  if (Object.values(config.factions).some(count => count > 0)) {
+    return 'The fast engine does not model third factions';
+  }
+  return null;
+}
+
+// Plain loops rather than subarray() views: in the hot path, their allocation costs more than the work
+
+/** Removes `id` from the first `length` entries of `list`, keeping their order. */
+function removeId(list: Int32Array, length: number, id: number): void {
+  let index = 0;
+  while (list[index] !== id) {
+    index++;
+  }
+  for (; index < length - 1; index++) {
+    list[index] = list[index + 1];
+  }
+}
+
+/** Copies the first `length` entries of `from` into `to` in ascending order (an insertion sort, for short lists). */
+function copySorted(from: Int32Array, to: Int32Array, length: number): void {
+  for (let i = 0; i < length; i++) {
+    const value = from[i];
+    let j = i;
+    while (j > 0 && to[j - 1] > value) {
+      to[j] = to[j - 1];
+      j--;
+    }
+    to[j] = value;
+  }
+}
+
+function includes(list: Int32Array, length: number, id: number): boolean {
+  for (let i = 0; i < length; i++) {
+    if (list[i] === id) {
+      return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * A lean engine for very large runs. It plays exactly the games VotingGame
+ * plays, drawing the same random numbers in the same order, so a seed gives
+ * the same length and outcome in both. State lives in typed arrays that are
+ * reused from game to game, and no history is recorded.
+ */
+export class FastVotingGame {
+  private actorCount: number;
+  private loyalistCount: number;
+  private loyalistStrategy: GameType;
+  private traitorPolicy: TraitorPolicy;
+  private targeting: PhaseTwoTargeting;
+  private usesInfluence: boolean;
+  private revotesFollowStrategies: boolean;
+  private influenceUpdate: InfluenceUpdateConfig;
+  private phaseTwo: PhaseTwoConfig;
+  private tieBreak: TieBreakConfig;
+  private recruitment: RecruitmentConfig;
+  /** Probabilistic reveals draw once per removal; other reveal policies never draw */
+  private revealDraws: boolean;
+  private maxRounds: number | null;
+  private endPredicate: EndPredicate;
+  private endState: EndState = { activeLoyalists: 0, activeTraitors: 0, activeActors: 0, traitorsRemoved: 0, completedRounds: 0 };
+  private random: RandomSource;
+
+  // The game in progress, set up again by play()
+  private types: Uint8Array;
+  private isActive: Uint8Array;
+  /** Active actor IDs in ID order, in the first activeCount entries */
+  private active: Int32Array;
+  private activeCount = 0;
+  /** Active loyalist IDs in ID order, in the first loyalistsLeft entries */
+  private loyalists: Int32Array;
+  private loyalistsLeft = 0;
+  private traitorsLeft = 0;
+  private traitorsRemoved = 0;
+  /** Each fixating voter's suspect, or -1 */
+  private suspects: Int32Array;
+  private blocRound = -1;
+  private blocTarget = -1;
+  /** Influence scores at [fromId * actorCount + toId], as InfluenceMatrix keeps them */
+  private influence: Float64Array;
+
+  // The round in progress
+  private votes: Int32Array;
+  /** Actors with votes in the current vote, in the order they got their first */
+  private voted: Int32Array;
+  private votedCount = 0;
+  private openingVotes: Int32Array;
+  /** Each actor's opening-vote target this round, or -1 */
+  private openingTargets: Int32Array;
+  private ballotVoters: Int32Array;
+  private ballotTargets: Int32Array;
+  private ballotCount = 0;
+  private tied: Int32Array;
+  private tiedCount = 0;
+  /** Scratch list for candidates to draw from */
+  private pool: Int32Array;
+  private banished: Int32Array;
+  private banishedCount = 0;
+
+  constructor(config: GameConfig) {
+    const limitation = fastEngineLimitation(config);
+    if (limitation) {
+      throw new Error(limitation);
+    }
+    // The reference engine checks the rest of the configuration
+    this.random = new SeededRandom(0);
+    new VotingGame(config, this.random);
+
+    const ruleSet = RULE_SETS[config.simulationType];
+    this.loyalistCount = config.loyalistCount;
+    this.actorCount = config.loyalistCount + config.traitorCount;
+    this.loyalistStrategy = ruleSet.loyalistStrategy ?? config.gameType;
+    this.traitorPolicy = ruleSet.traitorStrategy ?? config.traitorPolicy;
+    this.targeting = PHASE_TWO_TARGETING[config.phaseTwo.targeting ?? ruleSet.phaseTwoTargeting].id;
+    this.usesInfluence = ruleSet.usesInfluence;
+    this.revotesFollowStrategies = ruleSet.revotesFollowStrategies;
+    this.influenceUpdate = config.influenceUpdate;
+    this.phaseTwo = config.phaseTwo;
+    this.tieBreak = config.tieBreak;
+    this.recruitment = config.recruitment;
+    this.revealDraws = config.reveal.policy === 'probabilistic';
+    this.maxRounds = config.maxRounds;
+    this.endPredicate = END_CONDITIONS[config.endCondition].create(config.endThresholds);
+
+    const n = this.actorCount;
+    this.types = new Uint8Array(n);
+    this.isActive = new Uint8Array(n);
+    this.active = new Int32Array(n);
+    this.loyalists = new Int32Array(n);
+    this.suspects = new Int32Array(n);
+    this.influence = new Float64Array(this.usesInfluence ? n * n : 0);
+    this.votes = new Int32Array(n);
+    this.voted = new Int32Array(n);
+    this.openingVotes = new Int32Array(n);
+    this.openingTargets = new Int32Array(n);
+    this.ballotVoters = new Int32Array(n);
+    this.ballotTargets = new Int32Array(n);
+    this.tied = new Int32Array(n);
+    this.pool = new Int32Array(n);
+    this.banished = new Int32Array(n);
+  }
+
+  /** Plays one game with `random` and reports how long it lasted and how it ended. */
+  public play(random: RandomSource): SimulationResult {
+    this.random = random;
+    this.setUp();
+
+    let round = 0;
+    let outcome = this.checkEnd(0);
+    while (outcome === null) {
+      round++;
+      this.playPhaseOne(round);
+      // The round is not complete yet, so round-count predicates wait for phase two
+      outcome = this.checkEnd(round - 1);
+      if (outcome !== null) {
+        break;
+      }
+      this.playPhaseTwo(round);
+      outcome = this.checkEnd(round);
+      if (outcome === null && this.maxRounds !== null && round >= this.maxRounds) {
+        outcome = 'timeout';
+      }
+    }
+    return { rounds: round, outcome };
+  }
+
+  private setUp(): void {
+    for (let id = 0; id < this.actorCount; id++) {
+      this.types[id] = id < this.loyalistCount ? LOYALIST : TRAITOR;
+      this.isActive[id] = 1;
+      this.active[id] = id;
+      this.loyalists[id] = id;
+      this.suspects[id] = -1;
+    }
+    this.activeCount = this.actorCount;
+    this.loyalistsLeft = this.loyalistCount;
+    this.traitorsLeft = this.actorCount - this.loyalistCount;
+    this.traitorsRemoved = 0;
+    this.blocRound = -1;
+    this.blocTarget = -1;
+
+    if (this.usesInfluence) {
+      const range = InfluenceMatrix.MAX_INFLUENCE_SCORE - InfluenceMatrix.MIN_INFLUENCE_SCORE + 1;
+      for (let from = 0; from < this.actorCount; from++) {
+        for (let to = 0; to < this.actorCount; to++) {
+          if (from !== to) {
+            this.influence[from * this.actorCount + to] = this.random.nextInt(range) + InfluenceMatrix.MIN_INFLUENCE_SCORE;
+          }
+        }
+      }
+    }
+  }
+
+  private checkEnd(completedRounds: number): GameOutcome | null {
+    this.endState.activeLoyalists = this.loyalistsLeft;
+    this.endState.activeTraitors = this.traitorsLeft;
+    this.endState.activeActors = this.activeCount;
+    this.endState.traitorsRemoved = this.traitorsRemoved;
+    this.endState.completedRounds = completedRounds;
+    return this.endPredicate(this.endState);
+  }
+
+  private removeActor(id: number): void {
+    this.isActive[id] = 0;
+    removeId(this.active, this.activeCount, id);
+    this.activeCount--;
+    if (this.types[id] === LOYALIST) {
+      removeId(this.loyalists, this.loyalistsLeft, id);
+      this.loyalistsLeft--;
+    } else {
+      this.traitorsLeft--;
+      this.traitorsRemoved++;
+    }
+  }
+
+  private randomLoyalist(): number {
+    return this.loyalistsLeft > 0 ? this.loyalists[this.random.nextInt(this.loyalistsLeft)] : -1;
+  }
+
+  /** A random active actor other than the one at `position` in the active list. */
+  private randomOther(position: number): number {
+    const index = this.random.nextInt(this.activeCount - 1);
+    return this.active[index < position ? index : index + 1];
+  }
+
+  /** Of the first `count` entries of `candidates`, the first one `voter` has the lowest influence over. */
+  private lowestInfluence(voter: number, candidates: Int32Array, count: number): number {
+    let lowest = Infinity;
+    let targetId = -1;
+    for (let i = 0; i < count; i++) {
+      const candidate = candidates[i];
+      if (candidate !== voter && this.influence[voter * this.actorCount + candidate] < lowest) {
+        lowest = this.influence[voter * this.actorCount + candidate];
+        targetId = candidate;
+      }
+    }
+    return targetId;
+  }
+
+  private loyalistBallot(voter: number, position: number): number {
+    if (this.activeCount < 2) {
+      return -1;
+    }
+    switch (this.loyalistStrategy) {
+      case 'random':
+        return this.randomOther(position);
+      case 'fixate': {
+        const suspect = this.suspects[voter];
+        if (suspect >= 0 && this.isActive[suspect]) {
+          return suspect;
+        }
+        this.suspects[voter] = this.randomOther(position);
+        return this.suspects[voter];
+      }
+      case 'lowest_influence':
+        return this.lowestInfluence(voter, this.active, this.activeCount);
+      default:
+        throw new Error(`The fast engine does not play the "${this.loyalistStrategy}" loyalist strategy`);
+    }
+  }
+
+  private traitorBallot(voter: number, round: number): number {
+    switch (this.traitorPolicy) {
+      case 'random':
+        return this.randomLoyalist();
+      case 'bloc':
+        if (this.blocRound !== round) {
+          this.blocRound = round;
+          this.blocTarget = this.randomLoyalist();
+        }
+        return this.blocTarget;
+      case 'lowest_influence':
+        return this.lowestInfluence(voter, this.loyalists, this.loyalistsLeft);
+      default:
+        throw new Error(`The fast engine does not play the "${this.traitorPolicy}" traitor strategy`);
+    }
+  }
+
+  private clearVotes(): void {
+    for (let i = 0; i < this.votedCount; i++) {
+      this.votes[this.voted[i]] = 0;
+    }
+    this.votedCount = 0;
+  }
+
+  private tally(targetId: number): void {
+    if (this.votes[targetId] === 0) {
+      this.voted[this.votedCount++] = targetId;
+    }
+    this.votes[targetId]++;
+  }
+
+  /** Fills `tied` with the most-voted actors, in the order they got their first vote. */
+  private findMostVoted(): void {
+    let maxVotes = 0;
+    this.tiedCount = 0;
+    for (let i = 0; i < this.votedCount; i++) {
+      const id = this.voted[i];
+      if (this.votes[id] > maxVotes) {
+        maxVotes = this.votes[id];
+        this.tiedCount = 0;
+        this.tied[this.tiedCount++] = id;
+      } else if (this.votes[id] === maxVotes) {
+        this.tied[this.tiedCount++] = id;
+      }
+    }
+  }
+
+  private castOpeningVote(round: number): void {
+    this.clearVotes();
+    this.ballotCount = 0;
+    for (let position = 0; position < this.activeCount; position++) {
+      const voter = this.active[position];
+      const targetId = this.types[voter] === LOYALIST ? this.loyalistBallot(voter, position) : this.traitorBallot(voter, round);
+      this.openingTargets[voter] = targetId;
+      if (targetId >= 0) {
+        this.tally(targetId);
+        this.ballotVoters[this.ballotCount] = voter;
+        this.ballotTargets[this.ballotCount] = targetId;
+        this.ballotCount++;
+      }
+    }
+    this.openingVotes.set(this.votes);
+  }
+
+  /**
+   * Everyone votes among the tied actors: at random, or by lowest influence
+   * when the rule set's re-votes follow the strategies.
+   */
+  private castRevote(): void {
+    const candidates = this.tiedCount;
+    copySorted(this.tied, this.pool, candidates);
+    this.clearVotes();
+    if (!this.revotesFollowStrategies) {
+      for (let position = 0; position < this.activeCount; position++) {
+        this.tally(this.pool[this.random.nextInt(candidates)]);
+      }
+      return;
+    }
+
+    // The tied loyalists in ID order, for the traitors, reusing the tied list
+    let loyalists = 0;
+    for (let i = 0; i < candidates; i++) {
+      if (this.types[this.pool[i]] === LOYALIST) {
+        this.tied[loyalists++] = this.pool[i];
+      }
+    }
+    for (let position = 0; position < this.activeCount; position++) {
+      const voter = this.active[position];
+      const targetId = this.types[voter] === LOYALIST
+        ? this.lowestInfluence(voter, this.pool, candidates)
+        : this.lowestInfluence(voter, this.tied, loyalists);
+      if (targetId >= 0) {
+        this.tally(targetId);
+      }
+    }
+  }
+
+  private banish(id: number): void {
+    this.removeActor(id);
+    this.banished[this.banishedCount++] = id;
+  }
+
+  private playPhaseOne(round: number): void {
+    this.castOpeningVote(round);
+    this.findMostVoted();
+
+    if (this.tieBreak.policy === 'revote') {
+      for (let revotes = 0; this.tiedCount > 1 && revotes < this.tieBreak.maxRevotes; revotes++) {
+        this.castRevote();
+        this.findMostVoted();
+      }
+    }
+
+    // If nobody voted, every active actor counts as tied
+    const nobodyVoted = this.votedCount === 0;
+    if (nobodyVoted) {
+      for (let i = 0; i < this.activeCount; i++) {
+        this.tied[i] = this.active[i];
+      }
+      this.tiedCount = this.activeCount;
+    }
+
+    this.banishedCount = 0;
+    // A re-vote that never settles falls back to a random draw
+    const policy: TiePolicy = this.tieBreak.policy === 'revote' ? 'random' : this.tieBreak.policy;
+    if (this.tiedCount === 1) {
+      // VotingGame draws even for a single leader
+      this.banish(this.tied[this.random.nextInt(1)]);
+    } else {
+      switch (policy) {
+        case 'random':
+          this.banish(this.tied[this.random.nextInt(this.tiedCount)]);
+          break;
+        case 'no_banishment':
+          break;
+        case 'banish_all':
+          if (!nobodyVoted) {
+            for (let i = 0; i < this.tiedCount; i++) {
+              this.banish(this.tied[i]);
+            }
+          }
+          break;
+        case 'lowest_id':
+        case 'chair':
+          this.banish(this.castDecidingVote(policy));
+          break;
+        default: {
+          const unhandled: never = policy;
+          throw new Error(`Unsupported tie policy: ${unhandled}`);
+        }
+      }
+    }
+
+    if (this.usesInfluence) {
+      this.evolveInfluence();
+    }
+    this.drawReveals(this.banishedCount);
+  }
+
+  /** Mirrors VotingGame's deciding vote: a traitor decider spares fellow traitors whenever a loyalist is tied. */
+  private castDecidingVote(policy: 'lowest_id' | 'chair'): number {
+    const chairId = this.tieBreak.chairId;
+    const decider = policy === 'chair' && this.isActive[chairId] ? chairId : this.active[0];
+
+    // The tied actors other than the decider, in ID order, reusing the tied list
+    copySorted(this.tied, this.pool, this.tiedCount);
+    let candidates = 0;
+    let loyalists = 0;
+    for (let i = 0; i < this.tiedCount; i++) {
+      const id = this.pool[i];
+      if (id !== decider) {
+        this.tied[candidates++] = id;
+        loyalists += this.types[id] === LOYALIST ? 1 : 0;
+      }
+    }
+    if (this.types[decider] === TRAITOR && loyalists > 0) {
+      const tiedOthers = candidates;
+      candidates = 0;
+      for (let i = 0; i < tiedOthers; i++) {
+        if (this.types[this.tied[i]] === LOYALIST) {
+          this.tied[candidates++] = this.tied[i];
+        }
+      }
+    }
+    return this.tied[this.random.nextInt(candidates)];
+  }
+
+  /** Mirrors InfluenceMatrix.evolve for this round's opening ballots and banishments. */
+  private evolveInfluence(): void {
+    const { banishedLoyalistPenalty, banishedTraitorReward, decayRate } = this.influenceUpdate;
+    const { MAX_INFLUENCE_SCORE, MIN_INFLUENCE_SCORE } = InfluenceMatrix;
+    const n = this.actorCount;
+    const middle = (MAX_INFLUENCE_SCORE + MIN_INFLUENCE_SCORE) / 2;
+    for (let from = 0; from < n; from++) {
+      for (let to = 0; to < n; to++) {
+        if (from !== to) {
+          const score = this.influence[from * n + to];
+          this.influence[from * n + to] = score + (middle - score) * decayRate;
+        }
+      }
+    }
+
+    for (let b = 0; b < this.ballotCount; b++) {
+      const targetId = this.ballotTargets[b];
+      if (!includes(this.banished, this.banishedCount, targetId)) {
+        continue;
+      }
+      const voter = this.ballotVoters[b];
+      const delta = this.types[targetId] === LOYALIST ? -banishedLoyalistPenalty : banishedTraitorReward;
+      for (let from = 0; from < n; from++) {
+        if (from !== voter) {
+          const score = this.influence[from * n + voter] + delta;
+          this.influence[from * n + voter] = Math.min(MAX_INFLUENCE_SCORE, Math.max(MIN_INFLUENCE_SCORE, score));
+        }
+      }
+    }
+  }
+
+  private drawReveals(removals: number): void {
+    if (this.revealDraws) {
+      for (let i = 0; i < removals; i++) {
+        this.random.next();
+      }
+    }
+  }
+
+  private shouldRecruit(traitorBanished: boolean): boolean {
+    const { triggers, traitorThreshold } = this.recruitment;
+    return (triggers.includes('traitor_banished') && traitorBanished) ||
+      (triggers.includes('below_threshold') && this.traitorsLeft < traitorThreshold);
+  }
+
+  private playPhaseTwo(round: number): void {
+    const { removalsPerRound, removalProbability, skipRounds } = this.phaseTwo;
+    let traitorBanished = false;
+    for (let i = 0; i < this.banishedCount; i++) {
+      if (this.types[this.banished[i]] === TRAITOR) {
+        traitorBanished = true;
+      }
+    }
+    if (skipRounds.includes(round)) {
+      return;
+    }
+    if (removalProbability < 1 && this.random.next() >= removalProbability) {
+      return;
+    }
+
+    let removals = removalsPerRound;
+    if (removals > 0 && this.shouldRecruit(traitorBanished)) {
+      if (this.loyalistsLeft === 0) {
+        throw new Error('There is no loyalist left to recruit');
+      }
+      const recruit = this.loyalists[this.random.nextInt(this.loyalistsLeft)];
+      this.types[recruit] = TRAITOR;
+      removeId(this.loyalists, this.loyalistsLeft, recruit);
+      this.loyalistsLeft--;
+      this.traitorsLeft++;
+      removals--;
+    }
+
+    let removed = 0;
+    for (let i = 0; i < removals; i++) {
+      const targetId = this.selectTarget();
+      if (targetId < 0) {
+        break;
+      }
+      this.removeActor(targetId);
+      removed++;
+    }
+    this.drawReveals(removed);
+  }
+
+  /** Mirrors the phase-two targeting policies in phase-two.ts. */
+  private selectTarget(): number {
+    switch (this.targeting) {
+      case 'random_loyalist':
+        return this.randomLoyalist();
+      case 'most_influential_loyalist': {
+        let highest = -1;
+        let targetId = this.loyalistsLeft > 0 ? this.loyalists[0] : -1;
+        for (let i = 0; i < this.loyalistsLeft; i++) {
+          const loyalist = this.loyalists[i];
+          let total = 0;
+          for (let j = 0; j < this.activeCount; j++) {
+            if (this.active[j] !== loyalist) {
+              total += this.influence[loyalist * this.actorCount + this.active[j]];
+            }
+          }
+          if (total > highest) {
+            highest = total;
+            targetId = loyalist;
+          }
+        }
+        return targetId;
+      }
+      case 'accuser': {
+        let accusers = 0;
+        for (let i = 0; i < this.loyalistsLeft; i++) {
+          const targetId = this.openingTargets[this.loyalists[i]];
+          if (targetId >= 0 && this.types[targetId] === TRAITOR) {
+            this.pool[accusers++] = this.loyalists[i];
+          }
+        }
+        return accusers > 0 ? this.pool[this.random.nextInt(accusers)] : this.randomLoyalist();
+      }
+      case 'least_suspected': {
+        if (this.loyalistsLeft === 0) {
+          return -1;
+        }
+        let fewestVotes = Infinity;
+        let count = 0;
+        for (let i = 0; i < this.loyalistsLeft; i++) {
+          const votes = this.openingVotes[this.loyalists[i]];
+          if (votes < fewestVotes) {
+            fewestVotes = votes;
+            count = 0;
+          }
+          if (votes === fewestVotes) {
+            this.pool[count++] = this.loyalists[i];
+          }
+        }
+        return this.pool[this.random.nextInt(count)];
+      }
+      default: {
+        const unhandled: never = this.targeting;
+        throw new Error(`Unsupported phase two targeting: ${unhandled}`);
+      }
+    }
+  }
+}
+
+/**
+ * runSimulation for very large runs: plays the same games, seeded the same way
+ * from `seed` and each game's ID, with FastVotingGame, and keeps only each
+ * game's length and outcome. Game IDs start after `startId`.
+ */
+export function runFastSimulation(iterations: number, config: GameConfig, seed: number,
+  startId: number): SimulationResult[] {
+
+  const game = new FastVotingGame(config);
+  const results: SimulationResult[] = [];
+
+  for (let i = 0; i < iterations; i++) {
+    results.push(game.play(new SeededRandom(deriveSeed(seed, startId + i + 1))));
+  }
+
+  return results;
+}
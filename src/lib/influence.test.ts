@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest'
+import { InfluenceMatrix } from './influence'
+import { SeededRandom } from './random'
+import type { Actor } from './interfaces'
+
+const actors: Actor[] = [0, 1, 2, 3].map(id => ({ id, type: 'loyalist', status: 'active', role: null }))
+
+describe('InfluenceMatrix', () => {
+  it('should give every ordered pair a score within the allowed range', () => {
+    const matrix = new InfluenceMatrix(actors, new SeededRandom(1))
+
+    for (const from of actors) {
+      for (const to of actors) {
+        if (from.id === to.id) continue
+        const score = matrix.get(from.id, to.id)
+        expect(Number.isInteger(score)).toBe(true)
+        expect(score).toBeGreaterThanOrEqual(InfluenceMatrix.MIN_INFLUENCE_SCORE)
+        expect(score).toBeLessThanOrEqual(InfluenceMatrix.MAX_INFLUENCE_SCORE)
+      }
+    }
+  })
+
+  it('should return 0 for an actor over itself', () => {
+    const matrix = new InfluenceMatrix(actors, new SeededRandom(1))
+
+    expect(matrix.get(2, 2)).toBe(0)
+  })
+
+  it('should be reproducible from the seed', () => {
+    const a = new InfluenceMatrix(actors, new SeededRandom(9))
+    const b = new InfluenceMatrix(actors, new SeededRandom(9))
+
+    for (const from of actors) {
+      for (const to of actors) {
+        expect(a.get(from.id, to.id)).toBe(b.get(from.id, to.id))
+      }
+    }
+  })
+})
+
+describe('InfluenceMatrix.evolve', () => {
+  const staticRules = { banishedLoyalistPenalty: 0, banishedTraitorReward: 0, decayRate: 0 }
+  const mixed: Actor[] = [
+    { id: 0, type: 'loyalist', status: 'active', role: null },
+    { id: 1, type: 'loyalist', status: 'active', role: null },
+    { id: 2, type: 'loyalist', status: 'removed', role: null },
+    { id: 3, type: 'traitor', status: 'removed', role: null }
+  ]
+
+  it('should leave scores unchanged with all-zero rules', () => {
+    const matrix = new InfluenceMatrix(mixed, new SeededRandom(2))
+    const before = matrix.snapshot()
+
+    matrix.evolve(staticRules, [{ voterId: 0, targetId: 2 }], [mixed[2]])
+
+    expect(matrix.snapshot()).toEqual(before)
+  })
+
+  it('should lower influence over voters who banished a loyalist', () => {
+    const matrix = new InfluenceMatrix(mixed, new SeededRandom(2))
+    const before = matrix.snapshot()
+
+    matrix.evolve({ ...staticRules, banishedLoyalistPenalty: 5 }, [{ voterId: 0, targetId: 2 }, { voterId: 1, targetId: 3 }], [mixed[2]])
+
+    for (const from of [1, 2, 3]) {
+      expect(matrix.get(from, 0)).toBe(Math.max(InfluenceMatrix.MIN_INFLUENCE_SCORE, before[from][0] - 5))
+    }
+    // Actor 1 voted for someone who was not banished
+    for (const from of [0, 2, 3]) {
+      expect(matrix.get(from, 1)).toBe(before[from][1])
+    }
+  })
+
+  it('should raise influence over voters who banished a traitor', () => {
+    const matrix = new InfluenceMatrix(mixed, new SeededRandom(2))
+    const before = matrix.snapshot()
+
+    matrix.evolve({ ...staticRules, banishedTraitorReward: 5 }, [{ voterId: 1, targetId: 3 }], [mixed[3]])
+
+    for (const from of [0, 2, 3]) {
+      expect(matrix.get(from, 1)).toBe(Math.min(InfluenceMatrix.MAX_INFLUENCE_SCORE, before[from][1] + 5))
+    }
+  })
+
+  it('should decay scores toward the middle of the range', () => {
+    const matrix = new InfluenceMatrix(mixed, new SeededRandom(2))
+    const before = matrix.snapshot()
+
+    matrix.evolve({ ...staticRules, decayRate: 0.5 }, [], [])
+
+    expect(matrix.get(0, 1)).toBeCloseTo(before[0][1] + (50.5 - before[0][1]) / 2)
+    expect(matrix.get(1, 1)).toBe(0)
+  })
+
+  it('should keep scores in range', () => {
+    const matrix = new InfluenceMatrix(mixed, new SeededRandom(2))
+
+    matrix.evolve({ ...staticRules, banishedLoyalistPenalty: 1000 }, [{ voterId: 0, targetId: 2 }], [mixed[2]])
+    matrix.evolve({ ...staticRules, banishedTraitorReward: 1000 }, [{ voterId: 1, targetId: 3 }], [mixed[3]])
+
+    expect(matrix.get(1, 0)).toBe(InfluenceMatrix.MIN_INFLUENCE_SCORE)
+    expect(matrix.get(0, 1)).toBe(InfluenceMatrix.MAX_INFLUENCE_SCORE)
+  })
+
+  it('should snapshot the scores as a from-by-to grid', () => {
+    const matrix = new InfluenceMatrix(mixed, new SeededRandom(2))
+    const snapshot = matrix.snapshot()
+
+    expect(snapshot).toHaveLength(4)
+    expect(snapshot[2][3]).toBe(matrix.get(2, 3))
+    expect(snapshot[3][3]).toBe(0)
+  })
+})
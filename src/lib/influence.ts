@@ -0,0 +1,81 @@
+import type { Actor, Ballot, InfluenceScores, InfluenceUpdateConfig, RandomSource } from './interfaces';
+
+/**
+ * Pairwise influence scores between actors, drawn uniformly from
+ * MIN_INFLUENCE_SCORE to MAX_INFLUENCE_SCORE when the game is set up and
+ * optionally evolved after each round (see evolve).
+ */
+export class InfluenceMatrix implements InfluenceScores {
+  public static readonly MAX_INFLUENCE_SCORE = 100;
+  public static readonly MIN_INFLUENCE_SCORE = 1;
+
+  /** Scores at [fromId * size + toId]; actor IDs run from 0 to size - 1 */
+  private influenceScores: Float64Array;
+  private size: number;
+  private actorIds: number[];
+
+  constructor(actors: readonly Actor[], random: RandomSource) {
+    const range = InfluenceMatrix.MAX_INFLUENCE_SCORE - InfluenceMatrix.MIN_INFLUENCE_SCORE + 1;
+    this.actorIds = actors.map(a => a.id);
+    this.size = Math.max(0, ...this.actorIds) + 1;
+    this.influenceScores = new Float64Array(this.size * this.size);
+
+    for (const actor of actors) {
+      for (const target of actors) {
+        if (actor.id !== target.id) {
+          this.influenceScores[actor.id * this.size + target.id] = random.nextInt(range) + InfluenceMatrix.MIN_INFLUENCE_SCORE;
+        }
+      }
+    }
+  }
+
+  public get(fromId: number, toId: number): number {
+    if (fromId < 0 || toId < 0 || fromId >= this.size || toId >= this.size) {
+      return 0;
+    }
+    return this.influenceScores[fromId * this.size + toId];
+  }
+
+  /**
+   * Decays every score toward the middle of the range, then shifts everyone's
+   * influence over each voter by how their opening vote turned out: down for
+   * voting out a loyalist, up for voting out a traitor. Scores stay in range.
+   */
+  public evolve(rules: InfluenceUpdateConfig, ballots: readonly Ballot[], banished: readonly Actor[]): void {
+    const middle = (InfluenceMatrix.MAX_INFLUENCE_SCORE + InfluenceMatrix.MIN_INFLUENCE_SCORE) / 2;
+    for (const fromId of this.actorIds) {
+      for (const toId of this.actorIds) {
+        if (fromId !== toId) {
+          const score = this.influenceScores[fromId * this.size + toId];
+          this.influenceScores[fromId * this.size + toId] = score + (middle - score) * rules.decayRate;
+        }
+      }
+    }
+
+    for (const ballot of ballots) {
+      const target = banished.find(a => a.id === ballot.targetId);
+      if (!target) {
+        continue;
+      }
+
+      // Banishing a third-faction actor is neither a mistake nor a success
+      const delta = target.type === 'loyalist' ? -rules.banishedLoyalistPenalty
+        : target.type === 'traitor' ? rules.banishedTraitorReward : 0;
+      for (const fromId of this.actorIds) {
+        if (fromId !== ballot.voterId) {
+          this.adjust(fromId, ballot.voterId, delta);
+        }
+      }
+    }
+  }
+
+  /** A copy of the scores as [fromId][toId], with 0 on the diagonal. */
+  public snapshot(): number[][] {
+    return this.actorIds.map(fromId => this.actorIds.map(toId => this.get(fromId, toId)));
+  }
+
+  private adjust(fromId: number, toId: number, delta: number): void {
+    const score = this.get(fromId, toId) + delta;
+    this.influenceScores[fromId * this.size + toId] = Math.min(InfluenceMatrix.MAX_INFLUENCE_SCORE, Math.max(InfluenceMatrix.MIN_INFLUENCE_SCORE, score));
+  }
+}
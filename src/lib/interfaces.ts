@@ -1,13 +1,313 @@
-export type ActorType = 'loyalist' | 'traitor';
+/** A faction outside the loyalist-traitor contest, with its own win condition (see factions.ts). */
+export type ThirdFaction = 'neutral' | 'jester';
+export type ActorType = 'loyalist' | 'traitor' | ThirdFaction;
 export type ActorStatus = 'active' | 'removed';
-export type GameType = 'random' | 'fixate';
-export type EndCondition = 'first_traitor_removed' | 'all_one_type';
+/** A special ability layered on top of a loyalist's faction (see roles.ts). */
+export type ActorRole = 'seer' | 'protector';
+/** Key into the loyalist strategy registry (see strategies.ts), e.g. 'random' or 'fixate'. */
+export type GameType = string;
+/** Key into the traitor strategy registry (see strategies.ts), e.g. 'random' or 'bloc'. */
+export type TraitorPolicy = string;
+/** Selects a composed end predicate (see end-conditions.ts). */
+export type EndCondition = 'first_traitor_removed' | 'all_one_type' | 'traitor_parity' | 'final_circle' | 'traitors_removed' | 'survive_rounds';
 export type SimulationType = 'random' | 'influence';
+export type PhaseTwoTargeting = 'random_loyalist' | 'most_influential_loyalist' | 'accuser' | 'least_suspected';
+export type TiePolicy = 'revote' | 'random' | 'no_banishment' | 'banish_all' | 'lowest_id' | 'chair';
+export type RevealPolicy = 'immediate' | 'end_of_round' | 'never' | 'probabilistic';
+export type RecruitmentTrigger = 'traitor_banished' | 'below_threshold';
+export type GameOutcome = 'traitor_removed' | 'no_loyalists' | 'all_loyalists' | 'all_traitors' | 'jester_banished' | 'timeout'
+  | 'traitor_parity' | 'final_circle_traitors' | 'final_circle_loyalists' | 'traitors_removed' | 'traitors_survived';
+/** A file format for a run's games (see result-formats.ts). */
+export type ResultFormat = 'json' | 'ndjson' | 'csv';
 
 export interface Actor {
   id: number;
   type: ActorType;
   status: ActorStatus;
+  role: ActorRole | null;
+}
+
+/** An actor as seen by another actor: `type` is null while hidden from the viewer. */
+export interface VisibleActor {
+  id: number;
+  type: ActorType | null;
+  status: ActorStatus;
+  role: ActorRole | null;
+}
+
+export interface GameConfig {
+  loyalistCount: number;
+  traitorCount: number;
+  /** Selects the rule set (see rule-sets.ts) */
+  simulationType: SimulationType;
+  endCondition: EndCondition;
+  /** Counts used by the end conditions that take one */
+  endThresholds: EndThresholds;
+  /** Loyalist strategy, used unless the rule set overrides it */
+  gameType: GameType;
+  /** Traitor strategy, used unless the rule set overrides it */
+  traitorPolicy: TraitorPolicy;
+  phaseTwo: PhaseTwoConfig;
+  tieBreak: TieBreakConfig;
+  reveal: RevealConfig;
+  /** How influence scores change between rounds; only used by rule sets with influence */
+  influenceUpdate: InfluenceUpdateConfig;
+  recruitment: RecruitmentConfig;
+  /** How many loyalists hold each role; roles go to the lowest-ID loyalists */
+  roles: Record<ActorRole, number>;
+  /** How many actors join each third faction; they take the IDs after the traitors */
+  factions: Record<ThirdFaction, number>;
+  /** Rounds after which an undecided game ends with the 'timeout' outcome, or null for no cap */
+  maxRounds: number | null;
+}
+
+export interface EndThresholds {
+  /** 'final_circle' ends once this many actors or fewer remain */
+  remainingActors: number;
+  /** 'traitors_removed' ends once this many traitors have been removed */
+  traitorsRemoved: number;
+  /** 'survive_rounds' ends once this many rounds have been played */
+  rounds: number;
+}
+
+/** Rules for phase two, the traitors' night-time removal of loyalists. */
+export interface PhaseTwoConfig {
+  /** Loyalists removed in each round that phase two happens */
+  removalsPerRound: number;
+  /** Chance (0 to 1) that phase two happens at all in a round */
+  removalProbability: number;
+  /** Round numbers in which phase two is skipped */
+  skipRounds: number[];
+  /** How traitors pick their targets, or null to use the rule set's targeting */
+  targeting: PhaseTwoTargeting | null;
+}
+
+/** How a phase-one vote with several leaders is resolved (see tie-break.ts). */
+export interface TieBreakConfig {
+  policy: TiePolicy;
+  /** Re-votes held under 'revote' before falling back to a random draw */
+  maxRevotes: number;
+  /** Casts the deciding vote under 'chair', and is ignored otherwise; once removed, the lowest-ID active actor stands in */
+  chairId: number;
+}
+
+/** When a removed actor's true type becomes public. */
+export interface RevealConfig {
+  /**
+   * 'immediate' reveals each removal as soon as its phase ends, 'end_of_round'
+   * reveals a round's removals together after phase two, 'never' keeps them
+   * hidden, and 'probabilistic' reveals each removal immediately with `probability`.
+   */
+  policy: RevealPolicy;
+  probability: number;
+}
+
+/**
+ * Rules applied to the influence matrix after each phase-one vote. With every
+ * field at zero the scores never change.
+ */
+export interface InfluenceUpdateConfig {
+  /** Drop in everyone's influence over an actor whose opening vote went to a banished loyalist */
+  banishedLoyalistPenalty: number;
+  /** Rise in everyone's influence over an actor whose opening vote went to a banished traitor */
+  banishedTraitorReward: number;
+  /** Fraction (0 to 1) of its distance to the middle of the range each score loses per round */
+  decayRate: number;
+}
+
+/**
+ * When traitors recruit: on a night when any trigger holds, the first phase-two
+ * removal instead converts a random active loyalist into a traitor.
+ */
+export interface RecruitmentConfig {
+  /**
+   * 'traitor_banished' fires after a traitor is voted out that round, so it
+   * never fires under 'first_traitor_removed', which ends the game there;
+   * 'below_threshold' fires while fewer than `traitorThreshold` traitors are
+   * active. Recruitment is off when empty.
+   */
+  triggers: RecruitmentTrigger[];
+  traitorThreshold: number;
+}
+
+export interface RandomSource {
+  readonly seed: number;
+  next(): number;
+  nextInt(max: number): number;
+  choice<T>(items: readonly T[]): T;
+}
+
+/**
+ * Read-only view of the game state handed to voter strategies. Traitors see
+ * every actor's type; loyalists see only the types that have been revealed.
+ */
+export interface GameView {
+  readonly roundNumber: number;
+  /** Every actor in the game, including removed ones */
+  readonly actors: readonly Readonly<VisibleActor>[];
+  readonly activeActors: readonly Readonly<VisibleActor>[];
+  /** Traitors at the start of the game, which every actor knows; recruits are not counted */
+  readonly startingTraitorCount: number;
+  /** Rounds in which a loyalist was recruited: everyone learns of a recruitment, only the traitors learn who */
+  readonly recruitedRounds: readonly number[];
+  /** Ballots already cast in the current vote, in voting order. In phase two, the round's phase-one ballots. */
+  readonly ballots: readonly Ballot[];
+  /** Every completed round so far, oldest first */
+  readonly history: readonly VisibleRoundResult[];
+  /** Pairwise influence scores, or null when the rule set does not use influence */
+  readonly influence: InfluenceScores | null;
+  readonly random: RandomSource;
+}
+
+export interface InfluenceScores {
+  /** Influence `fromId` holds over `toId` */
+  get(fromId: number, toId: number): number;
+}
+
+export interface Ballot {
+  voterId: number;
+  targetId: number;
+}
+
+export interface VoterStrategy {
+  /** Returns the ID of the actor to vote for, or null to abstain. */
+  castBallot(voter: Readonly<Actor>, view: GameView): number | null;
+}
+
+export interface StrategyDefinition {
+  id: string;
+  faction: ActorType;
+  label: string;
+  description: string;
+  /** Only usable under a rule set that provides influence scores */
+  requiresInfluence: boolean;
+  /** Called once per game, so a strategy can keep private memory between rounds. */
+  create(): VoterStrategy;
+}
+
+/**
+ * The mechanics that differ between simulation types. Everything else
+ * (phase order, tie-breaks, end conditions) is shared by the one engine.
+ */
+export interface RuleSet {
+  id: SimulationType;
+  label: string;
+  /** Whether games need a pairwise influence matrix */
+  usesInfluence: boolean;
+  /** Replaces the configured loyalist strategy, or null to use config.gameType */
+  loyalistStrategy: GameType | null;
+  /** Replaces the configured traitor strategy, or null to use config.traitorPolicy */
+  traitorStrategy: TraitorPolicy | null;
+  /**
+   * Whether tie-break re-votes go through the voters' strategies, limited to
+   * the tied actors, rather than a random pick among them
+   */
+  revotesFollowStrategies: boolean;
+  /** Phase-two targeting used unless the game configuration overrides it */
+  phaseTwoTargeting: PhaseTwoTargeting;
+}
+
+export interface PhaseTwoTargetingDefinition {
+  id: PhaseTwoTargeting;
+  label: string;
+  description: string;
+  /** Only usable under a rule set that provides influence scores */
+  requiresInfluence: boolean;
+  /** Picks the next loyalist to remove, or null if there is no one to remove */
+  selectTarget(view: GameView): number | null;
+}
+
+export interface RoleDefinition {
+  id: ActorRole;
+  label: string;
+  description: string;
+  /**
+   * Called once per role holder per game. Returns the holder's voter, which
+   * may delegate to `factionStrategy` for rounds the role has no opinion on.
+   * `trueType` looks up any actor's real type, for roles with private knowledge.
+   */
+  createVoter(factionStrategy: VoterStrategy, trueType: (actorId: number) => ActorType): VoterStrategy;
+  /** Picks an actor to shield from phase-two removal tonight, or null */
+  chooseProtected(holder: Readonly<Actor>, view: GameView): number | null;
+}
+
+/** The counts an end predicate decides on, taken after each phase. */
+export interface EndState {
+  activeLoyalists: number;
+  activeTraitors: number;
+  /** Every active actor, third factions included */
+  activeActors: number;
+  /** Traitors removed so far, including recruits */
+  traitorsRemoved: number;
+  /** Rounds played through both phases */
+  completedRounds: number;
+}
+
+/** Returns the outcome the game ends with, or null to keep playing. */
+export type EndPredicate = (state: EndState) => GameOutcome | null;
+
+export interface EndConditionDefinition {
+  id: EndCondition;
+  label: string;
+  description: string;
+  /** Every outcome the predicate can end the game with */
+  outcomes: GameOutcome[];
+  create(thresholds: EndThresholds): EndPredicate;
+}
+
+/** When a third faction's win condition is checked. */
+export interface WinCheck {
+  /** Actors banished in this round's phase one */
+  phaseOneRemoved: readonly number[];
+  /** Whether the loyalist-traitor contest has just been decided */
+  contestOver: boolean;
+}
+
+export interface FactionDefinition {
+  id: ActorType;
+  label: string;
+  description: string;
+  /** Histogram bar colours; badges use the matching CSS variable */
+  color: string;
+  hoverColor: string;
+  /** Strategy the faction votes with, or null when the game configuration picks it */
+  strategy: string | null;
+  /**
+   * Whether one of this faction's actors has won. Null for loyalists and
+   * traitors, who win through the end condition instead.
+   */
+  hasWon: ((actor: Readonly<Actor>, check: WinCheck) => boolean) | null;
+  /**
+   * The outcome a win ends the game with, or null for a faction that wins
+   * alongside the end condition's winner without taking the game from it
+   */
+  outcome: GameOutcome | null;
+}
+
+export interface OutcomeDefinition {
+  id: GameOutcome;
+  label: string;
+  /** The faction this outcome counts as a win for, or null if no one wins */
+  winner: ActorType | null;
+}
+
+export interface TiePolicyDefinition {
+  id: TiePolicy;
+  label: string;
+  description: string;
+}
+
+export interface RevealPolicyDefinition {
+  id: RevealPolicy;
+  label: string;
+  description: string;
+}
+
+/** How a tied phase-one vote was resolved. */
+export interface TieBreakRecord {
+  /** The policy that settled the tie; 'random' when 'revote' ran out of re-votes */
+  policy: TiePolicy;
+  revotes: number;
 }
 
 export interface VoteResult {
@@ -15,23 +315,341 @@ export interface VoteResult {
   votes: number;
 }
 
+/** The outcome of one round's phase-one vote, before it is recorded. */
+export interface PhaseOneResolution {
+  votes: Map<number, number>;
+  ballots: Ballot[][];
+  removedIds: number[];
+  tieBreak: TieBreakRecord | null;
+}
+
+/** The phase a game plays next, or 'finished' once it is over. */
+export type GamePhase = 'phase_one' | 'phase_two' | 'finished';
+
+/** A snapshot of a game in progress, from VotingGame.getState(). */
+export interface GameState {
+  /** The round in progress, or the last one played; 0 before the first round */
+  currentRound: number;
+  nextPhase: GamePhase;
+  /** Every actor with its true type */
+  actors: Actor[];
+  /** Rounds recorded so far */
+  rounds: RoundResult[];
+  /** This round's phase-one vote while phase two is still to come, else null */
+  pendingPhaseOne: PhaseOneResolution | null;
+  /** Actors whose true type is public, sorted by ID */
+  revealed: number[];
+  /** Set once the game is finished */
+  outcome: GameOutcome | null;
+}
+
+/** The first event in a game's log: how the game was set up, with every actor as it started. */
+export interface GameStartedEvent {
+  type: 'game_started';
+  seed: number;
+  endCondition: EndCondition;
+  simulationType: SimulationType;
+  traitorPolicy: TraitorPolicy;
+  phaseTwoTargeting: PhaseTwoTargeting;
+  actors: Actor[];
+  /** Starting influence scores as [fromId][toId], or null without influence */
+  influence: number[][] | null;
+}
+
+/**
+ * One entry in a game's event log. The log is complete and in the order
+ * things happened, so a game's result, and its state after any event, can be
+ * rebuilt from it (see replay.ts).
+ */
+export type GameEvent =
+  | GameStartedEvent
+  | { type: 'round_started'; round: number }
+  /** A ballot in the opening vote or the latest re-vote */
+  | { type: 'vote_cast'; round: number; voterId: number; targetId: number }
+  /** A vote ended without a single leader; `tiedIds` is everyone if nobody voted */
+  | { type: 'tie_detected'; round: number; tiedIds: number[] }
+  /** Starts a tie-break re-vote between the candidates */
+  | { type: 'revote_started'; round: number; candidateIds: number[] }
+  /** A chair's or lowest-ID actor's deciding vote */
+  | { type: 'deciding_vote_cast'; round: number; voterId: number; targetId: number }
+  | { type: 'banished'; round: number; actorId: number }
+  /** How the round's tie was settled, after the banishments */
+  | { type: 'tie_broken'; round: number; record: TieBreakRecord }
+  /** Influence scores after the round's phase-one update */
+  | { type: 'influence_updated'; round: number; influence: number[][] }
+  | { type: 'phase_ended'; round: number; phase: 'phase_one' | 'phase_two' }
+  /** A loyalist recruited into the traitors in phase two */
+  | { type: 'converted'; round: number; actorId: number }
+  /** A phase-two target shielded by a protector */
+  | { type: 'saved'; round: number; actorId: number }
+  /** Removed in phase two */
+  | { type: 'murdered'; round: number; actorId: number }
+  /** A removed actor's true type became public */
+  | { type: 'revealed'; round: number; actorId: number }
+  | { type: 'round_ended'; round: number }
+  | { type: 'game_ended'; round: number; outcome: GameOutcome; thirdFactionWinners: ThirdFaction[] };
+
+/** The outcome of one round's phase two, before it is recorded. */
+export interface PhaseTwoResolution {
+  removed: number[];
+  recruited: number | null;
+  saved: number[];
+}
+
 export interface RoundResult {
   roundNumber: number;
   phaseOneVotes: Map<number, number>;
-  phaseOneRemoved: number;
-  phaseTwoRemoved: number;
+  /**
+   * Every phase-one ballot, one list per vote: the opening vote, then each
+   * tie-break re-vote, then a chair's or lowest-ID actor's deciding vote.
+   */
+  phaseOneBallots: Ballot[][];
+  /** Influence scores at the end of the round as [fromId][toId], or null without influence */
+  influence: number[][] | null;
+  /** Actors banished in phase one; empty or several only when a tie policy says so */
+  phaseOneRemoved: number[];
+  /** How a tied vote was resolved, or null if the vote had a single leader */
+  tieBreak: TieBreakRecord | null;
+  /** Actors removed in phase two, in removal order; empty if phase two did not happen */
+  phaseTwoRemoved: number[];
+  /** Loyalist converted into a traitor in phase two, or null if no one was recruited */
+  phaseTwoRecruited: number | null;
+  /** Phase-two targets that survived because a protector shielded them */
+  phaseTwoSaved: number[];
   remainingActors: Actor[];
+  /** Every actor whose true type is public at the end of the round, in ID order */
+  revealed: number[];
 }
 
+/** A round as a loyalist sees it: hidden types and recruitments are masked. */
+export type VisibleRoundResult = Omit<RoundResult, 'remainingActors'> & {
+  remainingActors: VisibleActor[];
+};
+
 export interface GameResult {
   id?: number;
-  rounds: RoundResult[];
   totalRounds: number;
-  outcome: 'traitor_removed' | 'no_loyalists' | 'all_loyalists' | 'all_traitors';
+  outcome: GameOutcome;
+  /** Third factions that won alongside the outcome's winner, such as a neutral that survived */
+  thirdFactionWinners: ThirdFaction[];
   endCondition: EndCondition;
+  simulationType: SimulationType;
+  /** The traitor strategy the game was played with */
+  traitorPolicy: TraitorPolicy;
+  /** The phase-two targeting the game was played with */
+  phaseTwoTargeting: PhaseTwoTargeting;
+  /** Role held by each actor that started with one, keyed by actor ID */
+  roles: Map<number, ActorRole>;
+  /** Third faction of each actor that started in one, keyed by actor ID */
+  factions: Map<number, ThirdFaction>;
+  seed: number;
+  /** Everything that happened in the game; roundsFromEvents() rebuilds its rounds from here */
+  events: GameEvent[];
 }
 
+/** A game's length and outcome without its history, as FastVotingGame reports it. */
 export interface SimulationResult {
   rounds: number;
-  outcome: 'traitor_removed' | 'no_loyalists' | 'all_traitors' | 'all_loyalists';
+  outcome: GameOutcome;
+  /** As on GameResult; left out by the fast engine, which does not model third factions */
+  thirdFactionWinners?: readonly ThirdFaction[];
+}
+
+/** Round-count statistics for a set of games. */
+export interface SimulationStatistics {
+  mean: number;
+  median: number;
+  mode: number;
+  min: number;
+  max: number;
+  stdDev: number;
+  /** Games that hit the round cap */
+  timeouts: number;
+}
+
+/**
+ * Round and outcome statistics folded in one game at a time, so a run need
+ * not keep its games. Plain data, so workers can post it back.
+ */
+export interface RunningStatistics {
+  games: number;
+  /** Welford's running mean of the round count and sum of squared deviations from it */
+  mean: number;
+  sumOfSquares: number;
+  min: number;
+  max: number;
+  /** Games by round count and outcome: histogram[r] tallies the games that lasted r rounds */
+  histogram: Partial<Record<GameOutcome, number>>[];
+  outcomes: Partial<Record<GameOutcome, number>>;
+  /** Games each third faction won alongside the outcome's winner */
+  thirdFactionWins: Partial<Record<ThirdFaction, number>>;
+}
+
+/** Whole numbers from `from` to `to`, inclusive. */
+export interface CountRange {
+  from: number;
+  to: number;
+}
+
+/** A parameter sweep: every combination of these values is a cell, played `iterations` times. */
+export interface SweepConfig {
+  loyalists: CountRange;
+  traitors: CountRange;
+  gameTypes: GameType[];
+  traitorPolicies: TraitorPolicy[];
+  endConditions: EndCondition[];
+  /** Games played in each cell */
+  iterations: number;
+}
+
+/** One cell of a parameter sweep and how its games went. */
+export interface SweepCell {
+  loyalists: number;
+  traitors: number;
+  gameType: GameType;
+  traitorPolicy: TraitorPolicy;
+  endCondition: EndCondition;
+  games: number;
+  /** Share of the games each side won, from 0 to 1 */
+  loyalistWinRate: number;
+  traitorWinRate: number;
+  meanRounds: number;
+  stdDev: number;
+  timeouts: number;
+}
+
+/** A file format for a run's games, written one game at a time. */
+export interface ResultFormatDefinition {
+  id: ResultFormat;
+  label: string;
+  extension: string;
+  /** Written before the first game */
+  header: string;
+  /** Written between games */
+  separator: string;
+  /** Written after the last game */
+  footer: string;
+  formatGame(game: GameResult): string;
+}
+
+/** What the command-line runner was asked to do. */
+export interface CliOptions {
+  loyalists: number;
+  traitors: number;
+  iterations: number;
+  simulationType: SimulationType;
+  endCondition: EndCondition;
+  gameType: GameType;
+  traitorPolicy: TraitorPolicy;
+  /** null picks a fresh seed */
+  seed: number | null;
+  /** null for no round cap */
+  maxRounds: number | null;
+  /** File to write every game to, or null to print the summary alone */
+  output: string | null;
+  format: ResultFormat;
+  help: boolean;
+}
+
+/** Picks out games by how they ended. */
+export interface GameFilter {
+  /** Outcomes to match, or null for any */
+  outcomes: GameOutcome[] | null;
+  minRounds: number;
+  /** null for no upper bound */
+  maxRounds: number | null;
+}
+
+/** Which games a run keeps in full; the rest only reach its RunningStatistics. */
+export interface GameRetention {
+  /** Keep games with IDs up to this */
+  sampleSize: number;
+  /** Also keep every game this matches, or null for the sample alone */
+  filter: GameFilter | null;
+}
+
+/** A run folded into statistics, with the games its GameRetention kept. */
+export interface RetainedSimulation {
+  statistics: RunningStatistics;
+  /** The kept games, in ID order */
+  games: GameResult[];
+}
+
+/**
+ * The exact distribution of a game's length and outcome, as computed by
+ * solveExact (see markov.ts) rather than sampled.
+ */
+export interface ExactSolution {
+  /** Probability that a game lasts exactly r rounds, at index r */
+  rounds: number[];
+  /** Probability of each outcome a game can end with */
+  outcomes: Partial<Record<GameOutcome, number>>;
+  /** Probability that each faction wins; timeouts count for no one */
+  wins: Partial<Record<ActorType, number>>;
+}
+
+/** How many loyalists and traitors share the most phase-one votes, and how likely that is. */
+export interface TopVoted {
+  loyalists: number;
+  traitors: number;
+  probability: number;
+}
+
+/** How a player's opening phase-one votes went, next to what random voting would have scored. */
+export interface PlayerVoteSummary {
+  votes: number;
+  /** Votes that landed on a traitor */
+  traitorVotes: number;
+  /** Traitor votes a voter picking uniformly at random would expect in the same rounds */
+  expectedTraitorVotes: number;
+}
+
+/** A loyalist strategy's record over simulated games of one configuration. */
+export interface StrategyComparison {
+  strategy: GameType;
+  label: string;
+  /** Share of games the loyalists won, from 0 to 1 */
+  loyalistWinRate: number;
+}
+
+/** A strategy comparison running on workers. */
+export interface PooledStrategyComparison {
+  /** Resolves with every strategy's record, or with null if cancelled first; rejects if a worker fails */
+  done: Promise<StrategyComparison[] | null>;
+  /** Stops every worker */
+  cancel(): void;
+}
+
+/** A slice of a simulation run handed to a worker: games startId + 1 to startId + iterations. */
+export interface SimulationChunk {
+  config: GameConfig;
+  seed: number;
+  startId: number;
+  iterations: number;
+  retention: GameRetention;
+}
+
+/** What a simulation worker sends back for each chunk. */
+export type SimulationWorkerMessage =
+  | { type: 'results'; startId: number; iterations: number; simulation: RetainedSimulation }
+  | { type: 'error'; startId: number; message: string };
+
+/** The part of the Worker API the simulation pool uses, so tests can stand in for real workers. */
+export interface SimulationWorker {
+  postMessage(chunk: SimulationChunk): void;
+  onmessage: ((event: MessageEvent<SimulationWorkerMessage>) => void) | null;
+  onerror: ((event: ErrorEvent) => void) | null;
+  terminate(): void;
+}
+
+/** A simulation run spread across workers. */
+export interface PooledSimulation {
+  /** Settles once every game has been played or the run is cancelled, and rejects if a worker fails */
+  done: Promise<PooledSimulationResult>;
+  /** Stops every worker, keeping the games already finished */
+  cancel(): void;
+}
+
+export interface PooledSimulationResult extends RetainedSimulation {
+  cancelled: boolean;
 }
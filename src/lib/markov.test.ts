@@ -0,0 +1,183 @@
+import { describe, it, expect } from 'vitest'
+import { exactSolverLimitation, solveExact, tallyTopVoted } from './markov'
+import { OUTCOMES } from './factions'
+import { runSimulation } from './voting-game'
+import { makeGameConfig } from '../test/game-config'
+import type { GameConfig, TiePolicy } from './interfaces'
+
+/** Tallies every possible phase-one ballot, keyed by "tied loyalists,tied traitors". */
+function enumerateTopVoted(loyalists: number, traitors: number): Map<string, number> {
+  const actorCount = loyalists + traitors
+  const choices = [
+    ...Array.from({ length: loyalists }, (_, voter) => Array.from({ length: actorCount }, (_, id) => id).filter(id => id !== voter)),
+    ...Array.from({ length: traitors }, () => Array.from({ length: loyalists }, (_, id) => id))
+  ]
+
+  const counts = new Map<string, number>()
+  let ballots = 0
+  const castFrom = (voter: number, votes: number[]) => {
+    if (voter === choices.length) {
+      const most = Math.max(...votes)
+      const tied = votes.map((count, id) => (count === most ? id : -1)).filter(id => id >= 0)
+      const key = `${tied.filter(id => id < loyalists).length},${tied.filter(id => id >= loyalists).length}`
+      counts.set(key, (counts.get(key) ?? 0) + 1)
+      ballots++
+      return
+    }
+    for (const target of choices[voter]) {
+      votes[target]++
+      castFrom(voter + 1, votes)
+      votes[target]--
+    }
+  }
+  castFrom(0, new Array<number>(actorCount).fill(0))
+
+  return new Map(Array.from(counts, ([key, count]) => [key, count / ballots]))
+}
+
+function sum(values: number[]): number {
+  return values.reduce((total, value) => total + value, 0)
+}
+
+describe('tallyTopVoted', () => {
+  it('should match every ballot enumerated by hand', () => {
+    for (const [loyalists, traitors] of [[2, 1], [3, 2], [4, 0], [4, 2], [5, 1]]) {
+      const expected = enumerateTopVoted(loyalists, traitors)
+      const tallied = tallyTopVoted(loyalists, traitors)
+
+      expect(tallied).toHaveLength(expected.size)
+      for (const { loyalists: a, traitors: b, probability } of tallied) {
+        expect(probability).toBeCloseTo(expected.get(`${a},${b}`)!, 12)
+      }
+    }
+  })
+
+  it('should treat everyone as tied when nobody can vote', () => {
+    expect(tallyTopVoted(0, 3)).toEqual([{ loyalists: 0, traitors: 3, probability: 1 }])
+    expect(tallyTopVoted(1, 0)).toEqual([{ loyalists: 1, traitors: 0, probability: 1 }])
+  })
+})
+
+describe('solveExact', () => {
+  it('should give distributions that sum to one', () => {
+    const solution = solveExact(makeGameConfig({ loyalistCount: 10, traitorCount: 3, endCondition: 'all_one_type' }))
+
+    expect(sum(solution.rounds)).toBeCloseTo(1, 9)
+    expect(sum(Object.values(solution.outcomes))).toBeCloseTo(1, 9)
+    expect(sum(Object.values(solution.wins))).toBeCloseTo(1, 9)
+    expect(Object.keys(solution.outcomes).sort()).toEqual(['all_loyalists', 'all_traitors'])
+  })
+
+  it('should end at round zero when the game is decided before it starts', () => {
+    const solution = solveExact(makeGameConfig({ traitorCount: 0, endCondition: 'all_one_type' }))
+
+    expect(solution.rounds).toEqual([1])
+    expect(solution.outcomes).toEqual({ all_loyalists: 1 })
+  })
+
+  it('should work out a one-round game by hand', () => {
+    // Each voter picks the other, so the tie is broken at random and the survivor is alone
+    const solution = solveExact(makeGameConfig({ loyalistCount: 1, traitorCount: 1, tieBreak: { policy: 'random', maxRevotes: 0, chairId: 0 } }))
+
+    expect(solution.rounds).toEqual([0, 1])
+    expect(solution.outcomes.traitor_removed).toBeCloseTo(0.5, 12)
+    expect(solution.outcomes.no_loyalists).toBeCloseTo(0.5, 12)
+  })
+
+  it('should cap the rounds and put the rest in timeouts', () => {
+    const config = makeGameConfig({ loyalistCount: 8, traitorCount: 2, endCondition: 'all_one_type' })
+    const uncapped = solveExact(config)
+    const capped = solveExact({ ...config, maxRounds: 3 })
+
+    expect(capped.rounds).toHaveLength(4)
+    expect(capped.rounds.slice(0, 3)).toEqual(uncapped.rounds.slice(0, 3))
+    expect(capped.rounds[3]).toBeCloseTo(sum(uncapped.rounds.slice(3)), 9)
+    // Games decided in the last round keep their outcome
+    expect(capped.outcomes.timeout).toBeCloseTo(sum(uncapped.rounds.slice(4)), 9)
+    expect(sum(Object.values(capped.outcomes))).toBeCloseTo(1, 9)
+  })
+
+  it('should refuse a game that may never end without a round cap', () => {
+    // A lone loyalist and traitor always tie, and no one is removed at night
+    const stalled = makeGameConfig({
+      loyalistCount: 1,
+      traitorCount: 1,
+      tieBreak: { policy: 'no_banishment', maxRevotes: 0, chairId: 0 },
+      phaseTwo: { removalsPerRound: 0, removalProbability: 1, skipRounds: [], targeting: null }
+    })
+
+    expect(() => solveExact(stalled)).toThrow('round cap')
+    expect(solveExact({ ...stalled, maxRounds: 4 })).toEqual({ rounds: [0, 0, 0, 0, 1], outcomes: { timeout: 1 }, wins: {} })
+  })
+
+  it('should refuse configurations it cannot solve exactly', () => {
+    const unsupported: Partial<GameConfig>[] = [
+      { simulationType: 'influence' },
+      { gameType: 'fixate' },
+      { traitorPolicy: 'bloc' },
+      { tieBreak: { policy: 'chair', maxRevotes: 0, chairId: 0 } },
+      { roles: { seer: 1, protector: 0 } },
+      { factions: { neutral: 0, jester: 1 } },
+      { recruitment: { triggers: ['below_threshold'], traitorThreshold: 2 } },
+      { loyalistCount: 40 }
+    ]
+
+    expect(exactSolverLimitation(makeGameConfig({}))).toBeNull()
+    for (const overrides of unsupported) {
+      const config = makeGameConfig(overrides)
+      expect(exactSolverLimitation(config)).not.toBeNull()
+      expect(() => solveExact(config)).toThrow(exactSolverLimitation(config)!)
+    }
+  })
+})
+
+describe('solveExact against Monte Carlo', () => {
+  const games = 3000
+
+  function compare(config: GameConfig): void {
+    const exact = solveExact(config)
+    const results = runSimulation(games, config, 17)
+
+    const loyalistWins = results.filter(r => OUTCOMES[r.outcome].winner === 'loyalist').length / games
+    expect(loyalistWins).toBeCloseTo(exact.wins.loyalist ?? 0, 1)
+
+    const meanRounds = sum(results.map(r => r.totalRounds)) / games
+    const exactMean = sum(exact.rounds.map((p, rounds) => p * rounds))
+    expect(Math.abs(meanRounds - exactMean)).toBeLessThan(0.15)
+
+    exact.rounds.forEach((p, rounds) => {
+      const observed = results.filter(r => r.totalRounds === rounds).length / games
+      expect(Math.abs(observed - p)).toBeLessThan(0.04)
+    })
+  }
+
+  for (const policy of ['revote', 'random', 'no_banishment', 'banish_all', 'lowest_id'] as TiePolicy[]) {
+    it(`should agree with simulated games under the ${policy} tie policy`, () => {
+      compare(makeGameConfig({
+        loyalistCount: 6,
+        traitorCount: 2,
+        endCondition: 'all_one_type',
+        tieBreak: { policy, maxRevotes: 3, chairId: 0 }
+      }))
+    })
+  }
+
+  it('should agree with simulated games with an uncertain, skipped phase two', () => {
+    compare(makeGameConfig({
+      loyalistCount: 7,
+      traitorCount: 2,
+      endCondition: 'traitor_parity',
+      phaseTwo: { removalsPerRound: 2, removalProbability: 0.5, skipRounds: [1], targeting: 'least_suspected' }
+    }))
+  })
+
+  it('should agree with simulated games under a round-count end condition and cap', () => {
+    compare(makeGameConfig({
+      loyalistCount: 8,
+      traitorCount: 2,
+      endCondition: 'survive_rounds',
+      endThresholds: { remainingActors: 3, traitorsRemoved: 1, rounds: 3 },
+      maxRounds: 2
+    }))
+  })
+})
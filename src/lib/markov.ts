@@ -0,0 +1,334 @@
+import type { ActorType, EndPredicate, ExactSolution, GameConfig, GameOutcome, TiePolicy, TopVoted } from './interfaces';
+import { END_CONDITIONS } from './end-conditions';
+import { OUTCOMES } from './factions';
+import { RULE_SETS } from './rule-sets';
+
+/** Largest game the solver takes on; the phase-one tally grows quickly with the actor count */
+const MAX_SOLVED_ACTORS = 30;
+/** Rounds an uncapped solve runs for before giving up on a game that may never end */
+const MAX_SOLVED_ROUNDS = 10000;
+/** Probability still in play below which an uncapped solve counts as finished */
+const NEGLIGIBLE_PROBABILITY = 1e-12;
+
+/**
+ * Why solveExact cannot handle `config`, or null if it can. The solver relies
+ * on every actor being interchangeable with the others of its faction, so only
+ * the random strategies qualify and nothing may single out one actor.
+ */
+export function exactSolverLimitation(config: GameConfig): string | null {
+  const ruleSet = RULE_SETS[config.simulationType];
+  if (ruleSet.usesInfluence) {
+    return 'Influence-based voting is not supported';
+  }
+  if ((ruleSet.loyalistStrategy ?? config.gameType) !== 'random' || (ruleSet.traitorStrategy ?? config.traitorPolicy) !== 'random') {
+    return 'Only the random strategies are supported';
+  }
+  if (config.tieBreak.policy === 'chair') {
+    return 'The chair tie policy is not supported';
+  }
+  if (Object.values(config.roles).some(count => count > 0)) {
+    return 'Roles are not supported';
+  }
+  if (Object.values(config.factions).some(count => count > 0)) {
+    return 'Third factions are not supported';
+  }
+  if (config.recruitment.triggers.length > 0) {
+    return 'Recruitment is not supported';
+  }
+  if (config.loyalistCount + config.traitorCount > MAX_SOLVED_ACTORS) {
+    return `At most ${MAX_SOLVED_ACTORS} actors are supported`;
+  }
+  return null;
+}
+
+/**
+ * Multiplies two polynomials in y and w, stored row by row with `width`
+ * coefficients per power of y, dropping terms beyond the stored degrees.
+ */
+function multiply(p: Float64Array, q: Float64Array, width: number): Float64Array {
+  const product = new Float64Array(p.length);
+  const degree = p.length / width - 1;
+  for (let pd = 0; pd <= degree; pd++) {
+    for (let ps = 0; ps < width; ps++) {
+      const coefficient = p[pd * width + ps];
+      if (coefficient === 0) {
+        continue;
+      }
+      for (let qd = 0; pd + qd <= degree; qd++) {
+        for (let qs = 0; ps + qs < width; qs++) {
+          product[(pd + qd) * width + ps + qs] += coefficient * q[qd * width + qs];
+        }
+      }
+    }
+  }
+  return product;
+}
+
+/**
+ * Distribution of who shares the most votes in a random phase-one vote, in
+ * which each traitor votes for a random loyalist and each loyalist for a
+ * random other actor.
+ *
+ * Every way the ballots can fall is equally likely, so this counts them with
+ * exponential generating functions: for each top vote count m, one factor per
+ * actor for the votes it receives (fewer than m, or exactly m for the tied).
+ * Loyalists may not vote for themselves, which is handled by inclusion-exclusion
+ * over the loyalists forced to: w counts them, and y tracks votes from anyone
+ * else that land on loyalists, since traitors' and loyalists' ballots can both
+ * go there.
+ */
+export function tallyTopVoted(loyalists: number, traitors: number): TopVoted[] {
+  const votes = loyalists + traitors;
+  // Traitors only vote for loyalists and loyalists never for themselves
+  if (loyalists === 0 || votes < 2) {
+    return [{ loyalists, traitors, probability: 1 }];
+  }
+
+  const factorial = [1];
+  for (let i = 1; i <= votes; i++) {
+    factorial.push(factorial[i - 1] * i);
+  }
+  const choose = (n: number, k: number) => factorial[n] / (factorial[k] * factorial[n - k]);
+  const width = loyalists + 1;
+  const size = (votes + 1) * width;
+  const ballotCount = Math.pow(votes - 1, loyalists) * Math.pow(loyalists, traitors);
+
+  const topVoted = new Map<string, TopVoted>();
+  for (let most = 1; most <= votes; most++) {
+    // Votes a loyalist receives: y^k / k!, less a forced self vote w y^(k-1) / (k-1)!
+    const loyalistFactor = (from: number, to: number) => {
+      const factor = new Float64Array(size);
+      for (let k = from; k <= to; k++) {
+        factor[k * width] += 1 / factorial[k];
+        if (k > 0) {
+          factor[(k - 1) * width + 1] -= 1 / factorial[k - 1];
+        }
+      }
+      return factor;
+    };
+    const below = loyalistFactor(0, most - 1);
+    const tied = loyalistFactor(most, most);
+
+    const belowPowers: Float64Array[] = [new Float64Array(size)];
+    belowPowers[0][0] = 1;
+    for (let i = 1; i <= loyalists; i++) {
+      belowPowers.push(multiply(belowPowers[i - 1], below, width));
+    }
+
+    // Votes a traitor receives, all from loyalists not forced to vote for themselves
+    const traitorBelow = Array.from({ length: votes + 1 }, (_, k) => (k < most ? 1 / factorial[k] : 0));
+    const traitorBelowPowers: number[][] = [Array.from({ length: votes + 1 }, (_, k) => (k === 0 ? 1 : 0))];
+    for (let j = 1; j <= traitors; j++) {
+      const previous = traitorBelowPowers[j - 1];
+      traitorBelowPowers.push(previous.map((_, e) =>
+        previous.slice(0, e + 1).reduce((sum, coefficient, k) => sum + coefficient * traitorBelow[e - k], 0)));
+    }
+
+    let tiedPower: Float64Array = belowPowers[0];
+    for (let a = 0; a <= loyalists && a * most <= votes; a++) {
+      const loyalistPart = multiply(tiedPower, belowPowers[loyalists - a], width);
+
+      for (let b = 0; b <= traitors && (a + b) * most <= votes; b++) {
+        if (a + b === 0) {
+          continue;
+        }
+        let count = 0;
+        for (let d = traitors; d <= votes; d++) {
+          for (let e = b * most; d + e <= votes; e++) {
+            // Every actor casts one vote, so the forced self votes make up the rest
+            const forced = votes - d - e;
+            if (forced > loyalists) {
+              continue;
+            }
+            const traitorPart = traitorBelowPowers[traitors - b][e - b * most] / Math.pow(factorial[most], b);
+            // Of the d votes on loyalists, the traitors cast `traitors`; the free loyalists cast the rest and all e on traitors
+            count += loyalistPart[d * width + forced] * traitorPart * choose(d, traitors) *
+              factorial[loyalists - forced] * factorial[traitors];
+          }
+        }
+
+        const probability = choose(loyalists, a) * choose(traitors, b) * count / ballotCount;
+        const existing = topVoted.get(`${a},${b}`);
+        if (existing) {
+          existing.probability += probability;
+        } else if (probability > 0) {
+          topVoted.set(`${a},${b}`, { loyalists: a, traitors: b, probability });
+        }
+      }
+      tiedPower = multiply(tiedPower, tied, width);
+    }
+  }
+  return Array.from(topVoted.values());
+}
+
+/**
+ * Calls `visit` with each way phase one can go: how many loyalists and
+ * traitors are banished, and the chance of that. Mirrors resolvePhaseOne.
+ */
+function forEachBanishment(loyalists: number, traitors: number, policy: TiePolicy, topVoted: TopVoted[],
+  visit: (loyalistsOut: number, traitorsOut: number, probability: number) => void): void {
+
+  const nobodyVoted = loyalists === 0 || loyalists + traitors < 2;
+  // Removes one of `loyalistsTied + traitorsTied` actors uniformly at random
+  const drawOne = (loyalistsTied: number, traitorsTied: number, probability: number) => {
+    const total = loyalistsTied + traitorsTied;
+    visit(1, 0, probability * loyalistsTied / total);
+    visit(0, 1, probability * traitorsTied / total);
+  };
+
+  for (const { loyalists: a, traitors: b, probability } of topVoted) {
+    if (a + b === 1) {
+      visit(a, b, probability);
+      continue;
+    }
+    switch (policy) {
+      case 'revote':
+      case 'random':
+        // Re-votes are uniform over the tied actors, so they settle on each one equally often
+        drawOne(a, b, probability);
+        break;
+      case 'no_banishment':
+        visit(0, 0, probability);
+        break;
+      case 'banish_all':
+        if (nobodyVoted) {
+          visit(0, 0, probability);
+        } else {
+          visit(a, b, probability);
+        }
+        break;
+      case 'lowest_id': {
+        // The decider is the lowest-ID loyalist, who is among the tied loyalists a / L of the time
+        const deciderTied = loyalists > 0 ? a / loyalists : 0;
+        if (a > 0) {
+          drawOne(a - 1, b, probability * deciderTied);
+        }
+        drawOne(a, b, probability * (1 - deciderTied));
+        break;
+      }
+      case 'chair':
+        throw new Error('The chair tie policy is not supported');
+      default: {
+        const unhandled: never = policy;
+        throw new Error(`Unsupported tie policy: ${unhandled}`);
+      }
+    }
+  }
+}
+
+/**
+ * Computes the exact distribution of round counts and outcomes for `config`,
+ * treating a game as a Markov chain over how many loyalists and traitors
+ * remain. Matches what runSimulation converges to for the configurations
+ * exactSolverLimitation accepts, and throws for the rest.
+ */
+export function solveExact(config: GameConfig): ExactSolution {
+  const limitation = exactSolverLimitation(config);
+  if (limitation !== null) {
+    throw new Error(limitation);
+  }
+
+  const endPredicate: EndPredicate = END_CONDITIONS[config.endCondition].create(config.endThresholds);
+  const { removalsPerRound, removalProbability, skipRounds } = config.phaseTwo;
+  const rounds: number[] = [0];
+  const outcomes: Partial<Record<GameOutcome, number>> = {};
+  const wins: Partial<Record<ActorType, number>> = {};
+  const tallies = new Map<string, TopVoted[]>();
+
+  const endOf = (loyalists: number, traitors: number, completedRounds: number) => endPredicate({
+    activeLoyalists: loyalists,
+    activeTraitors: traitors,
+    activeActors: loyalists + traitors,
+    traitorsRemoved: config.traitorCount - traitors,
+    completedRounds
+  });
+
+  const finish = (round: number, outcome: GameOutcome, probability: number) => {
+    rounds[round] = (rounds[round] ?? 0) + probability;
+    outcomes[outcome] = (outcomes[outcome] ?? 0) + probability;
+    const winner = OUTCOMES[outcome].winner;
+    if (winner !== null) {
+      wins[winner] = (wins[winner] ?? 0) + probability;
+    }
+  };
+
+  // Probability of each undecided (loyalists, traitors) state at the start of a round
+  let states = new Map<string, number>();
+  const add = (into: Map<string, number>, loyalists: number, traitors: number, probability: number) => {
+    if (probability > 0) {
+      const key = `${loyalists},${traitors}`;
+      into.set(key, (into.get(key) ?? 0) + probability);
+    }
+  };
+
+  const initialOutcome = endOf(config.loyalistCount, config.traitorCount, 0);
+  if (initialOutcome !== null) {
+    finish(0, initialOutcome, 1);
+  } else {
+    add(states, config.loyalistCount, config.traitorCount, 1);
+  }
+
+  for (let round = 1; states.size > 0; round++) {
+    let remaining = 0;
+    states.forEach(probability => {
+      remaining += probability;
+    });
+    if (config.maxRounds === null && (remaining < NEGLIGIBLE_PROBABILITY || round > MAX_SOLVED_ROUNDS)) {
+      if (remaining >= NEGLIGIBLE_PROBABILITY) {
+        throw new Error('Games may never end under these rules; set a round cap to solve them');
+      }
+      break;
+    }
+    rounds[round] = 0;
+
+    const afterPhaseTwo = new Map<string, number>();
+    states.forEach((probability, key) => {
+      const [loyalists, traitors] = key.split(',').map(Number);
+      let topVoted = tallies.get(key);
+      if (!topVoted) {
+        topVoted = tallyTopVoted(loyalists, traitors);
+        tallies.set(key, topVoted);
+      }
+
+      forEachBanishment(loyalists, traitors, config.tieBreak.policy, topVoted, (loyalistsOut, traitorsOut, p) => {
+        if (p === 0) {
+          return;
+        }
+        const l = loyalists - loyalistsOut;
+        const t = traitors - traitorsOut;
+        // The round is not complete yet, so round-count predicates wait for phase two
+        const phaseOneOutcome = endOf(l, t, round - 1);
+        if (phaseOneOutcome !== null) {
+          finish(round, phaseOneOutcome, probability * p);
+          return;
+        }
+
+        if (skipRounds.includes(round) || removalsPerRound === 0) {
+          add(afterPhaseTwo, l, t, probability * p);
+        } else {
+          add(afterPhaseTwo, Math.max(0, l - removalsPerRound), t, probability * p * removalProbability);
+          add(afterPhaseTwo, l, t, probability * p * (1 - removalProbability));
+        }
+      });
+    });
+
+    const next = new Map<string, number>();
+    afterPhaseTwo.forEach((probability, key) => {
+      const [loyalists, traitors] = key.split(',').map(Number);
+      const outcome = endOf(loyalists, traitors, round);
+      if (outcome !== null) {
+        finish(round, outcome, probability);
+      } else if (config.maxRounds !== null && round >= config.maxRounds) {
+        finish(round, 'timeout', probability);
+      } else {
+        add(next, loyalists, traitors, probability);
+      }
+    });
+    states = next;
+  }
+
+  while (rounds.length > 1 && rounds[rounds.length - 1] === 0) {
+    rounds.pop();
+  }
+  return { rounds, outcomes, wins };
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect } from 'vitest'
+import { PHASE_TWO_TARGETING } from './phase-two'
+import { SeededRandom } from './random'
+import { makeView } from '../test/game-view'
+import type { Actor, InfluenceScores } from './interfaces'
+
+const actors: Actor[] = [
+  { id: 0, type: 'loyalist', status: 'active', role: null },
+  { id: 1, type: 'loyalist', status: 'active', role: null },
+  { id: 2, type: 'loyalist', status: 'active', role: null },
+  { id: 3, type: 'loyalist', status: 'active', role: null },
+  { id: 4, type: 'traitor', status: 'active', role: null }
+]
+
+describe('phase two targeting', () => {
+  it('should key every definition by its own ID', () => {
+    for (const [id, definition] of Object.entries(PHASE_TWO_TARGETING)) {
+      expect(definition.id).toBe(id)
+    }
+  })
+
+  it('should only need influence for the most influential loyalist', () => {
+    const influenceOnly = Object.values(PHASE_TWO_TARGETING).filter(t => t.requiresInfluence).map(t => t.id)
+
+    expect(influenceOnly).toEqual(['most_influential_loyalist'])
+  })
+
+  it('should return null from every targeting when no loyalists remain', () => {
+    const traitorsOnly = actors.filter(a => a.type === 'traitor')
+    const influence: InfluenceScores = { get: () => 1 }
+
+    for (const targeting of Object.values(PHASE_TWO_TARGETING)) {
+      const view = makeView(actors, { activeActors: traitorsOnly, influence })
+      expect(targeting.selectTarget(view)).toBeNull()
+    }
+  })
+
+  describe('accuser', () => {
+    const targeting = PHASE_TWO_TARGETING.accuser
+
+    it('should remove a loyalist who voted for a traitor', () => {
+      const ballots = [
+        { voterId: 0, targetId: 4 },
+        { voterId: 1, targetId: 2 },
+        { voterId: 2, targetId: 4 },
+        { voterId: 3, targetId: 0 },
+        { voterId: 4, targetId: 3 }
+      ]
+
+      for (let seed = 0; seed < 30; seed++) {
+        expect([0, 2]).toContain(targeting.selectTarget(makeView(actors, { ballots, random: new SeededRandom(seed) })))
+      }
+    })
+
+    it('should fall back to a random loyalist when nobody accused a traitor', () => {
+      const ballots = [{ voterId: 0, targetId: 1 }, { voterId: 4, targetId: 0 }]
+
+      for (let seed = 0; seed < 30; seed++) {
+        expect([0, 1, 2, 3]).toContain(targeting.selectTarget(makeView(actors, { ballots, random: new SeededRandom(seed) })))
+      }
+    })
+  })
+
+  describe('least_suspected', () => {
+    const targeting = PHASE_TWO_TARGETING.least_suspected
+
+    it('should remove a loyalist with the fewest votes against them', () => {
+      const ballots = [
+        { voterId: 0, targetId: 1 },
+        { voterId: 1, targetId: 0 },
+        { voterId: 2, targetId: 1 },
+        { voterId: 3, targetId: 2 },
+        { voterId: 4, targetId: 0 }
+      ]
+
+      for (let seed = 0; seed < 30; seed++) {
+        expect(targeting.selectTarget(makeView(actors, { ballots, random: new SeededRandom(seed) }))).toBe(3)
+      }
+    })
+
+    it('should break ties between the least suspected at random', () => {
+      const ballots = [{ voterId: 0, targetId: 1 }, { voterId: 4, targetId: 1 }]
+      const targets = new Set<number | null>()
+
+      for (let seed = 0; seed < 30; seed++) {
+        targets.add(targeting.selectTarget(makeView(actors, { ballots, random: new SeededRandom(seed) })))
+      }
+
+      expect(targets).toEqual(new Set([0, 2, 3]))
+    })
+  })
+
+  describe('most_influential_loyalist', () => {
+    it('should return null without influence scores', () => {
+      expect(PHASE_TWO_TARGETING.most_influential_loyalist.selectTarget(makeView(actors))).toBeNull()
+    })
+  })
+})
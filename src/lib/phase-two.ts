@@ -0,0 +1,102 @@
+import type { GameView, VisibleActor, PhaseTwoTargeting, PhaseTwoTargetingDefinition } from './interfaces';
+
+function getActiveLoyalists(view: GameView): Readonly<VisibleActor>[] {
+  return view.activeActors.filter(a => a.type === 'loyalist');
+}
+
+function selectRandomLoyalist(view: GameView): number | null {
+  const activeLoyalists = getActiveLoyalists(view);
+  if (activeLoyalists.length === 0) {
+    return null;
+  }
+  return view.random.choice(activeLoyalists).id;
+}
+
+/** The loyalist with the highest total influence over the other active actors. */
+function selectMostInfluentialLoyalist(view: GameView): number | null {
+  const activeLoyalists = getActiveLoyalists(view);
+  if (activeLoyalists.length === 0 || !view.influence) {
+    return null;
+  }
+
+  let highestInfluence = -1;
+  let targetId = activeLoyalists[0].id;
+
+  for (const loyalist of activeLoyalists) {
+    let totalInfluence = 0;
+    for (const other of view.activeActors) {
+      if (other.id !== loyalist.id) {
+        totalInfluence += view.influence.get(loyalist.id, other.id);
+      }
+    }
+
+    if (totalInfluence > highestInfluence) {
+      highestInfluence = totalInfluence;
+      targetId = loyalist.id;
+    }
+  }
+
+  return targetId;
+}
+
+/** A random loyalist who voted for a traitor this round, else any random loyalist. */
+function selectAccuser(view: GameView): number | null {
+  const activeLoyalists = getActiveLoyalists(view);
+  const accusers = activeLoyalists.filter(loyalist =>
+    view.ballots.some(b =>
+      b.voterId === loyalist.id && view.actors.find(a => a.id === b.targetId)?.type === 'traitor'
+    )
+  );
+
+  if (accusers.length > 0) {
+    return view.random.choice(accusers).id;
+  }
+  return selectRandomLoyalist(view);
+}
+
+/**
+ * A random loyalist among those with the fewest phase-one votes against them:
+ * the players the group trusts, and so the hardest to banish by vote.
+ */
+function selectLeastSuspected(view: GameView): number | null {
+  const activeLoyalists = getActiveLoyalists(view);
+  if (activeLoyalists.length === 0) {
+    return null;
+  }
+
+  const votesAgainst = (id: number) => view.ballots.filter(b => b.targetId === id).length;
+  const fewestVotes = Math.min(...activeLoyalists.map(a => votesAgainst(a.id)));
+  const leastSuspected = activeLoyalists.filter(a => votesAgainst(a.id) === fewestVotes);
+  return view.random.choice(leastSuspected).id;
+}
+
+export const PHASE_TWO_TARGETING: Record<PhaseTwoTargeting, PhaseTwoTargetingDefinition> = {
+  random_loyalist: {
+    id: 'random_loyalist',
+    label: 'Random Loyalist',
+    description: 'Traitors remove a random loyalist',
+    requiresInfluence: false,
+    selectTarget: selectRandomLoyalist
+  },
+  most_influential_loyalist: {
+    id: 'most_influential_loyalist',
+    label: 'Most Influential Loyalist',
+    description: 'Traitors remove the loyalist with the highest total influence',
+    requiresInfluence: true,
+    selectTarget: selectMostInfluentialLoyalist
+  },
+  accuser: {
+    id: 'accuser',
+    label: 'Accuser',
+    description: 'Traitors remove a loyalist who voted for a traitor this round',
+    requiresInfluence: false,
+    selectTarget: selectAccuser
+  },
+  least_suspected: {
+    id: 'least_suspected',
+    label: 'Least Suspected',
+    description: 'Traitors remove the loyalist with the fewest votes against them this round',
+    requiresInfluence: false,
+    selectTarget: selectLeastSuspected
+  }
+};
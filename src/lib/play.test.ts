@@ -0,0 +1,199 @@
+import { describe, it, expect } from 'vitest'
+import { PlayerVoter, compareWithStrategies, playerSeat, playerWon, summarisePlayerVotes } from './play'
+import { VotingGame, runSimulation } from './voting-game'
+import { roundsFromEvents } from './replay'
+import { SeededRandom } from './random'
+import { listStrategies } from './strategies'
+import { OUTCOMES } from './factions'
+import { simulateChunk } from './simulation-pool'
+import { makeGameConfig } from '../test/game-config'
+import type { GameResult, SimulationWorker } from './interfaces'
+
+describe('PlayerVoter', () => {
+  const config = makeGameConfig({ loyalistCount: 6, traitorCount: 2, endCondition: 'all_one_type' })
+
+  it('should cast the chosen ballot in the opening vote', () => {
+    const game = new VotingGame(config, new SeededRandom(4))
+    const voter = new PlayerVoter()
+    const playerId = playerSeat(game.getState().actors)
+    game.seatVoter(playerId, voter)
+
+    voter.choose(6)
+    const state = game.stepPhase()
+
+    expect(state.pendingPhaseOne!.ballots[0]).toContainEqual({ voterId: playerId, targetId: 6 })
+  })
+
+  it('should refuse to vote without a choice', () => {
+    const game = new VotingGame(config, new SeededRandom(4))
+    game.seatVoter(playerSeat(game.getState().actors), new PlayerVoter())
+
+    expect(() => game.stepPhase()).toThrow('must choose')
+  })
+
+  it('should refuse a vote for the player or an unknown actor', () => {
+    const playerId = playerSeat(new VotingGame(config, new SeededRandom(4)).getState().actors)
+    for (const targetId of [playerId, 99]) {
+      const game = new VotingGame(config, new SeededRandom(4))
+      const voter = new PlayerVoter()
+      game.seatVoter(playerId, voter)
+      voter.choose(targetId)
+
+      expect(() => game.stepPhase()).toThrow('must choose')
+    }
+  })
+
+  it('should need a fresh choice every round', () => {
+    const game = new VotingGame(config, new SeededRandom(4))
+    const voter = new PlayerVoter()
+    const playerId = playerSeat(game.getState().actors)
+    game.seatVoter(playerId, voter)
+
+    voter.choose(7)
+    const state = game.step()
+
+    expect(state.nextPhase).toBe('phase_one')
+    expect(state.actors[playerId].status).toBe('active')
+    expect(() => game.stepPhase()).toThrow('must choose')
+  })
+})
+
+describe('seatVoter', () => {
+  it('should refuse an actor who is not in the game', () => {
+    const game = new VotingGame(makeGameConfig({}), new SeededRandom(1))
+
+    expect(() => game.seatVoter(42, new PlayerVoter())).toThrow('not an active actor')
+  })
+})
+
+describe('playerSeat', () => {
+  it('should seat the player as the last loyalist', () => {
+    expect(playerSeat(new VotingGame(makeGameConfig({ loyalistCount: 5 }), new SeededRandom(1)).getState().actors)).toBe(4)
+    expect(() => playerSeat([{ id: 0, type: 'traitor', status: 'active', role: null }])).toThrow('no loyalist seat')
+  })
+
+  it('should pass over loyalists with a role while any loyalist has none', () => {
+    const actors = new VotingGame(makeGameConfig({ loyalistCount: 5, roles: { seer: 2, protector: 2 } }), new SeededRandom(1)).getState().actors
+    const seat = playerSeat(actors)
+
+    expect(actors[seat].role).toBeNull()
+    expect(actors.filter(a => a.type === 'loyalist' && a.role === null).every(a => a.id <= seat)).toBe(true)
+  })
+
+  it('should give the player a role only when every loyalist holds one', () => {
+    const actors = new VotingGame(makeGameConfig({ loyalistCount: 3, roles: { seer: 1, protector: 2 } }), new SeededRandom(1)).getState().actors
+
+    expect(actors[playerSeat(actors)]).toMatchObject({ id: 2, type: 'loyalist', role: expect.any(String) })
+  })
+})
+
+describe('summarisePlayerVotes', () => {
+  it('should count opening votes that landed on traitors', () => {
+    const config = makeGameConfig({ loyalistCount: 6, traitorCount: 2, endCondition: 'all_one_type' })
+    const game = new VotingGame(config, new SeededRandom(8))
+    const voter = new PlayerVoter()
+    const playerId = playerSeat(game.getState().actors)
+    game.seatVoter(playerId, voter)
+
+    // Always vote for the lowest-ID traitor still standing
+    let traitorVotes = 0
+    while (!game.isFinished()) {
+      const state = game.getState()
+      if (state.nextPhase === 'phase_one' && state.actors[playerId].status === 'active') {
+        const traitor = state.actors.find(a => a.type === 'traitor' && a.status === 'active')
+        if (traitor) {
+          voter.choose(traitor.id)
+          traitorVotes++
+        } else {
+          voter.choose(state.actors.find(a => a.id !== playerId && a.status === 'active')!.id)
+        }
+      }
+      game.stepPhase()
+    }
+    const result = game.run()
+    const summary = summarisePlayerVotes(result, playerId)
+
+    expect(summary.votes).toBe(roundsFromEvents(result.events).filter(r => r.phaseOneBallots[0].some(b => b.voterId === playerId)).length)
+    expect(summary.traitorVotes).toBe(traitorVotes)
+    // The first round's random chance is 2 traitors among 7 other actors
+    expect(summary.expectedTraitorVotes).toBeGreaterThanOrEqual(2 / 7)
+    expect(summary.expectedTraitorVotes).toBeLessThan(summary.votes)
+  })
+})
+
+describe('playerWon', () => {
+  const config = makeGameConfig({
+    loyalistCount: 6,
+    traitorCount: 1,
+    endCondition: 'all_one_type',
+    recruitment: { triggers: ['below_threshold'], traitorThreshold: 3 }
+  })
+  const playerId = playerSeat(new VotingGame(config, new SeededRandom(1)).getState().actors)
+  const results = runSimulation(100, config, 4)
+  const recruited = (result: GameResult) => roundsFromEvents(result.events).some(round => round.phaseTwoRecruited === playerId)
+
+  it('should not count a traitor win for a recruited player', () => {
+    const lostAsRecruit = results.filter(r => recruited(r) && OUTCOMES[r.outcome].winner === 'traitor')
+
+    expect(lostAsRecruit.length).toBeGreaterThan(0)
+    lostAsRecruit.forEach(result => expect(playerWon(result, playerId)).toBe(false))
+  })
+
+  it('should count a loyalist win for any player seated as a loyalist', () => {
+    const loyalistWins = results.filter(r => OUTCOMES[r.outcome].winner === 'loyalist')
+
+    expect(loyalistWins.length).toBeGreaterThan(0)
+    loyalistWins.forEach(result => expect(playerWon(result, playerId)).toBe(true))
+  })
+})
+
+describe('compareWithStrategies', () => {
+  const config = makeGameConfig({ loyalistCount: 6, traitorCount: 2 })
+
+  // Plays each chunk as soon as it is posted, counting the workers started
+  let started = 0
+  const createWorker = (): SimulationWorker => {
+    started++
+    const worker: SimulationWorker = {
+      onmessage: null,
+      onerror: null,
+      postMessage: chunk => queueMicrotask(() => worker.onmessage?.(new MessageEvent('message', { data: simulateChunk(chunk) }))),
+      terminate: () => {}
+    }
+    return worker
+  }
+
+  it('should report a win rate for each loyalist strategy', async () => {
+    const comparison = await compareWithStrategies(config, 20, 3, 2, createWorker).done
+
+    expect(comparison!.map(c => c.strategy)).toEqual(listStrategies('loyalist', false).map(s => s.id))
+    for (const { loyalistWinRate } of comparison!) {
+      expect(loyalistWinRate).toBeGreaterThanOrEqual(0)
+      expect(loyalistWinRate).toBeLessThanOrEqual(1)
+    }
+  })
+
+  it('should match the win rates of the same games played in full, on workers', async () => {
+    started = 0
+    const comparison = await compareWithStrategies(config, 130, 5, 2, createWorker).done
+
+    expect(started).toBe(2 * comparison!.length)
+    for (const { strategy, loyalistWinRate } of comparison!) {
+      const results = runSimulation(130, { ...config, gameType: strategy }, 5)
+      expect(loyalistWinRate).toBe(results.filter(r => OUTCOMES[r.outcome].winner === 'loyalist').length / 130)
+    }
+  })
+
+  it('should resolve with nothing once cancelled', async () => {
+    const run = compareWithStrategies(config, 20, 3, 2, createWorker)
+    run.cancel()
+
+    expect(await run.done).toBeNull()
+  })
+
+  it('should only try the strategy an influence rule set allows', async () => {
+    const comparison = await compareWithStrategies(makeGameConfig({ simulationType: 'influence' }), 10, 3, 1, createWorker).done
+
+    expect(comparison).toHaveLength(1)
+  })
+})
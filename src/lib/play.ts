@@ -0,0 +1,125 @@
+import type {
+  Actor,
+  GameConfig,
+  GameResult,
+  GameView,
+  PlayerVoteSummary,
+  PooledStrategyComparison,
+  SimulationWorker,
+  VoterStrategy
+} from './interfaces';
+import { OUTCOMES } from './factions';
+import { RULE_SETS } from './rule-sets';
+import { listStrategies } from './strategies';
+import { roundsFromEvents } from './replay';
+import { runSimulationPool } from './simulation-pool';
+import { winRate } from './statistics';
+
+/**
+ * A voter whose ballots come from a person. Call choose() before each
+ * phase-one vote; the engine collects the ballot when the seat's turn comes.
+ */
+export class PlayerVoter implements VoterStrategy {
+  private target: number | null = null;
+
+  public choose(targetId: number): void {
+    this.target = targetId;
+  }
+
+  public castBallot(voter: Readonly<Actor>, view: GameView): number | null {
+    const target = this.target;
+    this.target = null;
+    if (target === null || target === voter.id || !view.activeActors.some(a => a.id === target)) {
+      throw new Error('The player must choose another active actor before the vote');
+    }
+    return target;
+  }
+}
+
+/**
+ * The seat a player takes among a game's actors: the highest-ID loyalist
+ * without a role, or the highest-ID loyalist if every loyalist holds one.
+ */
+export function playerSeat(actors: readonly Actor[]): number {
+  const loyalists = actors.filter(a => a.type === 'loyalist');
+  if (loyalists.length === 0) {
+    throw new Error('There is no loyalist seat to play');
+  }
+  const withoutRole = loyalists.filter(a => a.role === null);
+  const candidates = withoutRole.length > 0 ? withoutRole : loyalists;
+  return candidates[candidates.length - 1].id;
+}
+
+/**
+ * Scores a player's opening phase-one ballots. The expected count is what
+ * someone voting uniformly among the other active actors would score.
+ */
+export function summarisePlayerVotes(result: GameResult, playerId: number): PlayerVoteSummary {
+  const started = result.events[0];
+  if (started?.type !== 'game_started') {
+    throw new Error('The game has no event log to read the starting actors from');
+  }
+
+  const summary: PlayerVoteSummary = { votes: 0, traitorVotes: 0, expectedTraitorVotes: 0 };
+  let activeActors: Actor[] = started.actors;
+  for (const round of roundsFromEvents(result.events)) {
+    const ballot = round.phaseOneBallots[0]?.find(b => b.voterId === playerId);
+    if (ballot) {
+      const traitors = activeActors.filter(a => a.type === 'traitor');
+      summary.votes++;
+      summary.expectedTraitorVotes += traitors.length / (activeActors.length - 1);
+      if (traitors.some(a => a.id === ballot.targetId)) {
+        summary.traitorVotes++;
+      }
+    }
+    activeActors = round.remainingActors;
+  }
+  return summary;
+}
+
+/**
+ * Whether the player's side won. The player plays for the faction their seat
+ * started in, so a recruited player still wins only with the loyalists.
+ */
+export function playerWon(result: GameResult, playerId: number): boolean {
+  const started = result.events[0];
+  if (started?.type !== 'game_started') {
+    throw new Error('The game has no event log to read the starting actors from');
+  }
+  const seat = started.actors.find(a => a.id === playerId);
+  if (!seat) {
+    throw new Error(`Actor ${playerId} is not in this game`);
+  }
+  return OUTCOMES[result.outcome].winner === seat.type;
+}
+
+/**
+ * Simulates `games` games of `config` for each loyalist strategy it allows,
+ * with every loyalist playing that strategy, and reports how often the
+ * loyalists won. Each strategy's games go through runSimulationPool on up to
+ * `workerCount` workers and are only folded into statistics, so the page
+ * stays responsive while they play.
+ */
+export function compareWithStrategies(config: GameConfig, games: number, seed: number, workerCount: number,
+  createWorker: () => SimulationWorker): PooledStrategyComparison {
+
+  const ruleSet = RULE_SETS[config.simulationType];
+  const strategies = listStrategies('loyalist', ruleSet.usesInfluence)
+    .filter(s => ruleSet.loyalistStrategy === null || s.id === ruleSet.loyalistStrategy);
+  const runs = strategies.map(strategy => runSimulationPool(games, { ...config, gameType: strategy.id }, seed,
+    { sampleSize: 0, filter: null }, workerCount, createWorker, () => {}));
+  const cancel = () => runs.forEach(run => run.cancel());
+
+  const done = Promise.all(runs.map(run => run.done)).then(
+    results => results.some(result => result.cancelled) ? null : results.map((result, i) => ({
+      strategy: strategies[i].id,
+      label: strategies[i].label,
+      loyalistWinRate: winRate(result.statistics, 'loyalist')
+    })),
+    (error: Error) => {
+      // One failed strategy stops the rest
+      cancel();
+      throw error;
+    });
+  return { done, cancel };
+}
@@ -0,0 +1,85 @@
+import { describe, it, expect } from 'vitest'
+import { SeededRandom, deriveSeed, createSeed } from './random'
+
+describe('SeededRandom', () => {
+  it('should produce the same sequence for the same seed', () => {
+    const a = new SeededRandom(1234)
+    const b = new SeededRandom(1234)
+
+    for (let i = 0; i < 100; i++) {
+      expect(a.next()).toBe(b.next())
+    }
+  })
+
+  it('should produce different sequences for different seeds', () => {
+    const a = new SeededRandom(1)
+    const b = new SeededRandom(2)
+    const seqA = Array.from({ length: 10 }, () => a.next())
+    const seqB = Array.from({ length: 10 }, () => b.next())
+
+    expect(seqA).not.toEqual(seqB)
+  })
+
+  it('should return floats in [0, 1)', () => {
+    const random = new SeededRandom(99)
+
+    for (let i = 0; i < 1000; i++) {
+      const value = random.next()
+      expect(value).toBeGreaterThanOrEqual(0)
+      expect(value).toBeLessThan(1)
+    }
+  })
+
+  it('should return integers in [0, max) from nextInt', () => {
+    const random = new SeededRandom(7)
+    const seen = new Set<number>()
+
+    for (let i = 0; i < 500; i++) {
+      const value = random.nextInt(5)
+      expect(Number.isInteger(value)).toBe(true)
+      expect(value).toBeGreaterThanOrEqual(0)
+      expect(value).toBeLessThan(5)
+      seen.add(value)
+    }
+
+    expect(seen.size).toBe(5)
+  })
+
+  it('should pick elements of the array from choice', () => {
+    const random = new SeededRandom(3)
+    const items = ['a', 'b', 'c']
+
+    for (let i = 0; i < 50; i++) {
+      expect(items).toContain(random.choice(items))
+    }
+  })
+
+  it('should normalise the seed to an unsigned 32-bit integer', () => {
+    expect(new SeededRandom(-1).seed).toBe(4294967295)
+    expect(new SeededRandom(5).seed).toBe(5)
+  })
+})
+
+describe('deriveSeed', () => {
+  it('should be deterministic', () => {
+    expect(deriveSeed(42, 7)).toBe(deriveSeed(42, 7))
+  })
+
+  it('should give different seeds for different game IDs', () => {
+    const seeds = new Set(Array.from({ length: 1000 }, (_, id) => deriveSeed(42, id)))
+    expect(seeds.size).toBe(1000)
+  })
+
+  it('should give different seeds for different base seeds', () => {
+    expect(deriveSeed(1, 1)).not.toBe(deriveSeed(2, 1))
+  })
+})
+
+describe('createSeed', () => {
+  it('should return an unsigned 32-bit integer', () => {
+    const seed = createSeed()
+    expect(Number.isInteger(seed)).toBe(true)
+    expect(seed).toBeGreaterThanOrEqual(0)
+    expect(seed).toBeLessThan(4294967296)
+  })
+})
@@ -0,0 +1,54 @@
+import type { RandomSource } from './interfaces';
+
+/**
+ * Seeded pseudo-random number generator (mulberry32).
+ *
+ * Every random decision in a game is drawn from one of these, so a game can
+ * be replayed exactly from the seed recorded on its GameResult.
+ */
+export class SeededRandom implements RandomSource {
+  public readonly seed: number;
+  private state: number;
+
+  constructor(seed: number) {
+    this.seed = seed >>> 0;
+    this.state = this.seed;
+  }
+
+  /** Returns a float in [0, 1). */
+  public next(): number {
+    this.state = (this.state + 0x6d2b79f5) >>> 0;
+    let t = this.state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  }
+
+  /** Returns an integer in [0, max). */
+  public nextInt(max: number): number {
+    return Math.floor(this.next() * max);
+  }
+
+  public choice<T>(items: readonly T[]): T {
+    return items[this.nextInt(items.length)];
+  }
+}
+
+/**
+ * Derives the seed for one game of a simulation from the simulation seed and
+ * the game's ID, so a game's seed does not depend on how the run was batched.
+ */
+export function deriveSeed(baseSeed: number, gameId: number): number {
+  let h = (baseSeed ^ Math.imul(gameId, 0x9e3779b1)) >>> 0;
+  h = Math.imul(h ^ (h >>> 16), 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 13), 0xc2b2ae35);
+  return (h ^ (h >>> 16)) >>> 0;
+}
+
+/**
+ * Picks a fresh seed for callers that have not been given one (e.g. the UI's
+ * "new seed" button). This is the only place Math.random() is used.
+ */
+export function createSeed(): number {
+  return Math.floor(Math.random() * 4294967296) >>> 0;
+}
@@ -0,0 +1,167 @@
+import { describe, it, expect } from 'vitest'
+import { replayEvents, resultFromEvents, roundsFromEvents } from './replay'
+import { VotingGame } from './voting-game'
+import { SeededRandom } from './random'
+import { makeGameConfig } from '../test/game-config'
+import type { GameConfig, GameEvent } from './interfaces'
+
+const configs: Record<string, GameConfig> = {
+  default: makeGameConfig({}),
+  'all one type with re-votes': makeGameConfig({ loyalistCount: 8, traitorCount: 2, endCondition: 'all_one_type' }),
+  'influence': makeGameConfig({ loyalistCount: 6, traitorCount: 2, simulationType: 'influence', endCondition: 'all_one_type', influenceUpdate: { banishedLoyalistPenalty: 5, banishedTraitorReward: 5, decayRate: 0.1 } }),
+  'roles and recruitment': makeGameConfig({
+    loyalistCount: 8,
+    traitorCount: 2,
+    endCondition: 'all_one_type',
+    roles: { seer: 1, protector: 2 },
+    recruitment: { triggers: ['below_threshold'], traitorThreshold: 3 },
+    phaseTwo: { removalsPerRound: 2, removalProbability: 0.7, skipRounds: [2], targeting: null }
+  }),
+  'third factions and a round cap': makeGameConfig({ loyalistCount: 6, traitorCount: 2, factions: { neutral: 1, jester: 1 }, maxRounds: 2 }),
+  'hidden reveals': makeGameConfig({ loyalistCount: 7, traitorCount: 2, endCondition: 'all_one_type', reveal: { policy: 'probabilistic', probability: 0.5 } }),
+  'end-of-round reveals': makeGameConfig({ loyalistCount: 7, traitorCount: 2, endCondition: 'all_one_type', reveal: { policy: 'end_of_round', probability: 1 } }),
+  'chair': makeGameConfig({ loyalistCount: 7, traitorCount: 2, endCondition: 'all_one_type', tieBreak: { policy: 'chair', maxRevotes: 0, chairId: 7 } }),
+  'banish all': makeGameConfig({ loyalistCount: 7, traitorCount: 2, endCondition: 'all_one_type', tieBreak: { policy: 'banish_all', maxRevotes: 0, chairId: 0 } })
+}
+
+/** Plays a game, keeping the rounds the engine recorded alongside its result. */
+function play(config: GameConfig, seed: number) {
+  const game = new VotingGame(config, new SeededRandom(seed))
+  const result = game.run()
+  return { result, rounds: game.getState().rounds }
+}
+
+function eventsOfType<T extends GameEvent['type']>(events: GameEvent[], type: T): Extract<GameEvent, { type: T }>[] {
+  return events.filter((event): event is Extract<GameEvent, { type: T }> => event.type === type)
+}
+
+describe('event log', () => {
+  it('should start with the setup and end with the outcome', () => {
+    const result = new VotingGame(configs.default, new SeededRandom(1)).run()
+    const first = result.events[0]
+    const last = result.events[result.events.length - 1]
+
+    expect(first.type).toBe('game_started')
+    expect(first.type === 'game_started' && first.actors).toHaveLength(7)
+    expect(last).toEqual({ type: 'game_ended', round: result.totalRounds, outcome: result.outcome, thirdFactionWinners: [] })
+  })
+
+  it('should log every ballot and removal', () => {
+    for (let seed = 1; seed <= 20; seed++) {
+      const { result, rounds } = play(configs['roles and recruitment'], seed)
+      const ballots = rounds.flatMap(round => round.phaseOneBallots.flat())
+      const votes = [...eventsOfType(result.events, 'vote_cast'), ...eventsOfType(result.events, 'deciding_vote_cast')]
+
+      expect(votes).toHaveLength(ballots.length)
+      expect(eventsOfType(result.events, 'banished').map(e => e.actorId)).toEqual(rounds.flatMap(r => r.phaseOneRemoved))
+      expect(eventsOfType(result.events, 'murdered').map(e => e.actorId)).toEqual(rounds.flatMap(r => r.phaseTwoRemoved))
+      expect(eventsOfType(result.events, 'saved').map(e => e.actorId)).toEqual(rounds.flatMap(r => r.phaseTwoSaved))
+      expect(eventsOfType(result.events, 'converted').map(e => e.actorId))
+        .toEqual(rounds.map(r => r.phaseTwoRecruited).filter(id => id !== null))
+    }
+  })
+
+  it('should log each tie and re-vote', () => {
+    const games = Array.from({ length: 30 }, (_, i) => play(configs['all one type with re-votes'], i + 1))
+    const tiedRounds = games.flatMap(({ result, rounds }) => rounds.filter(round => round.tieBreak).map(round => ({ result, round })))
+    expect(tiedRounds.length).toBeGreaterThan(0)
+
+    for (const { result, round } of tiedRounds) {
+      const roundEvents = result.events.filter(e => 'round' in e && e.round === round.roundNumber)
+
+      expect(eventsOfType(roundEvents, 'tie_detected').length).toBeGreaterThan(0)
+      expect(eventsOfType(roundEvents, 'revote_started')).toHaveLength(round.tieBreak!.revotes)
+      expect(eventsOfType(roundEvents, 'tie_broken')).toEqual([{ type: 'tie_broken', round: round.roundNumber, record: round.tieBreak }])
+    }
+  })
+
+  it('should be plain data that survives a JSON round trip', () => {
+    const result = new VotingGame(configs.influence, new SeededRandom(3)).run()
+    const events = JSON.parse(JSON.stringify(result.events)) as GameEvent[]
+
+    expect(events).toEqual(result.events)
+    expect(resultFromEvents(events)).toEqual(result)
+  })
+})
+
+describe('roundsFromEvents', () => {
+  for (const [name, config] of Object.entries(configs)) {
+    it(`should rebuild the rounds the engine recorded in games with ${name}`, () => {
+      for (let seed = 1; seed <= 8; seed++) {
+        const { result, rounds } = play(config, seed)
+
+        expect(roundsFromEvents(result.events)).toEqual(rounds)
+      }
+    })
+  }
+
+  it('should store each influence snapshot once, in the event log', () => {
+    const game = new VotingGame(configs.influence, new SeededRandom(2))
+    const { events } = game.run()
+    const snapshots = eventsOfType(events, 'influence_updated').map(e => e.influence)
+
+    expect(game.getState().rounds.map(round => round.influence)).toEqual(snapshots)
+    game.getState().rounds.forEach((round, i) => expect(round.influence).toBe(snapshots[i]))
+  })
+})
+
+describe('resultFromEvents', () => {
+  for (const [name, config] of Object.entries(configs)) {
+    it(`should rebuild the result of games with ${name}`, () => {
+      for (let seed = 1; seed <= 8; seed++) {
+        const result = new VotingGame(config, new SeededRandom(seed)).run()
+
+        expect(resultFromEvents(result.events)).toEqual(result)
+      }
+    })
+  }
+
+  it('should rebuild a game that ended before its first round', () => {
+    const result = new VotingGame(makeGameConfig({ traitorCount: 0, endCondition: 'all_one_type' }), new SeededRandom(1)).run()
+
+    expect(result.events.map(e => e.type)).toEqual(['game_started', 'game_ended'])
+    expect(resultFromEvents(result.events)).toEqual(result)
+  })
+
+  it('should refuse a log that stops before the game ends', () => {
+    const { events } = new VotingGame(configs.default, new SeededRandom(1)).run()
+
+    expect(() => resultFromEvents(events.slice(0, -1))).toThrow('does not reach the end')
+  })
+
+  it('should refuse a log that does not start with the setup', () => {
+    const { events } = new VotingGame(configs.default, new SeededRandom(1)).run()
+
+    expect(() => resultFromEvents(events.slice(1))).toThrow('game_started')
+  })
+})
+
+describe('replayEvents', () => {
+  for (const [name, config] of Object.entries(configs)) {
+    it(`should match the engine's state after every phase of games with ${name}`, () => {
+      for (let seed = 1; seed <= 4; seed++) {
+        const game = new VotingGame(config, new SeededRandom(seed))
+        expect(replayEvents(game.getEvents())).toEqual(game.getState())
+
+        while (!game.isFinished()) {
+          const state = game.stepPhase()
+          expect(replayEvents(game.getEvents())).toEqual(state)
+        }
+      }
+    })
+  }
+
+  it('should rebuild the state partway through a phase', () => {
+    const { events } = new VotingGame(configs['all one type with re-votes'], new SeededRandom(6)).run()
+    const firstBanishment = events.findIndex(e => e.type === 'banished')
+    const state = replayEvents(events.slice(0, firstBanishment))
+
+    expect(state.currentRound).toBe(1)
+    expect(state.nextPhase).toBe('phase_one')
+    expect(state.actors.every(a => a.status === 'active')).toBe(true)
+
+    const afterBanishment = replayEvents(events.slice(0, firstBanishment + 1))
+    const banished = events[firstBanishment]
+    expect(banished.type === 'banished' && afterBanishment.actors[banished.actorId].status).toBe('removed')
+  })
+})
@@ -0,0 +1,217 @@
+import type {
+  Actor,
+  ActorRole,
+  Ballot,
+  GameEvent,
+  GamePhase,
+  GameOutcome,
+  GameResult,
+  GameStartedEvent,
+  GameState,
+  PhaseOneResolution,
+  RoundResult,
+  ThirdFaction,
+  TieBreakRecord
+} from './interfaces';
+
+/**
+ * Rebuilds a game from its event log, one event at a time, tracking the same
+ * state the engine does.
+ */
+class Replay {
+  private events: GameEvent[];
+  private started: GameStartedEvent | null = null;
+  private actors: Actor[] = [];
+  private rounds: RoundResult[] = [];
+  private currentRound = 0;
+  private nextPhase: GamePhase = 'phase_one';
+  private revealed: Set<number> = new Set();
+  private influence: number[][] | null = null;
+  private outcome: GameOutcome | null = null;
+  private thirdFactionWinners: ThirdFaction[] = [];
+  private pendingPhaseOne: PhaseOneResolution | null = null;
+
+  // The round in progress
+  private ballots: Ballot[][] = [];
+  private votes: Map<number, number> = new Map();
+  private banished: number[] = [];
+  private tieBreak: TieBreakRecord | null = null;
+  private recruited: number | null = null;
+  private saved: number[] = [];
+  private murdered: number[] = [];
+
+  constructor(events: readonly GameEvent[]) {
+    this.events = [...events];
+    this.events.forEach(event => this.apply(event));
+  }
+
+  /** Replaces an actor rather than changing it, so recorded rounds can share actor objects. */
+  private updateActor(id: number, changes: Partial<Actor>): void {
+    if (!this.actors.some(a => a.id === id)) {
+      throw new Error(`Unknown actor ${id}`);
+    }
+    this.actors = this.actors.map(a => (a.id === id ? { ...a, ...changes } : a));
+  }
+
+  private apply(event: GameEvent): void {
+    if (!this.started && event.type !== 'game_started') {
+      throw new Error('The event log must start with game_started');
+    }
+
+    switch (event.type) {
+      case 'game_started':
+        this.started = event;
+        this.actors = event.actors.map(a => ({ ...a }));
+        this.influence = event.influence;
+        break;
+      case 'round_started':
+        this.currentRound = event.round;
+        this.ballots = [[]];
+        this.votes = new Map();
+        this.banished = [];
+        this.tieBreak = null;
+        this.recruited = null;
+        this.saved = [];
+        this.murdered = [];
+        break;
+      case 'vote_cast':
+        this.ballots[this.ballots.length - 1].push({ voterId: event.voterId, targetId: event.targetId });
+        this.votes.set(event.targetId, (this.votes.get(event.targetId) || 0) + 1);
+        break;
+      case 'tie_detected':
+        break;
+      case 'revote_started':
+        this.ballots.push([]);
+        this.votes = new Map();
+        break;
+      case 'deciding_vote_cast':
+        // A deciding vote is kept with the ballots but not counted in the tally
+        this.ballots.push([{ voterId: event.voterId, targetId: event.targetId }]);
+        break;
+      case 'banished':
+        this.updateActor(event.actorId, { status: 'removed' });
+        this.banished.push(event.actorId);
+        break;
+      case 'tie_broken':
+        this.tieBreak = event.record;
+        break;
+      case 'influence_updated':
+        this.influence = event.influence;
+        break;
+      case 'phase_ended':
+        if (event.phase === 'phase_one') {
+          this.pendingPhaseOne = { votes: this.votes, ballots: this.ballots, removedIds: this.banished, tieBreak: this.tieBreak };
+          this.nextPhase = 'phase_two';
+        } else {
+          this.pendingPhaseOne = null;
+        }
+        break;
+      case 'converted':
+        this.updateActor(event.actorId, { type: 'traitor', role: null });
+        this.recruited = event.actorId;
+        break;
+      case 'saved':
+        this.saved.push(event.actorId);
+        break;
+      case 'murdered':
+        this.updateActor(event.actorId, { status: 'removed' });
+        this.murdered.push(event.actorId);
+        break;
+      case 'revealed':
+        this.revealed.add(event.actorId);
+        break;
+      case 'round_ended':
+        this.rounds.push({
+          roundNumber: event.round,
+          phaseOneVotes: this.votes,
+          phaseOneBallots: this.ballots,
+          influence: this.influence,
+          phaseOneRemoved: this.banished,
+          tieBreak: this.tieBreak,
+          phaseTwoRemoved: this.murdered,
+          phaseTwoRecruited: this.recruited,
+          phaseTwoSaved: this.saved,
+          remainingActors: this.actors.filter(a => a.status === 'active'),
+          revealed: [...this.revealed].sort((x, y) => x - y)
+        });
+        this.pendingPhaseOne = null;
+        this.nextPhase = 'phase_one';
+        break;
+      case 'game_ended':
+        this.outcome = event.outcome;
+        this.thirdFactionWinners = event.thirdFactionWinners;
+        this.nextPhase = 'finished';
+        break;
+      default: {
+        const unhandled: never = event;
+        throw new Error(`Unsupported game event: ${JSON.stringify(unhandled)}`);
+      }
+    }
+  }
+
+  public state(): GameState {
+    return {
+      currentRound: this.currentRound,
+      nextPhase: this.nextPhase,
+      actors: this.actors.map(a => ({ ...a })),
+      rounds: [...this.rounds],
+      pendingPhaseOne: this.pendingPhaseOne,
+      revealed: [...this.revealed].sort((x, y) => x - y),
+      outcome: this.outcome
+    };
+  }
+
+  public completedRounds(): RoundResult[] {
+    return this.rounds;
+  }
+
+  public result(): GameResult {
+    if (!this.started || this.outcome === null) {
+      throw new Error('The event log does not reach the end of the game');
+    }
+
+    const roles = new Map<number, ActorRole>();
+    const factions = new Map<number, ThirdFaction>();
+    for (const { id, type, role } of this.started.actors) {
+      if (role) {
+        roles.set(id, role);
+      }
+      if (type !== 'loyalist' && type !== 'traitor') {
+        factions.set(id, type);
+      }
+    }
+
+    return {
+      totalRounds: this.currentRound,
+      outcome: this.outcome,
+      thirdFactionWinners: this.thirdFactionWinners,
+      endCondition: this.started.endCondition,
+      simulationType: this.started.simulationType,
+      traitorPolicy: this.started.traitorPolicy,
+      phaseTwoTargeting: this.started.phaseTwoTargeting,
+      roles,
+      factions,
+      seed: this.started.seed,
+      events: this.events
+    };
+  }
+}
+
+/**
+ * The state of a game after the given events, as VotingGame.getState() would
+ * have reported it. Pass a prefix of a game's log to step back to any point
+ * in it, including mid-phase.
+ */
+export function replayEvents(events: readonly GameEvent[]): GameState {
+  return new Replay(events).state();
+}
+
+/** The rounds completed by the end of the given events, as the engine recorded them. */
+export function roundsFromEvents(events: readonly GameEvent[]): RoundResult[] {
+  return new Replay(events).completedRounds();
+}
+
+/** Rebuilds a finished game's result from its event log. The game's ID is not part of the log. */
+export function resultFromEvents(events: readonly GameEvent[]): GameResult {
+  return new Replay(events).result();
+}
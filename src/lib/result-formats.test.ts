@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest'
+import { RESULT_FORMATS, resultFormatFor } from './result-formats'
+import { runSimulation } from './voting-game'
+import { makeGameConfig } from '../test/game-config'
+import type { ResultFormat } from './interfaces'
+
+const games = runSimulation(3, makeGameConfig({ loyalistCount: 6, traitorCount: 2, roles: { seer: 1, protector: 0 } }), 4)
+
+function write(format: ResultFormat): string {
+  const { header, separator, footer, formatGame } = RESULT_FORMATS[format]
+  return header + games.map(formatGame).join(separator) + footer
+}
+
+describe('RESULT_FORMATS', () => {
+  it('should write every game as a JSON array, with maps as objects', () => {
+    const parsed = JSON.parse(write('json'))
+
+    expect(parsed.map((game: { id: number }) => game.id)).toEqual([1, 2, 3])
+    expect(parsed[0].roles).toEqual({ 0: 'seer' })
+    expect(parsed[0].events).toEqual(games[0].events)
+  })
+
+  it('should write one JSON game per line', () => {
+    const lines = write('ndjson').trimEnd().split('\n')
+
+    expect(lines).toHaveLength(3)
+    expect(lines.map(line => JSON.parse(line).totalRounds)).toEqual(games.map(g => g.totalRounds))
+  })
+
+  it('should write one CSV row per game', () => {
+    const rows = write('csv').trimEnd().split('\n')
+
+    expect(rows[0]).toBe('id,seed,rounds,outcome,winner,also_won')
+    expect(rows.slice(1)).toEqual(games.map(g =>
+      `${g.id},${g.seed},${g.totalRounds},${g.outcome},${g.outcome === 'traitor_removed' ? 'loyalist' : 'traitor'},`))
+  })
+})
+
+describe('resultFormatFor', () => {
+  it('should go by the file extension', () => {
+    expect(resultFormatFor('out/games.json')).toBe('json')
+    expect(resultFormatFor('games.ndjson')).toBe('ndjson')
+    expect(resultFormatFor('GAMES.CSV')).toBe('csv')
+    expect(resultFormatFor('games.tsv')).toBeNull()
+  })
+})
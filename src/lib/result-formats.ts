@@ -0,0 +1,45 @@
+import type { GameResult, ResultFormat, ResultFormatDefinition } from './interfaces';
+import { OUTCOMES } from './factions';
+
+/** The whole game as JSON, with its role and faction maps as objects keyed by actor ID. */
+function gameToJson(game: GameResult): string {
+  return JSON.stringify(game, (_key, value) => value instanceof Map ? Object.fromEntries(value) : value);
+}
+
+export const RESULT_FORMATS: Record<ResultFormat, ResultFormatDefinition> = {
+  json: {
+    id: 'json',
+    label: 'JSON',
+    extension: '.json',
+    header: '[\n',
+    separator: ',\n',
+    footer: '\n]\n',
+    formatGame: gameToJson
+  },
+  ndjson: {
+    id: 'ndjson',
+    label: 'Newline-delimited JSON',
+    extension: '.ndjson',
+    header: '',
+    separator: '\n',
+    footer: '\n',
+    formatGame: gameToJson
+  },
+  // One row per game, without its history
+  csv: {
+    id: 'csv',
+    label: 'CSV',
+    extension: '.csv',
+    header: 'id,seed,rounds,outcome,winner,also_won\n',
+    separator: '\n',
+    footer: '\n',
+    formatGame: game => [game.id ?? '', game.seed, game.totalRounds, game.outcome, OUTCOMES[game.outcome].winner ?? '',
+      game.thirdFactionWinners.join(' ')].join(',')
+  }
+};
+
+/** The format a file name's extension asks for, or null if it matches none. */
+export function resultFormatFor(fileName: string): ResultFormat | null {
+  const format = Object.values(RESULT_FORMATS).find(f => fileName.toLowerCase().endsWith(f.extension));
+  return format ? format.id : null;
+}
@@ -0,0 +1,25 @@
+import type { RevealPolicy, RevealPolicyDefinition } from './interfaces';
+
+/** Labels for the reveal policies; the engine applies them in VotingGame.revealRemovals. */
+export const REVEAL_POLICIES: Record<RevealPolicy, RevealPolicyDefinition> = {
+  immediate: {
+    id: 'immediate',
+    label: 'Immediately',
+    description: 'A removed actor\'s type is revealed as soon as they are removed'
+  },
+  end_of_round: {
+    id: 'end_of_round',
+    label: 'End of Round',
+    description: 'The types of the round\'s removed actors are revealed once the round ends'
+  },
+  never: {
+    id: 'never',
+    label: 'Never',
+    description: 'Removed actors\' types are never revealed to loyalists'
+  },
+  probabilistic: {
+    id: 'probabilistic',
+    label: 'Sometimes',
+    description: 'Each removed actor\'s type is revealed with a fixed probability'
+  }
+};
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest'
+import { ROLES } from './roles'
+import { VotingGame, runSimulation } from './voting-game'
+import { roundsFromEvents } from './replay'
+import { SeededRandom } from './random'
+import { makeGameConfig } from '../test/game-config'
+import { makeView } from '../test/game-view'
+import type { Actor, VisibleActor, VoterStrategy } from './interfaces'
+
+const actors: Actor[] = [
+  { id: 0, type: 'loyalist', status: 'active', role: 'seer' },
+  { id: 1, type: 'loyalist', status: 'active', role: null },
+  { id: 2, type: 'loyalist', status: 'active', role: null },
+  { id: 3, type: 'traitor', status: 'active', role: null }
+]
+
+// Role holders are loyalists, so no one's type is visible to them
+const hidden: VisibleActor[] = actors.map(a => ({ ...a, type: null }))
+const trueType = (actorId: number) => actors[actorId].type
+
+// Abstains, so a null ballot shows the seer fell back to its faction strategy
+const abstain: VoterStrategy = { castBallot: () => null }
+
+describe('seer', () => {
+  it('should vote for the traitor once inspected and keep voting for them', () => {
+    const voter = ROLES.seer.createVoter(abstain, trueType)
+    const random = new SeededRandom(3)
+    const ballots = Array.from({ length: 6 }, (_, round) => voter.castBallot(actors[0], makeView(hidden, { roundNumber: round + 1, startingTraitorCount: 1, random })))
+    const firstKnown = ballots.indexOf(3)
+
+    // Three others to inspect, one per round, so the traitor is known by round 3
+    expect(firstKnown).toBeGreaterThanOrEqual(0)
+    expect(firstKnown).toBeLessThan(3)
+    expect(ballots.slice(0, firstKnown).every(b => b === null)).toBe(true)
+    expect(ballots.slice(firstKnown).every(b => b === 3)).toBe(true)
+  })
+
+  it('should only inspect once per round', () => {
+    const voter = ROLES.seer.createVoter(abstain, trueType)
+    const random = new SeededRandom(3)
+    const view = makeView(hidden, { startingTraitorCount: 1, random })
+    const first = voter.castBallot(actors[0], view)
+
+    for (let i = 0; i < 10; i++) {
+      expect(voter.castBallot(actors[0], view)).toBe(first)
+    }
+  })
+
+  it('should never protect anyone', () => {
+    expect(ROLES.seer.chooseProtected(actors[0], makeView(hidden, { startingTraitorCount: 1 }))).toBeNull()
+  })
+})
+
+describe('protector', () => {
+  it('should vote with the faction strategy', () => {
+    expect(ROLES.protector.createVoter(abstain, trueType)).toBe(abstain)
+  })
+
+  it('should shield an active actor other than themselves', () => {
+    for (let seed = 0; seed < 30; seed++) {
+      expect([0, 2, 3]).toContain(ROLES.protector.chooseProtected(actors[1], makeView(hidden, { startingTraitorCount: 1, random: new SeededRandom(seed) })))
+    }
+  })
+})
+
+describe('roles in the engine', () => {
+  const noRoles = makeGameConfig({}).roles
+
+  it('should give roles to the lowest-ID loyalists and record them', () => {
+    const config = makeGameConfig({ loyalistCount: 6, roles: { seer: 1, protector: 2 } })
+    const result = new VotingGame(config, new SeededRandom(1)).run()
+
+    expect(result.roles).toEqual(new Map([[0, 'seer'], [1, 'protector'], [2, 'protector']]))
+  })
+
+  it('should play the same games as before when no roles are assigned', () => {
+    const config = makeGameConfig({ loyalistCount: 5, traitorCount: 2, roles: noRoles })
+    const result = new VotingGame(config, new SeededRandom(1)).run()
+
+    expect(result.roles.size).toBe(0)
+    expect(roundsFromEvents(result.events).map(r => [r.phaseOneRemoved, r.phaseTwoRemoved])).toEqual([[[4], [0]], [[1], [2]], [[3], []]])
+  })
+
+  it('should have protectors save phase-two targets', () => {
+    const config = makeGameConfig({ loyalistCount: 6, traitorCount: 2, endCondition: 'all_one_type', roles: { seer: 0, protector: 3 } })
+    const results = runSimulation(50, config, 4)
+    const saves = results.flatMap(r => roundsFromEvents(r.events).flatMap(round => round.phaseTwoSaved))
+
+    expect(saves.length).toBeGreaterThan(0)
+    results.forEach(result => {
+      roundsFromEvents(result.events).forEach(round => {
+        round.phaseTwoSaved.forEach(id => {
+          expect(round.phaseTwoRemoved).not.toContain(id)
+          expect(round.remainingActors.some(a => a.id === id)).toBe(true)
+        })
+      })
+    })
+  })
+
+  it('should make seers help banish traitors', () => {
+    const banishRate = (seers: number) => {
+      const config = makeGameConfig({ loyalistCount: 10, traitorCount: 2, roles: { seer: seers, protector: 0 } })
+      const results = runSimulation(300, config, 21)
+      return results.filter(r => r.outcome === 'traitor_removed').length / results.length
+    }
+
+    expect(banishRate(5)).toBeGreaterThan(banishRate(0))
+  })
+
+  it('should reject more roles than loyalists', () => {
+    const config = makeGameConfig({ loyalistCount: 2, roles: { seer: 2, protector: 1 } })
+
+    expect(() => new VotingGame(config, new SeededRandom(1))).toThrow('more roles than loyalists')
+  })
+
+  it('should reject a negative role count', () => {
+    const config = makeGameConfig({ roles: { seer: -1, protector: 0 } })
+
+    expect(() => new VotingGame(config, new SeededRandom(1))).toThrow('non-negative integer')
+  })
+})
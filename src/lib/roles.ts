@@ -0,0 +1,71 @@
+import type { Actor, ActorRole, ActorType, GameView, RoleDefinition, VoterStrategy } from './interfaces';
+
+/**
+ * Each round, privately learn the true type of one active actor not yet
+ * inspected. Vote for a known traitor when one is active; otherwise vote
+ * with the loyalist strategy.
+ */
+class SeerVoter implements VoterStrategy {
+  private inspectedRound = -1;
+  private inspected: Set<number> = new Set();
+  private knownTraitors: Set<number> = new Set();
+  private factionStrategy: VoterStrategy;
+  private trueType: (actorId: number) => ActorType;
+
+  constructor(factionStrategy: VoterStrategy, trueType: (actorId: number) => ActorType) {
+    this.factionStrategy = factionStrategy;
+    this.trueType = trueType;
+  }
+
+  public castBallot(voter: Readonly<Actor>, view: GameView): number | null {
+    if (this.inspectedRound !== view.roundNumber) {
+      this.inspectedRound = view.roundNumber;
+      this.inspect(voter, view);
+    }
+
+    const knownTraitor = view.activeActors.find(a => this.knownTraitors.has(a.id));
+    if (knownTraitor) {
+      return knownTraitor.id;
+    }
+    return this.factionStrategy.castBallot(voter, view);
+  }
+
+  private inspect(voter: Readonly<Actor>, view: GameView): void {
+    const uninspected = view.activeActors.filter(a => a.id !== voter.id && !this.inspected.has(a.id));
+    if (uninspected.length === 0) {
+      return;
+    }
+
+    const target = view.random.choice(uninspected);
+    this.inspected.add(target.id);
+    if (this.trueType(target.id) === 'traitor') {
+      this.knownTraitors.add(target.id);
+    }
+  }
+}
+
+/** Shield a random active actor other than yourself. */
+function protectRandomActor(holder: Readonly<Actor>, view: GameView): number | null {
+  const candidates = view.activeActors.filter(a => a.id !== holder.id);
+  if (candidates.length === 0) {
+    return null;
+  }
+  return view.random.choice(candidates).id;
+}
+
+export const ROLES: Record<ActorRole, RoleDefinition> = {
+  seer: {
+    id: 'seer',
+    label: 'Seer',
+    description: 'Learns one actor\'s true type each round and votes for known traitors',
+    createVoter: (factionStrategy, trueType) => new SeerVoter(factionStrategy, trueType),
+    chooseProtected: () => null
+  },
+  protector: {
+    id: 'protector',
+    label: 'Protector',
+    description: 'Shields one other actor from phase-two removal each night',
+    createVoter: (factionStrategy) => factionStrategy,
+    chooseProtected: protectRandomActor
+  }
+};
@@ -0,0 +1,99 @@
+import { describe, it, expect } from 'vitest'
+import { RULE_SETS } from './rule-sets'
+import { PHASE_TWO_TARGETING } from './phase-two'
+import { getStrategy } from './strategies'
+import { VotingGame } from './voting-game'
+import { InfluenceMatrix } from './influence'
+import { roundsFromEvents } from './replay'
+import { SeededRandom } from './random'
+import { makeGameConfig } from '../test/game-config'
+import { makeView } from '../test/game-view'
+import type { Actor, InfluenceScores } from './interfaces'
+
+const actors: Actor[] = [
+  { id: 0, type: 'loyalist', status: 'active', role: null },
+  { id: 1, type: 'loyalist', status: 'active', role: null },
+  { id: 2, type: 'loyalist', status: 'active', role: null },
+  { id: 3, type: 'traitor', status: 'active', role: null }
+]
+
+// Influence of `from` over `to` is 10 * from + to: every voter has the least
+// influence over the lowest IDs, and higher IDs hold the most influence.
+const fixedInfluence: InfluenceScores = {
+  get: (fromId, toId) => (fromId === toId ? 0 : 10 * fromId + toId)
+}
+
+describe('random rule set', () => {
+  const ruleSet = RULE_SETS.random
+
+  it('should use the configured strategies and no influence', () => {
+    expect(ruleSet.usesInfluence).toBe(false)
+    expect(ruleSet.loyalistStrategy).toBeNull()
+    expect(ruleSet.traitorStrategy).toBeNull()
+    expect(ruleSet.phaseTwoTargeting).toBe('random_loyalist')
+  })
+
+  it('should remove an active loyalist in phase two', () => {
+    const targeting = PHASE_TWO_TARGETING[ruleSet.phaseTwoTargeting]
+
+    for (let seed = 0; seed < 20; seed++) {
+      const view = makeView(actors, { random: new SeededRandom(seed) })
+      expect([0, 1, 2]).toContain(targeting.selectTarget(view))
+    }
+  })
+
+  it('should return null in phase two when no loyalists remain', () => {
+    const traitorsOnly = actors.filter(a => a.type === 'traitor')
+    const view = makeView(actors, { activeActors: traitorsOnly })
+
+    expect(PHASE_TWO_TARGETING[ruleSet.phaseTwoTargeting].selectTarget(view)).toBeNull()
+  })
+})
+
+describe('influence rule set', () => {
+  const ruleSet = RULE_SETS.influence
+
+  it('should override both strategies and use influence', () => {
+    expect(ruleSet.usesInfluence).toBe(true)
+    expect(ruleSet.loyalistStrategy).not.toBeNull()
+    expect(ruleSet.traitorStrategy).not.toBeNull()
+    expect(ruleSet.phaseTwoTargeting).toBe('most_influential_loyalist')
+  })
+
+  it('should make loyalists vote for the actor they have the lowest influence over', () => {
+    const strategy = getStrategy('loyalist', ruleSet.loyalistStrategy!).create()
+
+    expect(strategy.castBallot(actors[0], makeView(actors, { influence: fixedInfluence }))).toBe(1)
+    expect(strategy.castBallot(actors[1], makeView(actors, { influence: fixedInfluence }))).toBe(0)
+  })
+
+  it('should make traitors vote for the loyalist they have the lowest influence over', () => {
+    const strategy = getStrategy('traitor', ruleSet.traitorStrategy!).create()
+
+    expect(strategy.castBallot(actors[3], makeView(actors, { influence: fixedInfluence }))).toBe(0)
+  })
+
+  it('should remove the loyalist with the highest total influence in phase two', () => {
+    expect(PHASE_TWO_TARGETING[ruleSet.phaseTwoTargeting].selectTarget(makeView(actors, { influence: fixedInfluence }))).toBe(2)
+  })
+
+  it('should remove the loyalist the engine computes as most influential', () => {
+    const config = makeGameConfig({ loyalistCount: 6, traitorCount: 2, simulationType: 'influence', endCondition: 'all_one_type' })
+    const game = new VotingGame(config, new SeededRandom(11))
+    const result = game.run()
+
+    // The matrix is the first thing drawn from the game's random source
+    const gameActors: Actor[] = Array.from({ length: 8 }, (_, id) => ({
+      id,
+      type: id < 6 ? 'loyalist' as const : 'traitor' as const,
+      status: 'active' as const,
+      role: null
+    }))
+    const influence = new InfluenceMatrix(gameActors, new SeededRandom(11))
+    const firstRound = roundsFromEvents(result.events)[0]
+    const afterPhaseOne = gameActors.filter(a => !firstRound.phaseOneRemoved.includes(a.id))
+    const expected = PHASE_TWO_TARGETING[ruleSet.phaseTwoTargeting].selectTarget(makeView(gameActors, { activeActors: afterPhaseOne, influence }))
+
+    expect(firstRound.phaseTwoRemoved).toEqual([expected])
+  })
+})
@@ -0,0 +1,22 @@
+import type { RuleSet, SimulationType } from './interfaces';
+
+export const RULE_SETS: Record<SimulationType, RuleSet> = {
+  random: {
+    id: 'random',
+    label: 'Random Voting',
+    usesInfluence: false,
+    loyalistStrategy: null,
+    traitorStrategy: null,
+    revotesFollowStrategies: false,
+    phaseTwoTargeting: 'random_loyalist'
+  },
+  influence: {
+    id: 'influence',
+    label: 'Influence-Based',
+    usesInfluence: true,
+    loyalistStrategy: 'lowest_influence',
+    traitorStrategy: 'lowest_influence',
+    revotesFollowStrategies: true,
+    phaseTwoTargeting: 'most_influential_loyalist'
+  }
+};
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest'
+import { CHUNK_SIZE, runRetainedSimulation, runSimulationPool, simulateChunk } from './simulation-pool'
+import { calculateStatistics, runSimulation } from './voting-game'
+import { matchesFilter, summariseStatistics } from './statistics'
+import { makeGameConfig } from '../test/game-config'
+import type { GameConfig, GameRetention, SimulationChunk, SimulationWorker, SimulationWorkerMessage } from './interfaces'
+
+const config = makeGameConfig({ loyalistCount: 6, traitorCount: 2 })
+const keepAll: GameRetention = { sampleSize: Infinity, filter: null }
+
+/**
+ * Stands in for a Web Worker. Chunks are held until `deliver` is called, so
+ * tests choose the order they come back in.
+ */
+class FakeWorker implements SimulationWorker {
+  public onmessage: ((event: MessageEvent<SimulationWorkerMessage>) => void) | null = null
+  public onerror: ((event: ErrorEvent) => void) | null = null
+  public pending: SimulationChunk[] = []
+  public terminated = false
+
+  public postMessage(chunk: SimulationChunk): void {
+    this.pending.push(chunk)
+  }
+
+  public terminate(): void {
+    this.terminated = true
+  }
+
+  public deliver(): void {
+    const chunk = this.pending.shift()!
+    this.onmessage!(new MessageEvent('message', { data: simulateChunk(chunk) }))
+  }
+}
+
+function startPool(iterations: number, workerCount: number, retention: GameRetention = keepAll) {
+  const workers: FakeWorker[] = []
+  const progress: number[] = []
+  const run = runSimulationPool(iterations, config, 7, retention, workerCount, () => {
+    const worker = new FakeWorker()
+    workers.push(worker)
+    return worker
+  }, completed => progress.push(completed))
+  return { run, workers, progress }
+}
+
+describe('runSimulationPool', () => {
+  it('should give the same games as runSimulation whatever order the chunks finish in', async () => {
+    const iterations = CHUNK_SIZE * 4 + 30
+    const { run, workers, progress } = startPool(iterations, 3)
+
+    expect(workers).toHaveLength(3)
+    // Chunks 2, 1, 4 (the short one), 0, then 3
+    workers[2].deliver()
+    workers[1].deliver()
+    workers[1].deliver()
+    workers[0].deliver()
+    workers[2].deliver()
+
+    const { statistics, games, cancelled } = await run.done
+    const expected = runSimulation(iterations, config, 7)
+    expect(cancelled).toBe(false)
+    expect(games).toEqual(expected)
+    expect(statistics.games).toBe(iterations)
+    expect(summariseStatistics(statistics).mean).toBeCloseTo(calculateStatistics(expected).mean, 10)
+    expect(progress).toEqual([100, 200, 230, 330, 430])
+    expect(workers.every(w => w.terminated)).toBe(true)
+  })
+
+  it('should not start more workers than there are chunks', async () => {
+    const { run, workers } = startPool(CHUNK_SIZE + 1, 8)
+
+    expect(workers).toHaveLength(2)
+    workers[0].deliver()
+    workers[1].deliver()
+    expect((await run.done).games.map(r => r.id)).toEqual(Array.from({ length: CHUNK_SIZE + 1 }, (_, i) => i + 1))
+  })
+
+  it('should keep the finished games, in ID order, when cancelled', async () => {
+    const { run, workers } = startPool(CHUNK_SIZE * 5, 2)
+    workers[1].deliver()
+    run.cancel()
+
+    const { statistics, games, cancelled } = await run.done
+    expect(cancelled).toBe(true)
+    expect(statistics.games).toBe(CHUNK_SIZE)
+    expect(games.map(r => r.id)).toEqual(Array.from({ length: CHUNK_SIZE }, (_, i) => CHUNK_SIZE + i + 1))
+    expect(workers.every(w => w.terminated)).toBe(true)
+
+    // A chunk that arrives after cancelling is ignored
+    workers[0].deliver()
+    expect((await run.done).games).toHaveLength(CHUNK_SIZE)
+  })
+
+  it('should reject if a worker fails', async () => {
+    const { run, workers } = startPool(CHUNK_SIZE * 2, 2)
+    workers[0].onerror!(new ErrorEvent('error', { message: 'Worker script failed to load' }))
+
+    await expect(run.done).rejects.toThrow('failed to load')
+    expect(workers.every(w => w.terminated)).toBe(true)
+  })
+
+  it('should reject if a chunk cannot be played', async () => {
+    const workers: FakeWorker[] = []
+    const run = runSimulationPool(10, makeGameConfig({ maxRounds: 0 }), 1, keepAll, 1, () => {
+      const worker = new FakeWorker()
+      workers.push(worker)
+      return worker
+    }, () => {})
+    workers[0].deliver()
+
+    await expect(run.done).rejects.toThrow('round cap')
+  })
+
+  it('should refuse to start without workers', () => {
+    expect(() => startPool(10, 0)).toThrow('at least 1, not 0')
+    expect(() => startPool(10, 1.5)).toThrow('whole number of workers')
+  })
+
+  it('should finish at once with nothing to play', async () => {
+    const { run, workers } = startPool(0, 4)
+
+    expect(workers).toHaveLength(0)
+    const { statistics, games, cancelled } = await run.done
+    expect([statistics.games, games, cancelled]).toEqual([0, [], false])
+  })
+
+  it('should keep only the sample and the games the filter matches', async () => {
+    const retention: GameRetention = { sampleSize: 20, filter: { outcomes: ['no_loyalists'], minRounds: 0, maxRounds: null } }
+    const { run, workers } = startPool(CHUNK_SIZE * 2, 2, retention)
+    workers[1].deliver()
+    workers[0].deliver()
+
+    const expected = runSimulation(CHUNK_SIZE * 2, config, 7)
+      .filter(game => game.id! <= 20 || game.outcome === 'no_loyalists')
+    expect((await run.done).games).toEqual(expected)
+  })
+})
+
+describe('runRetainedSimulation', () => {
+  const configs: Record<string, GameConfig> = {
+    'the fast engine': makeGameConfig({ loyalistCount: 9, traitorCount: 3, endCondition: 'all_one_type', maxRounds: 5 }),
+    'VotingGame alone': makeGameConfig({ loyalistCount: 9, traitorCount: 3, endCondition: 'all_one_type', gameType: 'bayesian', maxRounds: 5 })
+  }
+
+  for (const [name, gameConfig] of Object.entries(configs)) {
+    it(`should fold every game and keep the same ones as a full run with ${name}`, () => {
+      const retention: GameRetention = { sampleSize: 55, filter: { outcomes: ['timeout'], minRounds: 0, maxRounds: null } }
+      const expected = runSimulation(200, gameConfig, 3, 50)
+      const { statistics, games } = runRetainedSimulation(200, gameConfig, 3, 50, retention)
+
+      expect(games).toEqual(expected.filter(game => game.id! <= 55 || matchesFilter(retention.filter!, { rounds: game.totalRounds, outcome: game.outcome })))
+      expect(games.length).toBeGreaterThan(0)
+      const stats = summariseStatistics(statistics)
+      const expectedStats = calculateStatistics(expected)
+      expect({ ...stats, mean: 0, stdDev: 0 }).toEqual({ ...expectedStats, mean: 0, stdDev: 0 })
+      expect(stats.mean).toBeCloseTo(expectedStats.mean, 10)
+      expect(stats.stdDev).toBeCloseTo(expectedStats.stdDev, 10)
+    })
+  }
+})
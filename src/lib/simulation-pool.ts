@@ -0,0 +1,168 @@
+import type {
+  GameConfig,
+  GameResult,
+  GameRetention,
+  PooledSimulation,
+  PooledSimulationResult,
+  RetainedSimulation,
+  SimulationChunk,
+  SimulationResult,
+  SimulationWorker,
+  SimulationWorkerMessage
+} from './interfaces';
+import { VotingGame } from './voting-game';
+import { FastVotingGame, fastEngineLimitation } from './fast-engine';
+import { SeededRandom, deriveSeed } from './random';
+import { addGame, createRunningStatistics, isRetained, mergeStatistics } from './statistics';
+
+/** Games per chunk handed to a worker, and so how often progress is reported */
+export const CHUNK_SIZE = 100;
+
+/**
+ * Plays games like runSimulation, folding each into running statistics and
+ * keeping only the games `retention` asks for. Where the fast engine supports
+ * the rules it plays every game, and VotingGame replays just the kept ones
+ * from their seeds to record them in full.
+ */
+export function runRetainedSimulation(iterations: number, config: GameConfig, seed: number, startId: number,
+  retention: GameRetention): RetainedSimulation {
+
+  const fast = fastEngineLimitation(config) === null ? new FastVotingGame(config) : null;
+  const playInFull = (id: number): GameResult => ({
+    ...new VotingGame(config, new SeededRandom(deriveSeed(seed, id))).run(),
+    id
+  });
+
+  const statistics = createRunningStatistics();
+  const games: GameResult[] = [];
+  for (let i = 0; i < iterations; i++) {
+    const id = startId + i + 1;
+    let game: GameResult | null = null;
+    let result: SimulationResult;
+    if (fast) {
+      result = fast.play(new SeededRandom(deriveSeed(seed, id)));
+    } else {
+      game = playInFull(id);
+      result = { rounds: game.totalRounds, outcome: game.outcome, thirdFactionWinners: game.thirdFactionWinners };
+    }
+    addGame(statistics, result);
+    if (isRetained(retention, id, result)) {
+      games.push(game ?? playInFull(id));
+    }
+  }
+  return { statistics, games };
+}
+
+/** Plays one chunk; this is all a simulation worker does. */
+export function simulateChunk(chunk: SimulationChunk): SimulationWorkerMessage {
+  try {
+    const simulation = runRetainedSimulation(chunk.iterations, chunk.config, chunk.seed, chunk.startId, chunk.retention);
+    return { type: 'results', startId: chunk.startId, iterations: chunk.iterations, simulation };
+  } catch (error) {
+    return { type: 'error', startId: chunk.startId, message: error instanceof Error ? error.message : String(error) };
+  }
+}
+
+/**
+ * Runs `iterations` games across up to `workerCount` workers, as
+ * runRetainedSimulation would. The run is cut into chunks of CHUNK_SIZE games,
+ * handed out as workers become free. Every game is seeded from its ID as in
+ * runSimulation, and the chunks are merged in ID order, so the results do not
+ * depend on which worker played what or when. `onProgress` hears the number
+ * of games finished after each chunk. Throws unless `workerCount` is a whole
+ * number of at least 1, since no workers would leave the run unfinished.
+ */
+export function runSimulationPool(iterations: number, config: GameConfig, seed: number, retention: GameRetention,
+  workerCount: number, createWorker: () => SimulationWorker, onProgress: (completed: number) => void): PooledSimulation {
+
+  if (!Number.isInteger(workerCount) || workerCount < 1) {
+    throw new Error(`A simulation pool needs a whole number of workers, at least 1, not ${workerCount}`);
+  }
+  const chunks: SimulationChunk[] = [];
+  for (let startId = 0; startId < iterations; startId += CHUNK_SIZE) {
+    chunks.push({ config, seed, startId, iterations: Math.min(CHUNK_SIZE, iterations - startId), retention });
+  }
+  // Finished chunks by index, so they merge in ID order whatever order they arrive in
+  const finished: RetainedSimulation[] = [];
+  let nextChunk = 0;
+  let completed = 0;
+  let settled = false;
+
+  let resolve: (result: PooledSimulationResult) => void = () => {};
+  let reject: (error: Error) => void = () => {};
+  const done = new Promise<PooledSimulationResult>((onResolve, onReject) => {
+    resolve = onResolve;
+    reject = onReject;
+  });
+
+  const workers = Array.from({ length: Math.min(workerCount, chunks.length) }, createWorker);
+  const stop = () => {
+    settled = true;
+    workers.forEach(worker => worker.terminate());
+  };
+  const finish = (cancelled: boolean) => {
+    stop();
+    const statistics = createRunningStatistics();
+    const games: GameResult[] = [];
+    for (const chunk of finished.filter(Boolean)) {
+      mergeStatistics(statistics, chunk.statistics);
+      games.push(...chunk.games);
+    }
+    resolve({ statistics, games, cancelled });
+  };
+  const fail = (message: string) => {
+    stop();
+    reject(new Error(message));
+  };
+  const dispatch = (worker: SimulationWorker) => {
+    if (nextChunk < chunks.length) {
+      worker.postMessage(chunks[nextChunk++]);
+    }
+  };
+
+  for (const worker of workers) {
+    worker.onmessage = ({ data }) => {
+      if (settled) {
+        return;
+      }
+      switch (data.type) {
+        case 'results':
+          finished[data.startId / CHUNK_SIZE] = data.simulation;
+          completed += data.iterations;
+          onProgress(completed);
+          if (completed === iterations) {
+            finish(false);
+          } else {
+            dispatch(worker);
+          }
+          break;
+        case 'error':
+          fail(data.message);
+          break;
+        default: {
+          const unhandled: never = data;
+          throw new Error(`Unsupported worker message: ${JSON.stringify(unhandled)}`);
+        }
+      }
+    };
+    worker.onerror = (event) => {
+      if (!settled) {
+        fail(event.message);
+      }
+    };
+    dispatch(worker);
+  }
+
+  if (chunks.length === 0) {
+    finish(false);
+  }
+
+  return {
+    done,
+    cancel: () => {
+      if (!settled) {
+        finish(true);
+      }
+    }
+  };
+}
@@ -0,0 +1,7 @@
+import type { SimulationChunk } from './interfaces';
+import { simulateChunk } from './simulation-pool';
+
+// Loaded by the browser as a module worker; see runSimulationPool
+self.onmessage = (event: MessageEvent<SimulationChunk>) => {
+  self.postMessage(simulateChunk(event.data));
+};
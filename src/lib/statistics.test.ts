@@ -0,0 +1,123 @@
+import { describe, it, expect } from 'vitest'
+import { addGame, createRunningStatistics, gamesByRounds, isRetained, matchesFilter, mergeStatistics, summariseStatistics, winRate } from './statistics'
+import { runSimulation } from './voting-game'
+import { makeGameConfig } from '../test/game-config'
+import type { GameFilter, GameOutcome, RunningStatistics, SimulationResult } from './interfaces'
+
+function fold(results: SimulationResult[]): RunningStatistics {
+  const statistics = createRunningStatistics()
+  results.forEach(result => addGame(statistics, result))
+  return statistics
+}
+
+const games = (rounds: number[], outcome: GameOutcome = 'traitor_removed') => rounds.map(r => ({ rounds: r, outcome }))
+
+describe('addGame', () => {
+  it('should tally games by round count and outcome', () => {
+    const statistics = fold([...games([2, 4, 4]), ...games([4], 'no_loyalists'), ...games([7], 'timeout')])
+
+    expect(statistics.games).toBe(5)
+    expect(statistics.min).toBe(2)
+    expect(statistics.max).toBe(7)
+    expect(statistics.histogram[4]).toEqual({ traitor_removed: 2, no_loyalists: 1 })
+    expect(gamesByRounds(statistics)).toEqual([0, 0, 1, 0, 3, 0, 0, 1])
+    expect(statistics.outcomes).toEqual({ traitor_removed: 3, no_loyalists: 1, timeout: 1 })
+  })
+
+  it('should keep the mean and variance as it goes', () => {
+    const statistics = fold(games([2, 4, 4, 4, 5, 5, 7, 9]))
+
+    expect(statistics.mean).toBe(5)
+    expect(summariseStatistics(statistics).stdDev).toBeCloseTo(2, 12)
+  })
+})
+
+describe('winRate', () => {
+  it('should count the outcomes each faction won', () => {
+    const statistics = fold([...games([2, 3, 3]), ...games([4], 'no_loyalists'), ...games([9], 'timeout')])
+
+    expect(winRate(statistics, 'loyalist')).toBe(3 / 5)
+    expect(winRate(statistics, 'traitor')).toBe(1 / 5)
+    expect(winRate(createRunningStatistics(), 'loyalist')).toBe(0)
+  })
+
+  it('should count a third faction winning alongside the outcome for both', () => {
+    const statistics = fold([{ rounds: 3, outcome: 'all_loyalists', thirdFactionWinners: ['neutral'] }, ...games([4], 'no_loyalists')])
+    const merged = createRunningStatistics()
+    mergeStatistics(merged, statistics)
+    mergeStatistics(merged, statistics)
+
+    expect(winRate(statistics, 'loyalist')).toBe(1 / 2)
+    expect(winRate(statistics, 'neutral')).toBe(1 / 2)
+    expect(merged.thirdFactionWins).toEqual({ neutral: 2 })
+  })
+})
+
+describe('summariseStatistics', () => {
+  it('should agree with the statistics worked out from every game', () => {
+    const results = runSimulation(401, makeGameConfig({ loyalistCount: 10, traitorCount: 3, endCondition: 'all_one_type', maxRounds: 4 }), 9)
+    const rounds = results.map(r => r.totalRounds).sort((a, b) => a - b)
+    const mean = rounds.reduce((sum, r) => sum + r, 0) / rounds.length
+    const stats = summariseStatistics(fold(results.map(r => ({ rounds: r.totalRounds, outcome: r.outcome }))))
+
+    expect(stats.median).toBe(rounds[200])
+    expect(stats.min).toBe(rounds[0])
+    expect(stats.max).toBe(rounds[400])
+    expect(stats.timeouts).toBe(results.filter(r => r.outcome === 'timeout').length)
+    expect(stats.timeouts).toBeGreaterThan(0)
+    expect(stats.mean).toBeCloseTo(mean, 10)
+    expect(stats.stdDev).toBeCloseTo(Math.sqrt(rounds.reduce((sum, r) => sum + (r - mean) ** 2, 0) / rounds.length), 10)
+  })
+
+  it('should take the middle pair for the median and the lowest of equally common rounds for the mode', () => {
+    const stats = summariseStatistics(fold(games([6, 2, 6, 2, 9, 3])))
+
+    expect(stats.median).toBe(4.5)
+    expect(stats.mode).toBe(2)
+  })
+
+  it('should give zeros with no games', () => {
+    expect(summariseStatistics(createRunningStatistics())).toEqual({ mean: 0, median: 0, mode: 0, min: 0, max: 0, stdDev: 0, timeouts: 0 })
+  })
+})
+
+describe('mergeStatistics', () => {
+  it('should give the statistics of all the games folded in one by one', () => {
+    const all = [...games([3, 8, 1, 4]), ...games([5, 9], 'no_loyalists'), ...games([2, 6, 5])]
+    const merged = createRunningStatistics()
+    mergeStatistics(merged, fold(all.slice(0, 4)))
+    mergeStatistics(merged, createRunningStatistics())
+    mergeStatistics(merged, fold(all.slice(4)))
+    const expected = fold(all)
+
+    expect(merged.games).toBe(expected.games)
+    expect(merged.mean).toBeCloseTo(expected.mean, 12)
+    expect(merged.sumOfSquares).toBeCloseTo(expected.sumOfSquares, 10)
+    expect([merged.min, merged.max]).toEqual([1, 9])
+    expect(merged.histogram).toEqual(expected.histogram)
+    expect(merged.outcomes).toEqual(expected.outcomes)
+  })
+})
+
+describe('matchesFilter', () => {
+  it('should match on outcome and round range', () => {
+    const filter: GameFilter = { outcomes: ['timeout', 'no_loyalists'], minRounds: 3, maxRounds: 5 }
+
+    expect(matchesFilter(filter, { rounds: 3, outcome: 'timeout' })).toBe(true)
+    expect(matchesFilter(filter, { rounds: 5, outcome: 'no_loyalists' })).toBe(true)
+    expect(matchesFilter(filter, { rounds: 4, outcome: 'traitor_removed' })).toBe(false)
+    expect(matchesFilter(filter, { rounds: 2, outcome: 'timeout' })).toBe(false)
+    expect(matchesFilter(filter, { rounds: 6, outcome: 'timeout' })).toBe(false)
+    expect(matchesFilter({ outcomes: null, minRounds: 0, maxRounds: null }, { rounds: 40, outcome: 'all_traitors' })).toBe(true)
+  })
+})
+
+describe('isRetained', () => {
+  it('should keep the sample and whatever the filter matches', () => {
+    const result: SimulationResult = { rounds: 4, outcome: 'traitor_removed' }
+
+    expect(isRetained({ sampleSize: 10, filter: null }, 10, result)).toBe(true)
+    expect(isRetained({ sampleSize: 10, filter: null }, 11, result)).toBe(false)
+    expect(isRetained({ sampleSize: 0, filter: { outcomes: null, minRounds: 4, maxRounds: null } }, 500, result)).toBe(true)
+  })
+})
@@ -0,0 +1,143 @@
+import type {
+  ActorType,
+  GameFilter,
+  GameOutcome,
+  GameRetention,
+  RunningStatistics,
+  SimulationResult,
+  SimulationStatistics,
+  ThirdFaction
+} from './interfaces';
+import { OUTCOMES } from './factions';
+
+export function createRunningStatistics(): RunningStatistics {
+  return { games: 0, mean: 0, sumOfSquares: 0, min: 0, max: 0, histogram: [], outcomes: {}, thirdFactionWins: {} };
+}
+
+/** Folds one finished game into the statistics. */
+export function addGame(statistics: RunningStatistics, result: SimulationResult): void {
+  const { rounds, outcome, thirdFactionWinners = [] } = result;
+  statistics.games++;
+  const delta = rounds - statistics.mean;
+  statistics.mean += delta / statistics.games;
+  statistics.sumOfSquares += delta * (rounds - statistics.mean);
+  if (statistics.games === 1 || rounds < statistics.min) {
+    statistics.min = rounds;
+  }
+  if (statistics.games === 1 || rounds > statistics.max) {
+    statistics.max = rounds;
+  }
+
+  while (statistics.histogram.length <= rounds) {
+    statistics.histogram.push({});
+  }
+  const tally = statistics.histogram[rounds];
+  tally[outcome] = (tally[outcome] ?? 0) + 1;
+  statistics.outcomes[outcome] = (statistics.outcomes[outcome] ?? 0) + 1;
+  for (const faction of thirdFactionWinners) {
+    statistics.thirdFactionWins[faction] = (statistics.thirdFactionWins[faction] ?? 0) + 1;
+  }
+}
+
+/**
+ * Folds `from` into `into`, as if its games had been added one by one (up to
+ * rounding in the mean), using Chan et al.'s pairwise update for the variance.
+ */
+export function mergeStatistics(into: RunningStatistics, from: RunningStatistics): void {
+  if (from.games === 0) {
+    return;
+  }
+  const games = into.games + from.games;
+  const delta = from.mean - into.mean;
+  into.sumOfSquares += from.sumOfSquares + delta * delta * into.games * from.games / games;
+  into.mean += delta * from.games / games;
+  into.min = into.games === 0 ? from.min : Math.min(into.min, from.min);
+  into.max = into.games === 0 ? from.max : Math.max(into.max, from.max);
+  into.games = games;
+
+  from.histogram.forEach((tally, rounds) => {
+    while (into.histogram.length <= rounds) {
+      into.histogram.push({});
+    }
+    addTally(into.histogram[rounds], tally);
+  });
+  addTally(into.outcomes, from.outcomes);
+  addTally(into.thirdFactionWins, from.thirdFactionWins);
+}
+
+function addTally<K extends string>(into: Partial<Record<K, number>>, from: Partial<Record<K, number>>): void {
+  for (const [key, count] of Object.entries(from) as [K, number][]) {
+    into[key] = (into[key] ?? 0) + count;
+  }
+}
+
+/** Games that lasted each round count, the histogram's tallies summed over outcomes. */
+export function gamesByRounds(statistics: RunningStatistics): number[] {
+  return statistics.histogram.map(tally => Object.values(tally).reduce((sum, count) => sum + count, 0));
+}
+
+/**
+ * The share of the games `faction` won, or 0 before any games. A third
+ * faction's wins alongside the outcome's winner count for both.
+ */
+export function winRate(statistics: RunningStatistics, faction: ActorType): number {
+  if (statistics.games === 0) {
+    return 0;
+  }
+  const wins = (Object.entries(statistics.outcomes) as [GameOutcome, number][])
+    .filter(([outcome]) => OUTCOMES[outcome].winner === faction)
+    .reduce((sum, [, games]) => sum + games, 0);
+  return (wins + (statistics.thirdFactionWins[faction as ThirdFaction] ?? 0)) / statistics.games;
+}
+
+/**
+ * The summary calculateStatistics gives. The median and mode are exact, read
+ * off the histogram; among equally common round counts the mode is the lowest.
+ */
+export function summariseStatistics(statistics: RunningStatistics): SimulationStatistics {
+  if (statistics.games === 0) {
+    return { mean: 0, median: 0, mode: 0, min: 0, max: 0, stdDev: 0, timeouts: 0 };
+  }
+
+  const counts = gamesByRounds(statistics);
+  // The round counts at 0-based positions `lower` and `upper` of the sorted games
+  const lower = Math.floor((statistics.games - 1) / 2);
+  const upper = Math.floor(statistics.games / 2);
+  let lowerRounds = 0;
+  let upperRounds = 0;
+  let mode = 0;
+  let seen = 0;
+  counts.forEach((count, rounds) => {
+    if (seen <= lower && lower < seen + count) {
+      lowerRounds = rounds;
+    }
+    if (seen <= upper && upper < seen + count) {
+      upperRounds = rounds;
+    }
+    if (count > counts[mode]) {
+      mode = rounds;
+    }
+    seen += count;
+  });
+
+  return {
+    mean: statistics.mean,
+    median: (lowerRounds + upperRounds) / 2,
+    mode,
+    min: statistics.min,
+    max: statistics.max,
+    stdDev: Math.sqrt(statistics.sumOfSquares / statistics.games),
+    timeouts: statistics.outcomes.timeout ?? 0
+  };
+}
+
+export function matchesFilter(filter: GameFilter, result: SimulationResult): boolean {
+  return (filter.outcomes === null || filter.outcomes.includes(result.outcome))
+    && result.rounds >= filter.minRounds
+    && (filter.maxRounds === null || result.rounds <= filter.maxRounds);
+}
+
+/** Whether a run keeps game `id` in full. */
+export function isRetained(retention: GameRetention, id: number, result: SimulationResult): boolean {
+  return id <= retention.sampleSize || (retention.filter !== null && matchesFilter(retention.filter, result));
+}
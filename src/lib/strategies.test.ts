@@ -0,0 +1,446 @@
+import { describe, it, expect } from 'vitest'
+import { registerStrategy, unregisterStrategy, getStrategy, listStrategies } from './strategies'
+import { VotingGame, runSimulation } from './voting-game'
+import { roundsFromEvents } from './replay'
+import { SeededRandom } from './random'
+import { makeGameConfig } from '../test/game-config'
+import { makeRoundResult } from '../test/round-result'
+import { makeView } from '../test/game-view'
+import type { Actor, GameType, GameView } from './interfaces'
+
+const actors: Actor[] = [
+  { id: 0, type: 'loyalist', status: 'active', role: null },
+  { id: 1, type: 'loyalist', status: 'active', role: null },
+  { id: 2, type: 'loyalist', status: 'removed', role: null },
+  { id: 3, type: 'traitor', status: 'active', role: null }
+]
+
+describe('strategy registry', () => {
+  it('should list the built-in loyalist strategies', () => {
+    const ids = listStrategies('loyalist', false).map(s => s.id)
+
+    expect(ids).toContain('random')
+    expect(ids).toContain('fixate')
+  })
+
+  it('should list the built-in traitor strategy', () => {
+    expect(listStrategies('traitor', false).map(s => s.id)).toContain('random')
+  })
+
+  it('should return a registered strategy by faction and id', () => {
+    const definition = getStrategy('loyalist', 'fixate')
+
+    expect(definition.faction).toBe('loyalist')
+    expect(definition.label).toBe('Fixate on Suspect')
+  })
+
+  it('should throw for an unknown strategy', () => {
+    expect(() => getStrategy('loyalist', 'no-such-strategy')).toThrow('Unknown loyalist strategy')
+  })
+
+  it('should forget an unregistered strategy', () => {
+    registerStrategy({ id: 'test-fleeting', faction: 'traitor', label: 'Fleeting', description: '', requiresInfluence: false, create: () => ({ castBallot: () => null }) })
+    unregisterStrategy('traitor', 'test-fleeting')
+
+    expect(() => getStrategy('traitor', 'test-fleeting')).toThrow('Unknown traitor strategy')
+    expect(() => unregisterStrategy('traitor', 'test-fleeting')).toThrow('Unknown traitor strategy')
+  })
+
+  it('should reject a duplicate registration', () => {
+    expect(() => registerStrategy({
+      id: 'random',
+      faction: 'loyalist',
+      label: 'Duplicate',
+      description: '',
+      requiresInfluence: false,
+      create: () => ({ castBallot: () => null })
+    })).toThrow('already registered')
+  })
+
+  it('should let the engine use a newly registered strategy', () => {
+    registerStrategy({
+      id: 'test-always-last',
+      faction: 'loyalist',
+      label: 'Always Last',
+      description: 'Vote for the highest-ID active actor',
+      requiresInfluence: false,
+      create: () => ({
+        castBallot: (voter, view) => {
+          const others = view.activeActors.filter(a => a.id !== voter.id)
+          return others.length > 0 ? others[others.length - 1].id : null
+        }
+      })
+    })
+
+    expect(listStrategies('loyalist', false).map(s => s.id)).toContain('test-always-last')
+
+    // With 3 loyalists voting for the traitor (ID 3) and one traitor vote,
+    // the traitor is always removed in round one.
+    const result = new VotingGame(makeGameConfig({ loyalistCount: 3, traitorCount: 1, endCondition: 'first_traitor_removed', gameType: 'test-always-last' }), new SeededRandom(1)).run()
+
+    expect(result.totalRounds).toBe(1)
+    expect(result.outcome).toBe('traitor_removed')
+    expect(roundsFromEvents(result.events)[0].phaseOneRemoved).toEqual([3])
+    expect(roundsFromEvents(result.events)[0].phaseOneVotes.get(3)).toBe(3)
+    unregisterStrategy('loyalist', 'test-always-last')
+  })
+
+  it('should make VotingGame throw for an unregistered game type', () => {
+    expect(() => new VotingGame(makeGameConfig({ loyalistCount: 3, traitorCount: 1, endCondition: 'first_traitor_removed', gameType: 'missing' }), new SeededRandom(1))).toThrow()
+  })
+})
+
+describe('random loyalist strategy', () => {
+  it('should vote for an active actor other than the voter', () => {
+    const strategy = getStrategy('loyalist', 'random').create()
+
+    for (let seed = 0; seed < 50; seed++) {
+      const target = strategy.castBallot(actors[0], makeView(actors, { random: new SeededRandom(seed) }))
+      expect([1, 3]).toContain(target)
+    }
+  })
+
+  it('should abstain when no one else is active', () => {
+    const strategy = getStrategy('loyalist', 'random').create()
+    const alone: Actor[] = [{ id: 0, type: 'loyalist', status: 'active', role: null }]
+
+    expect(strategy.castBallot(alone[0], makeView(alone))).toBeNull()
+  })
+})
+
+describe('fixate loyalist strategy', () => {
+  it('should keep voting for the same suspect while they are active', () => {
+    const strategy = getStrategy('loyalist', 'fixate').create()
+    const view = makeView(actors, { random: new SeededRandom(5) })
+    const first = strategy.castBallot(actors[0], view)
+
+    for (let i = 0; i < 10; i++) {
+      expect(strategy.castBallot(actors[0], view)).toBe(first)
+    }
+  })
+
+  it('should pick a new suspect once the old one is removed', () => {
+    const strategy = getStrategy('loyalist', 'fixate').create()
+    const live = actors.map(a => ({ ...a }))
+    const first = strategy.castBallot(live[0], makeView(live, { random: new SeededRandom(5) }))
+
+    live.find(a => a.id === first)!.status = 'removed'
+    const second = strategy.castBallot(live[0], makeView(live, { random: new SeededRandom(6) }))
+
+    expect(second).not.toBe(first)
+    expect(second).not.toBeNull()
+  })
+
+  it('should keep separate memory per game instance', () => {
+    const a = getStrategy('loyalist', 'fixate').create()
+    const b = getStrategy('loyalist', 'fixate').create()
+    a.castBallot(actors[0], makeView(actors))
+
+    // b has no suspect yet, so it draws from its own random source
+    const random = new SeededRandom(2)
+    const expected = random.choice(actors.filter(x => x.status === 'active' && x.id !== 0)).id
+    expect(b.castBallot(actors[0], makeView(actors, { random: new SeededRandom(2) }))).toBe(expected)
+  })
+})
+
+describe('bayesian loyalist strategy', () => {
+  // Loyalists 0-4, traitors 5 and 6
+  const table: Actor[] = [0, 1, 2, 3, 4, 5, 6].map(id => ({
+    id,
+    type: id < 5 ? 'loyalist' as const : 'traitor' as const,
+    status: 'active' as const,
+    role: null
+  }))
+
+  function withRemoved(removed: number[]): Actor[] {
+    return table.map(a => (removed.includes(a.id) ? { ...a, status: 'removed' as const } : a))
+  }
+
+  it('should vote like the random strategy with no history', () => {
+    const strategy = getStrategy('loyalist', 'bayesian').create()
+    const targets = new Set<number | null>()
+
+    for (let seed = 0; seed < 50; seed++) {
+      targets.add(strategy.castBallot(table[0], makeView(table, { random: new SeededRandom(seed) })))
+    }
+
+    expect(targets).toEqual(new Set([1, 2, 3, 4, 5, 6]))
+  })
+
+  it('should suspect the actors who voted for a banished loyalist', () => {
+    const strategy = getStrategy('loyalist', 'bayesian').create()
+    const live = withRemoved([1])
+    const history = [makeRoundResult({
+      phaseOneBallots: [[
+        { voterId: 0, targetId: 2 },
+        { voterId: 1, targetId: 5 },
+        { voterId: 2, targetId: 3 },
+        { voterId: 3, targetId: 6 },
+        { voterId: 4, targetId: 6 },
+        { voterId: 5, targetId: 1 },
+        { voterId: 6, targetId: 1 }
+      ]],
+      phaseOneRemoved: [1],
+      remainingActors: live.filter(a => a.status === 'active')
+    })]
+
+    for (let seed = 0; seed < 30; seed++) {
+      const view = makeView(live, { random: new SeededRandom(seed), roundNumber: 2, history })
+      expect([5, 6]).toContain(strategy.castBallot(live[0], view))
+    }
+  })
+
+  it('should trust the actors who voted for a banished traitor', () => {
+    const strategy = getStrategy('loyalist', 'bayesian').create()
+    const live = withRemoved([5])
+    const history = [makeRoundResult({
+      phaseOneBallots: [[
+        { voterId: 0, targetId: 5 },
+        { voterId: 1, targetId: 5 },
+        { voterId: 2, targetId: 5 },
+        { voterId: 3, targetId: 0 },
+        { voterId: 4, targetId: 0 },
+        { voterId: 5, targetId: 0 },
+        { voterId: 6, targetId: 0 }
+      ]],
+      phaseOneRemoved: [5],
+      remainingActors: live.filter(a => a.status === 'active')
+    })]
+
+    for (let seed = 0; seed < 30; seed++) {
+      const view = makeView(live, { random: new SeededRandom(seed), roundNumber: 2, history })
+      // Votes against the voter themselves count as votes against a known loyalist
+      expect([3, 4, 6]).toContain(strategy.castBallot(live[0], view))
+    }
+  })
+
+  it('should count announced recruits among the traitors still in play', () => {
+    const strategy = getStrategy('loyalist', 'bayesian').create()
+    // Both starting traitors are banished, and actor 1 voted for the voter each round
+    const live = withRemoved([5, 6])
+    const history = [
+      makeRoundResult({
+        roundNumber: 1,
+        phaseOneBallots: [[
+          { voterId: 0, targetId: 5 },
+          { voterId: 1, targetId: 0 },
+          { voterId: 2, targetId: 5 },
+          { voterId: 3, targetId: 5 },
+          { voterId: 4, targetId: 6 },
+          { voterId: 5, targetId: 0 },
+          { voterId: 6, targetId: 0 }
+        ]],
+        phaseOneRemoved: [5],
+        remainingActors: withRemoved([5]).filter(a => a.status === 'active')
+      }),
+      makeRoundResult({
+        roundNumber: 2,
+        phaseOneBallots: [[
+          { voterId: 0, targetId: 6 },
+          { voterId: 1, targetId: 0 },
+          { voterId: 2, targetId: 6 },
+          { voterId: 3, targetId: 6 },
+          { voterId: 4, targetId: 6 },
+          { voterId: 6, targetId: 0 }
+        ]],
+        phaseOneRemoved: [6],
+        remainingActors: live.filter(a => a.status === 'active')
+      })
+    ]
+    const targets = (recruitedRounds: number[]) => new Set(Array.from({ length: 30 }, (_, seed) =>
+      strategy.castBallot(live[0], makeView(live, { random: new SeededRandom(seed), roundNumber: 3, history, recruitedRounds }))))
+
+    // Without the recruit no traitor is left to find, so every survivor is equally (un)likely
+    expect(targets([]).size).toBeGreaterThan(1)
+    expect(targets([2])).toEqual(new Set([1]))
+  })
+
+  it('should help loyalists clear out every traitor', () => {
+    const winRate = (gameType: GameType) => {
+      const config = makeGameConfig({ loyalistCount: 16, traitorCount: 4, endCondition: 'all_one_type', gameType })
+      const results = runSimulation(300, config, 5)
+      return results.filter(r => r.outcome === 'all_loyalists').length / results.length
+    }
+
+    expect(winRate('bayesian')).toBeGreaterThan(winRate('random') * 2)
+  })
+})
+
+describe('random traitor strategy', () => {
+  it('should only vote for active loyalists', () => {
+    const strategy = getStrategy('traitor', 'random').create()
+
+    for (let seed = 0; seed < 50; seed++) {
+      expect([0, 1]).toContain(strategy.castBallot(actors[3], makeView(actors, { random: new SeededRandom(seed) })))
+    }
+  })
+
+  it('should abstain when no loyalists are active', () => {
+    const strategy = getStrategy('traitor', 'random').create()
+    const traitorsOnly: Actor[] = [
+      { id: 0, type: 'loyalist', status: 'removed', role: null },
+      { id: 1, type: 'traitor', status: 'active', role: null }
+    ]
+
+    expect(strategy.castBallot(traitorsOnly[1], makeView(traitorsOnly))).toBeNull()
+  })
+})
+
+describe('traitor policies', () => {
+  const ring: Actor[] = [
+    { id: 0, type: 'loyalist', status: 'active', role: null },
+    { id: 1, type: 'loyalist', status: 'active', role: null },
+    { id: 2, type: 'loyalist', status: 'active', role: null },
+    { id: 3, type: 'loyalist', status: 'active', role: null },
+    { id: 4, type: 'traitor', status: 'active', role: null },
+    { id: 5, type: 'traitor', status: 'active', role: null },
+    { id: 6, type: 'traitor', status: 'active', role: null }
+  ]
+  const traitors = ring.filter(a => a.type === 'traitor')
+
+  function roundView(roundNumber: number, random: SeededRandom): GameView {
+    return makeView(ring, { roundNumber, random })
+  }
+
+  it('should list every selectable traitor policy', () => {
+    const ids = listStrategies('traitor', false).map(s => s.id)
+
+    expect(ids).toEqual(['random', 'bloc', 'blend_in', 'bus_throw'])
+  })
+
+  it('should only list influence strategies when influence is available', () => {
+    expect(listStrategies('traitor', false).map(s => s.id)).not.toContain('lowest_influence')
+    expect(listStrategies('traitor', true).map(s => s.id)).toContain('lowest_influence')
+  })
+
+  describe('bloc', () => {
+    it('should have every traitor vote for the same loyalist in a round', () => {
+      const strategy = getStrategy('traitor', 'bloc').create()
+      const random = new SeededRandom(8)
+
+      for (let round = 1; round <= 20; round++) {
+        const view = roundView(round, random)
+        const targets = new Set(traitors.map(t => strategy.castBallot(t, view)))
+
+        expect(targets.size).toBe(1)
+        expect([0, 1, 2, 3]).toContain([...targets][0])
+      }
+    })
+
+    it('should choose a new target in later rounds', () => {
+      const strategy = getStrategy('traitor', 'bloc').create()
+      const random = new SeededRandom(8)
+      const targets = new Set<number | null>()
+
+      for (let round = 1; round <= 20; round++) {
+        targets.add(strategy.castBallot(traitors[0], roundView(round, random)))
+      }
+
+      expect(targets.size).toBeGreaterThan(1)
+    })
+  })
+
+  describe('blend_in', () => {
+    it('should copy the loyalist plurality when it copies', () => {
+      const strategy = getStrategy('traitor', 'blend_in').create()
+      const ballots = [
+        { voterId: 0, targetId: 2 },
+        { voterId: 1, targetId: 2 },
+        { voterId: 3, targetId: 1 },
+        { voterId: 5, targetId: 1 },
+        { voterId: 6, targetId: 1 }
+      ]
+      let copied = 0
+
+      for (let seed = 0; seed < 200; seed++) {
+        const view = makeView(ring, { random: new SeededRandom(seed), ballots })
+        const target = strategy.castBallot(traitors[0], view)
+        expect([0, 1, 2, 3]).toContain(target)
+        if (target === 2) copied++
+      }
+
+      // Copies about half the time, plus a quarter of the random votes
+      expect(copied).toBeGreaterThan(100)
+      expect(copied).toBeLessThan(160)
+    })
+
+    it('should vote for a random loyalist when no loyalist has voted yet', () => {
+      const strategy = getStrategy('traitor', 'blend_in').create()
+
+      for (let seed = 0; seed < 50; seed++) {
+        expect([0, 1, 2, 3]).toContain(strategy.castBallot(traitors[0], makeView(ring, { random: new SeededRandom(seed) })))
+      }
+    })
+  })
+
+  describe('bus_throw', () => {
+    it('should occasionally have the other traitors vote for one fellow traitor', () => {
+      const strategy = getStrategy('traitor', 'bus_throw').create()
+      const random = new SeededRandom(4)
+      let throws = 0
+
+      for (let round = 1; round <= 200; round++) {
+        const view = roundView(round, random)
+        const ballots = traitors.map(t => ({ voterId: t.id, targetId: strategy.castBallot(t, view) }))
+        const thrown = ballots.filter(b => traitors.some(t => t.id === b.targetId))
+
+        if (thrown.length > 0) {
+          throws++
+          // Everyone but the sacrificed traitor votes for them
+          expect(thrown.length).toBe(2)
+          expect(new Set(thrown.map(b => b.targetId)).size).toBe(1)
+          const sacrificed = ballots.find(b => b.voterId === thrown[0].targetId)!
+          expect([0, 1, 2, 3]).toContain(sacrificed.targetId)
+        }
+      }
+
+      expect(throws).toBeGreaterThan(5)
+      expect(throws).toBeLessThan(40)
+    })
+
+    it('should never sacrifice the last traitor', () => {
+      const strategy = getStrategy('traitor', 'bus_throw').create()
+      const lastTraitor: Actor[] = [...ring.slice(0, 4), { id: 4, type: 'traitor', status: 'active', role: null }]
+      const random = new SeededRandom(4)
+
+      for (let round = 1; round <= 100; round++) {
+        const view = makeView(lastTraitor, { roundNumber: round, random })
+        expect([0, 1, 2, 3]).toContain(strategy.castBallot(lastTraitor[4], view))
+      }
+    })
+  })
+
+  describe('in the engine', () => {
+    it('should record the traitor policy on the game result', () => {
+      for (const policy of ['random', 'bloc', 'blend_in', 'bus_throw']) {
+        const config = makeGameConfig({ loyalistCount: 8, traitorCount: 3, traitorPolicy: policy })
+        const result = new VotingGame(config, new SeededRandom(1)).run()
+
+        expect(result.traitorPolicy).toBe(policy)
+      }
+    })
+
+    it('should record the influence rule set traitor strategy for influence games', () => {
+      const config = makeGameConfig({ simulationType: 'influence', traitorPolicy: 'bloc' })
+      const result = new VotingGame(config, new SeededRandom(1)).run()
+
+      expect(result.traitorPolicy).toBe('lowest_influence')
+    })
+
+    it('should reject influence strategies outside the influence rule set', () => {
+      const config = makeGameConfig({ traitorPolicy: 'lowest_influence' })
+
+      expect(() => new VotingGame(config, new SeededRandom(1))).toThrow('needs the influence rule set')
+    })
+
+    it('should have the bloc vote put all traitor votes on one loyalist', () => {
+      // With 7 loyalists and 3 bloc traitors voting together, the bloc target
+      // gets at least 3 votes in the first round.
+      const config = makeGameConfig({ loyalistCount: 7, traitorCount: 3, traitorPolicy: 'bloc' })
+      const result = new VotingGame(config, new SeededRandom(12)).run()
+      const topVotes = Math.max(...roundsFromEvents(result.events)[0].phaseOneVotes.values())
+
+      expect(topVotes).toBeGreaterThanOrEqual(3)
+    })
+  })
+})
@@ -0,0 +1,409 @@
+import type {
+  Actor,
+  ActorType,
+  GameView,
+  VisibleRoundResult,
+  StrategyDefinition,
+  VoterStrategy
+} from './interfaces';
+
+const registry: Record<ActorType, Map<string, StrategyDefinition>> = {
+  loyalist: new Map(),
+  traitor: new Map(),
+  neutral: new Map(),
+  jester: new Map()
+};
+
+/**
+ * Adds a voter strategy to the registry. Strategies are keyed by faction and
+ * ID; a loyalist strategy's ID is the GameType used to select it.
+ */
+export function registerStrategy(definition: StrategyDefinition): void {
+  const strategies = registry[definition.faction];
+  if (strategies.has(definition.id)) {
+    throw new Error(`A ${definition.faction} strategy with id "${definition.id}" is already registered`);
+  }
+  strategies.set(definition.id, definition);
+}
+
+/** Removes a registered strategy, such as one a test registered for itself. */
+export function unregisterStrategy(faction: ActorType, id: string): void {
+  if (!registry[faction].delete(id)) {
+    throw new Error(`Unknown ${faction} strategy: "${id}"`);
+  }
+}
+
+export function getStrategy(faction: ActorType, id: string): StrategyDefinition {
+  const definition = registry[faction].get(id);
+  if (!definition) {
+    throw new Error(`Unknown ${faction} strategy: "${id}"`);
+  }
+  return definition;
+}
+
+/**
+ * Lists the registered strategies for a faction in registration order.
+ * Strategies that need influence scores are only listed when `withInfluence`.
+ */
+export function listStrategies(faction: ActorType, withInfluence: boolean): StrategyDefinition[] {
+  return Array.from(registry[faction].values()).filter(s => withInfluence || !s.requiresInfluence);
+}
+
+/** Vote for any active actor other than yourself. */
+class RandomVoteStrategy implements VoterStrategy {
+  public castBallot(voter: Readonly<Actor>, view: GameView): number | null {
+    const validTargets = view.activeActors.filter(a => a.id !== voter.id);
+    if (validTargets.length === 0) {
+      return null;
+    }
+    return view.random.choice(validTargets).id;
+  }
+}
+
+/** Pick a random suspect and keep voting for them until they are removed. */
+class FixateStrategy implements VoterStrategy {
+  private suspects: Map<number, number> = new Map(); // Maps voter ID to their suspect ID
+
+  public castBallot(voter: Readonly<Actor>, view: GameView): number | null {
+    const validTargets = view.activeActors.filter(a => a.id !== voter.id);
+    if (validTargets.length === 0) {
+      return null;
+    }
+
+    const currentSuspect = this.suspects.get(voter.id);
+    if (currentSuspect !== undefined && validTargets.some(a => a.id === currentSuspect)) {
+      return currentSuspect;
+    }
+
+    const newSuspect = view.random.choice(validTargets);
+    this.suspects.set(voter.id, newSuspect.id);
+    return newSuspect.id;
+  }
+}
+
+/** Vote for the candidate the voter has the lowest influence over. */
+class LowestInfluenceStrategy implements VoterStrategy {
+  private targetsLoyalistsOnly: boolean;
+
+  constructor(targetsLoyalistsOnly: boolean) {
+    this.targetsLoyalistsOnly = targetsLoyalistsOnly;
+  }
+
+  public castBallot(voter: Readonly<Actor>, view: GameView): number | null {
+    const validTargets = this.targetsLoyalistsOnly
+      ? view.activeActors.filter(a => a.type === 'loyalist')
+      : view.activeActors.filter(a => a.id !== voter.id);
+
+    if (validTargets.length === 0 || !view.influence) {
+      return null;
+    }
+
+    let lowestInfluence = Infinity;
+    let targetId = validTargets[0].id;
+
+    for (const target of validTargets) {
+      const influence = view.influence.get(voter.id, target.id);
+      if (influence < lowestInfluence) {
+        lowestInfluence = influence;
+        targetId = target.id;
+      }
+    }
+
+    return targetId;
+  }
+}
+
+/**
+ * Keep a probability that each other actor is a traitor and vote for the
+ * likeliest. Beliefs start from the traitors still in play, counting announced
+ * recruitments, as a share of the unrevealed actors. They are then updated, as
+ * independent likelihood ratios, from opening-vote ballots against actors
+ * whose type is now known and from surviving phase two, which traitors always
+ * do. Tie-break re-votes are random, so they are ignored.
+ */
+class BayesianStrategy implements VoterStrategy {
+  /** Assumed chance that a traitor votes for a loyalist rather than a fellow traitor */
+  public static readonly TRAITOR_LOYALIST_VOTE_RATE = 0.9;
+
+  public castBallot(voter: Readonly<Actor>, view: GameView): number | null {
+    const validTargets = view.activeActors.filter(a => a.id !== voter.id);
+    if (validTargets.length === 0) {
+      return null;
+    }
+
+    const probabilities = this.traitorProbabilities(voter, view);
+    const highest = Math.max(...validTargets.map(a => probabilities.get(a.id) ?? 0));
+    const likeliest = validTargets.filter(a => highest - (probabilities.get(a.id) ?? 0) < 1e-9);
+    return view.random.choice(likeliest).id;
+  }
+
+  private traitorProbabilities(voter: Readonly<Actor>, view: GameView): Map<number, number> {
+    // Traitors ever in play before `round`, counting loyalists recruited in earlier rounds
+    const traitorsBefore = (round: number) => view.startingTraitorCount + view.recruitedRounds.filter(r => r < round).length;
+    const knownTypes = this.knownTypes(voter, view);
+    const logLikelihoods = new Map<number, number>();
+    const addEvidence = (id: number, ratio: number) => {
+      logLikelihoods.set(id, (logLikelihoods.get(id) ?? 0) + Math.log(ratio));
+    };
+
+    let banishedTraitors = 0;
+    for (const round of view.history) {
+      const activeCount = round.remainingActors.length + round.phaseOneRemoved.length + round.phaseTwoRemoved.length;
+      const traitorsLeft = traitorsBefore(round.roundNumber) - banishedTraitors;
+      // Chance that a loyalist's uniformly random vote lands on a traitor
+      const traitorShare = traitorsLeft / (activeCount - 1);
+
+      for (const ballot of round.phaseOneBallots[0] ?? []) {
+        const targetType = knownTypes.get(ballot.targetId);
+        if (ballot.voterId === voter.id || targetType === undefined) {
+          continue;
+        }
+        if (targetType === 'loyalist' && traitorShare < 1) {
+          addEvidence(ballot.voterId, BayesianStrategy.TRAITOR_LOYALIST_VOTE_RATE / (1 - traitorShare));
+        } else if (targetType === 'traitor' && traitorShare > 0) {
+          addEvidence(ballot.voterId, (1 - BayesianStrategy.TRAITOR_LOYALIST_VOTE_RATE) / traitorShare);
+        }
+      }
+
+      banishedTraitors += round.phaseOneRemoved.filter(id => knownTypes.get(id) === 'traitor').length;
+      this.addSurvivalEvidence(round, traitorsBefore(round.roundNumber) - banishedTraitors, addEvidence);
+    }
+
+    const others = view.activeActors.filter(a => a.id !== voter.id);
+    const traitorsInPlay = view.startingTraitorCount + view.recruitedRounds.length - banishedTraitors;
+    const prior = Math.min(1, Math.max(0, traitorsInPlay / others.length));
+    const probabilities = new Map<number, number>();
+    for (const actor of others) {
+      if (prior === 0 || prior === 1) {
+        probabilities.set(actor.id, prior);
+        continue;
+      }
+      const odds = (prior / (1 - prior)) * Math.exp(logLikelihoods.get(actor.id) ?? 0);
+      probabilities.set(actor.id, odds / (1 + odds));
+    }
+    return probabilities;
+  }
+
+  /**
+   * Each phase-two removal takes a loyalist, so every survivor of the night
+   * is a little more likely to be a traitor.
+   */
+  private addSurvivalEvidence(round: VisibleRoundResult, traitorsLeft: number, addEvidence: (id: number, ratio: number) => void): void {
+    const removals = round.phaseTwoRemoved.length;
+    const loyalistsAtNight = round.remainingActors.length + removals - traitorsLeft;
+    if (removals === 0 || loyalistsAtNight <= removals) {
+      return;
+    }
+
+    for (const survivor of round.remainingActors) {
+      addEvidence(survivor.id, loyalistsAtNight / (loyalistsAtNight - removals));
+    }
+  }
+
+  /** The voter knows their own type and those of any removed actors whose type was revealed. */
+  private knownTypes(voter: Readonly<Actor>, view: GameView): Map<number, ActorType> {
+    const knownTypes = new Map<number, ActorType>([[voter.id, 'loyalist']]);
+    for (const actor of view.actors) {
+      if (actor.status === 'removed' && actor.type !== null) {
+        knownTypes.set(actor.id, actor.type);
+      }
+    }
+    return knownTypes;
+  }
+}
+
+function randomActiveLoyalist(view: GameView): number | null {
+  const validTargets = view.activeActors.filter(a => a.type === 'loyalist');
+  if (validTargets.length === 0) {
+    return null;
+  }
+  return view.random.choice(validTargets).id;
+}
+
+/** Vote for a random active loyalist. */
+class RandomLoyalistStrategy implements VoterStrategy {
+  public castBallot(_voter: Readonly<Actor>, view: GameView): number | null {
+    return randomActiveLoyalist(view);
+  }
+}
+
+/** All traitors vote for the same randomly chosen loyalist each round. */
+class BlocVoteStrategy implements VoterStrategy {
+  private targetRound = -1;
+  private targetId: number | null = null;
+
+  public castBallot(_voter: Readonly<Actor>, view: GameView): number | null {
+    if (this.targetRound !== view.roundNumber) {
+      this.targetRound = view.roundNumber;
+      this.targetId = randomActiveLoyalist(view);
+    }
+    return this.targetId;
+  }
+}
+
+/**
+ * With probability COPY_PROBABILITY, vote with the plurality of the loyalist
+ * ballots cast so far; otherwise vote for a random loyalist.
+ */
+class BlendInStrategy implements VoterStrategy {
+  public static readonly COPY_PROBABILITY = 0.5;
+
+  public castBallot(voter: Readonly<Actor>, view: GameView): number | null {
+    if (view.random.next() < BlendInStrategy.COPY_PROBABILITY) {
+      const pluralityId = this.findLoyalistPlurality(voter, view);
+      if (pluralityId !== null) {
+        return pluralityId;
+      }
+    }
+    return randomActiveLoyalist(view);
+  }
+
+  private findLoyalistPlurality(voter: Readonly<Actor>, view: GameView): number | null {
+    const tally = new Map<number, number>();
+    for (const ballot of view.ballots) {
+      const ballotVoter = view.actors.find(a => a.id === ballot.voterId);
+      if (ballotVoter?.type === 'loyalist' && ballot.targetId !== voter.id) {
+        tally.set(ballot.targetId, (tally.get(ballot.targetId) || 0) + 1);
+      }
+    }
+
+    let pluralityId: number | null = null;
+    let maxVotes = 0;
+    for (const [targetId, count] of tally.entries()) {
+      if (count > maxVotes) {
+        maxVotes = count;
+        pluralityId = targetId;
+      }
+    }
+    return pluralityId;
+  }
+}
+
+/**
+ * Each round, with probability THROW_PROBABILITY (and at least two traitors
+ * left), the traitors sacrifice a random fellow traitor to gain cover. The
+ * sacrificed traitor, and every traitor in other rounds, votes for a random
+ * loyalist.
+ */
+class BusThrowStrategy implements VoterStrategy {
+  public static readonly THROW_PROBABILITY = 0.1;
+
+  private decisionRound = -1;
+  private sacrificeId: number | null = null;
+
+  public castBallot(voter: Readonly<Actor>, view: GameView): number | null {
+    if (this.decisionRound !== view.roundNumber) {
+      this.decisionRound = view.roundNumber;
+      this.sacrificeId = null;
+
+      const activeTraitors = view.activeActors.filter(a => a.type === 'traitor');
+      if (activeTraitors.length >= 2 && view.random.next() < BusThrowStrategy.THROW_PROBABILITY) {
+        this.sacrificeId = view.random.choice(activeTraitors).id;
+      }
+    }
+
+    if (this.sacrificeId !== null && this.sacrificeId !== voter.id) {
+      return this.sacrificeId;
+    }
+    return randomActiveLoyalist(view);
+  }
+}
+
+registerStrategy({
+  id: 'random',
+  faction: 'loyalist',
+  label: 'Random',
+  description: 'Loyalists vote randomly each round',
+  requiresInfluence: false,
+  create: () => new RandomVoteStrategy()
+});
+
+registerStrategy({
+  id: 'fixate',
+  faction: 'loyalist',
+  label: 'Fixate on Suspect',
+  description: 'Loyalists fixate on a suspect until removed',
+  requiresInfluence: false,
+  create: () => new FixateStrategy()
+});
+
+registerStrategy({
+  id: 'bayesian',
+  faction: 'loyalist',
+  label: 'Bayesian Inference',
+  description: 'Loyalists track how likely each actor is to be a traitor from votes, reveals and survivors, and vote for the likeliest',
+  requiresInfluence: false,
+  create: () => new BayesianStrategy()
+});
+
+registerStrategy({
+  id: 'lowest_influence',
+  faction: 'loyalist',
+  label: 'Lowest Influence',
+  description: 'Loyalists vote for the actor they have the lowest influence over',
+  requiresInfluence: true,
+  create: () => new LowestInfluenceStrategy(false)
+});
+
+registerStrategy({
+  id: 'random',
+  faction: 'traitor',
+  label: 'Random Loyalist',
+  description: 'Traitors vote randomly for any loyalist',
+  requiresInfluence: false,
+  create: () => new RandomLoyalistStrategy()
+});
+
+registerStrategy({
+  id: 'bloc',
+  faction: 'traitor',
+  label: 'Bloc Vote',
+  description: 'All traitors agree on one loyalist to vote for each round',
+  requiresInfluence: false,
+  create: () => new BlocVoteStrategy()
+});
+
+registerStrategy({
+  id: 'blend_in',
+  faction: 'traitor',
+  label: 'Blend In',
+  description: 'Traitors often copy the loyalist plurality, otherwise vote for a random loyalist',
+  requiresInfluence: false,
+  create: () => new BlendInStrategy()
+});
+
+registerStrategy({
+  id: 'bus_throw',
+  faction: 'traitor',
+  label: 'Bus Throw',
+  description: 'Traitors occasionally vote out a fellow traitor to gain cover',
+  requiresInfluence: false,
+  create: () => new BusThrowStrategy()
+});
+
+registerStrategy({
+  id: 'lowest_influence',
+  faction: 'traitor',
+  label: 'Lowest Influence',
+  description: 'Traitors vote for the loyalist they have the lowest influence over',
+  requiresInfluence: true,
+  create: () => new LowestInfluenceStrategy(true)
+});
+
+registerStrategy({
+  id: 'random',
+  faction: 'neutral',
+  label: 'Random',
+  description: 'Neutrals vote randomly each round',
+  requiresInfluence: false,
+  create: () => new RandomVoteStrategy()
+});
+
+registerStrategy({
+  id: 'random',
+  faction: 'jester',
+  label: 'Random',
+  description: 'Jesters vote randomly each round',
+  requiresInfluence: false,
+  create: () => new RandomVoteStrategy()
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest'
+import { runSweep, runSweepCell, sweepConfigs, sweepToCsv, sweptStrategies } from './sweep'
+import { calculateStatistics, runSimulation } from './voting-game'
+import { makeGameConfig } from '../test/game-config'
+import type { SweepConfig } from './interfaces'
+
+const base = makeGameConfig({ maxRounds: 30 })
+const sweep: SweepConfig = {
+  loyalists: { from: 4, to: 6 },
+  traitors: { from: 1, to: 2 },
+  gameTypes: ['random', 'fixate'],
+  traitorPolicies: ['random'],
+  endConditions: ['first_traitor_removed', 'all_one_type'],
+  iterations: 20
+}
+
+describe('sweepConfigs', () => {
+  it('should give every combination, loyalists varying slowest', () => {
+    const configs = sweepConfigs(base, sweep)
+
+    expect(configs).toHaveLength(3 * 2 * 2 * 2)
+    expect(configs.slice(0, 3).map(c => [c.loyalistCount, c.traitorCount, c.gameType, c.endCondition])).toEqual([
+      [4, 1, 'random', 'first_traitor_removed'],
+      [4, 1, 'random', 'all_one_type'],
+      [4, 1, 'fixate', 'first_traitor_removed']
+    ])
+    expect(configs[configs.length - 1]).toEqual({ ...base, loyalistCount: 6, traitorCount: 2, gameType: 'fixate', endCondition: 'all_one_type' })
+  })
+
+  it('should give an influence sweep one cell per count and end condition, labelled with the strategies it plays', () => {
+    const influence = makeGameConfig({ simulationType: 'influence', maxRounds: 30 })
+    const configs = sweepConfigs(influence, { ...sweep, gameTypes: ['random', 'fixate', 'bayesian'], traitorPolicies: ['random', 'bloc'] })
+    const keys = configs.map(c => [c.loyalistCount, c.traitorCount, c.gameType, c.traitorPolicy, c.endCondition].join())
+
+    expect(configs).toHaveLength(3 * 2 * 2)
+    expect(new Set(keys).size).toBe(keys.length)
+    configs.forEach(config => expect([config.gameType, config.traitorPolicy]).toEqual(['lowest_influence', 'lowest_influence']))
+    expect(runSweepCell(configs[0], 5, 1)).toMatchObject({ gameType: 'lowest_influence', traitorPolicy: 'lowest_influence' })
+  })
+
+  it('should reject empty or backwards sweeps', () => {
+    expect(() => sweepConfigs(base, { ...sweep, loyalists: { from: 6, to: 4 } })).toThrow('loyalist range')
+    expect(() => sweepConfigs(base, { ...sweep, traitors: { from: 0, to: 2 } })).toThrow('traitor range')
+    expect(() => sweepConfigs(base, { ...sweep, endConditions: [] })).toThrow('at least one')
+    expect(() => sweepConfigs(base, { ...sweep, iterations: 0 })).toThrow('at least 1, not 0')
+    expect(() => sweepConfigs(base, { ...sweep, iterations: 2.5 })).toThrow('whole number of games')
+    expect(() => runSweep(base, { ...sweep, iterations: 2.5 }, 1)).toThrow('whole number of games')
+  })
+
+  it('should name the first cell that the base rules do not fit', () => {
+    const roles = makeGameConfig({ maxRounds: 30, roles: { seer: 3, protector: 2 } })
+    const chair = makeGameConfig({ maxRounds: 30, tieBreak: { policy: 'chair', maxRevotes: 10, chairId: 6 } })
+
+    expect(() => sweepConfigs(roles, sweep)).toThrow(
+      'The cell of 4 loyalists and 1 traitors (random against random, first_traitor_removed) cannot be played: There are more roles than loyalists')
+    expect(() => sweepConfigs(chair, sweep)).toThrow('The cell of 4 loyalists and 1 traitors')
+    expect(() => sweepConfigs(chair, sweep)).toThrow('Tie-break chair 6 is not an actor')
+    expect(sweepConfigs(roles, { ...sweep, loyalists: { from: 5, to: 6 } })).toHaveLength(2 * 2 * 2 * 2)
+  })
+})
+
+describe('sweptStrategies', () => {
+  it('should fold the strategies a rule set forces to the one it plays', () => {
+    const influence = { ...sweep, gameTypes: ['random', 'fixate', 'bayesian'], traitorPolicies: ['random', 'bloc'] }
+
+    expect(sweptStrategies('influence', influence)).toEqual({ gameTypes: ['lowest_influence'], traitorPolicies: ['lowest_influence'] })
+    expect(sweptStrategies('random', influence)).toEqual({ gameTypes: influence.gameTypes, traitorPolicies: influence.traitorPolicies })
+  })
+})
+
+describe('runSweepCell', () => {
+  it('should summarise the games runSimulation plays for the cell', () => {
+    const config = makeGameConfig({ loyalistCount: 8, traitorCount: 2, endCondition: 'all_one_type', maxRounds: 4 })
+    const results = runSimulation(100, config, 6)
+    const stats = calculateStatistics(results)
+    const cell = runSweepCell(config, 100, 6)
+
+    expect(cell).toEqual({
+      loyalists: 8,
+      traitors: 2,
+      gameType: 'random',
+      traitorPolicy: 'random',
+      endCondition: 'all_one_type',
+      games: 100,
+      loyalistWinRate: results.filter(r => r.outcome === 'all_loyalists').length / 100,
+      traitorWinRate: results.filter(r => r.outcome === 'all_traitors').length / 100,
+      meanRounds: stats.mean,
+      stdDev: stats.stdDev,
+      timeouts: stats.timeouts
+    })
+    expect(cell.loyalistWinRate + cell.traitorWinRate + cell.timeouts / 100).toBeCloseTo(1, 10)
+  })
+})
+
+describe('runSweep', () => {
+  it('should play every cell from the same seed', () => {
+    const cells = runSweep(base, sweep, 2)
+    const configs = sweepConfigs(base, sweep)
+
+    expect(cells).toHaveLength(configs.length)
+    expect(cells[5]).toEqual(runSweepCell(configs[5], 20, 2))
+  })
+})
+
+describe('sweepToCsv', () => {
+  it('should write a header and one row per cell', () => {
+    const cells = runSweep(base, { ...sweep, loyalists: { from: 5, to: 5 }, traitors: { from: 1, to: 1 }, gameTypes: ['random'], endConditions: ['first_traitor_removed'] }, 3)
+    const [header, row, end] = sweepToCsv(cells).split('\n')
+
+    expect(header).toBe('loyalists,traitors,gameType,traitorPolicy,endCondition,games,loyalistWinRate,traitorWinRate,meanRounds,stdDev,timeouts')
+    expect(row).toBe(`5,1,random,random,first_traitor_removed,20,${cells[0].loyalistWinRate},${cells[0].traitorWinRate},${cells[0].meanRounds},${cells[0].stdDev},0`)
+    expect(end).toBe('')
+  })
+})
@@ -0,0 +1,110 @@
+import type { GameConfig, GameRetention, GameType, RunningStatistics, SimulationType, SweepCell, SweepConfig, TraitorPolicy } from './interfaces';
+import { RULE_SETS } from './rule-sets';
+import { VotingGame } from './voting-game';
+import { SeededRandom } from './random';
+import { runRetainedSimulation } from './simulation-pool';
+import { summariseStatistics, winRate } from './statistics';
+
+/** A sweep keeps no games, only each cell's statistics */
+export const SWEEP_RETENTION: GameRetention = { sampleSize: 0, filter: null };
+
+/**
+ * The strategies a sweep actually plays under `simulationType`. A rule set
+ * that forces a faction's strategy folds that axis to it, since every other
+ * choice would replay the same games under a different label.
+ */
+export function sweptStrategies(simulationType: SimulationType, sweep: SweepConfig): {
+  gameTypes: GameType[];
+  traitorPolicies: TraitorPolicy[];
+} {
+  const { loyalistStrategy, traitorStrategy } = RULE_SETS[simulationType];
+  return {
+    gameTypes: loyalistStrategy === null ? sweep.gameTypes : [loyalistStrategy],
+    traitorPolicies: traitorStrategy === null ? sweep.traitorPolicies : [traitorStrategy]
+  };
+}
+
+/**
+ * The game rules for every cell of a sweep: `base` with each combination of
+ * the swept counts, strategies and end conditions, loyalist count varying
+ * slowest and end condition fastest. Strategies are folded by
+ * sweptStrategies. Every cell is checked before any is
+ * played, so rules from `base` that do not fit a cell, such as more roles
+ * than it has loyalists, throw naming that cell.
+ */
+export function sweepConfigs(base: GameConfig, sweep: SweepConfig): GameConfig[] {
+  for (const [name, range] of [['loyalist', sweep.loyalists], ['traitor', sweep.traitors]] as const) {
+    if (!Number.isInteger(range.from) || !Number.isInteger(range.to) || range.from < 1 || range.from > range.to) {
+      throw new Error(`The ${name} range must run upwards from at least 1, not ${range.from} to ${range.to}`);
+    }
+  }
+  const { gameTypes, traitorPolicies } = sweptStrategies(base.simulationType, sweep);
+  if (gameTypes.length === 0 || traitorPolicies.length === 0 || sweep.endConditions.length === 0) {
+    throw new Error('A sweep needs at least one loyalist strategy, traitor strategy and end condition');
+  }
+  if (!Number.isInteger(sweep.iterations) || sweep.iterations < 1) {
+    throw new Error(`Each cell of a sweep must play a whole number of games, at least 1, not ${sweep.iterations}`);
+  }
+
+  const configs: GameConfig[] = [];
+  for (let loyalistCount = sweep.loyalists.from; loyalistCount <= sweep.loyalists.to; loyalistCount++) {
+    for (let traitorCount = sweep.traitors.from; traitorCount <= sweep.traitors.to; traitorCount++) {
+      for (const gameType of gameTypes) {
+        for (const traitorPolicy of traitorPolicies) {
+          for (const endCondition of sweep.endConditions) {
+            const config: GameConfig = { ...base, loyalistCount, traitorCount, gameType, traitorPolicy, endCondition };
+            try {
+              new VotingGame(config, new SeededRandom(0));
+            } catch (error) {
+              throw new Error(`The cell of ${loyalistCount} loyalists and ${traitorCount} traitors (${gameType} against `
+                + `${traitorPolicy}, ${endCondition}) cannot be played: ${error instanceof Error ? error.message : String(error)}`);
+            }
+            configs.push(config);
+          }
+        }
+      }
+    }
+  }
+  return configs;
+}
+
+/** Summarises the games played for one cell. */
+export function sweepCell(config: GameConfig, statistics: RunningStatistics): SweepCell {
+  const stats = summariseStatistics(statistics);
+  return {
+    loyalists: config.loyalistCount,
+    traitors: config.traitorCount,
+    gameType: config.gameType,
+    traitorPolicy: config.traitorPolicy,
+    endCondition: config.endCondition,
+    games: statistics.games,
+    loyalistWinRate: winRate(statistics, 'loyalist'),
+    traitorWinRate: winRate(statistics, 'traitor'),
+    meanRounds: stats.mean,
+    stdDev: stats.stdDev,
+    timeouts: stats.timeouts
+  };
+}
+
+/**
+ * Plays one cell through runRetainedSimulation, keeping only its statistics.
+ * Every cell uses the same seed, so differences between cells come from their
+ * parameters rather than from luck of the draw.
+ */
+export function runSweepCell(config: GameConfig, iterations: number, seed: number): SweepCell {
+  return sweepCell(config, runRetainedSimulation(iterations, config, seed, 0, SWEEP_RETENTION).statistics);
+}
+
+/** Plays every cell of a sweep in sweepConfigs order. */
+export function runSweep(base: GameConfig, sweep: SweepConfig, seed: number): SweepCell[] {
+  return sweepConfigs(base, sweep).map(config => runSweepCell(config, sweep.iterations, seed));
+}
+
+const SWEEP_CSV_COLUMNS: (keyof SweepCell)[] = ['loyalists', 'traitors', 'gameType', 'traitorPolicy', 'endCondition',
+  'games', 'loyalistWinRate', 'traitorWinRate', 'meanRounds', 'stdDev', 'timeouts'];
+
+/** A sweep's cells as CSV, one row per cell in the given order. */
+export function sweepToCsv(cells: readonly SweepCell[]): string {
+  return [SWEEP_CSV_COLUMNS.join(','), ...cells.map(cell => SWEEP_CSV_COLUMNS.map(column => cell[column]).join(','))]
+    .join('\n') + '\n';
+}
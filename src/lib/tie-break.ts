@@ -0,0 +1,35 @@
+import type { TiePolicy, TiePolicyDefinition } from './interfaces';
+
+/** Labels for the tie policies; the engine resolves ties in VotingGame.breakTie. */
+export const TIE_POLICIES: Record<TiePolicy, TiePolicyDefinition> = {
+  revote: {
+    id: 'revote',
+    label: 'Re-vote',
+    description: 'Everyone re-votes between the tied actors, then a random draw if still tied'
+  },
+  random: {
+    id: 'random',
+    label: 'Random Draw',
+    description: 'A random tied actor is banished'
+  },
+  no_banishment: {
+    id: 'no_banishment',
+    label: 'No Banishment',
+    description: 'No one is banished in a tied round'
+  },
+  banish_all: {
+    id: 'banish_all',
+    label: 'Banish All Tied',
+    description: 'Every tied actor is banished'
+  },
+  lowest_id: {
+    id: 'lowest_id',
+    label: 'Lowest-ID Decides',
+    description: 'The active actor with the lowest ID casts the deciding vote'
+  },
+  chair: {
+    id: 'chair',
+    label: 'Chair Decides',
+    description: 'A designated chair casts the deciding vote'
+  }
+};
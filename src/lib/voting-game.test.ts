@@ -1,30 +1,37 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
-import { VotingGame, runSimulation, calculateStatistics } from './voting-game';
-import type { GameType } from './interfaces';
+import { VotingGame, runSimulation, streamSimulation, calculateStatistics } from './voting-game';
+import { roundsFromEvents } from './replay';
+import { SeededRandom } from './random';
+import { addGame, createRunningStatistics, winRate } from './statistics';
+import { makeGameConfig } from '../test/game-config';
+import { makeGameResult } from '../test/game-result';
+import { useTestStrategies } from '../test/strategies';
+import type { GameType, GameResult, TiePolicy, TieBreakConfig, VisibleActor, VoterStrategy } from './interfaces';
 
 describe('VotingGame', () => {
   describe('constructor', () => {
     it('should initialize with correct number of loyalists and traitors', () => {
-      const game = new VotingGame(5, 2, 'first_traitor_removed', 'random')
+      const game = new VotingGame(makeGameConfig({ loyalistCount: 5, traitorCount: 2, endCondition: 'first_traitor_removed', gameType: 'random' }), new SeededRandom(42))
       const result = game.run()
       
       // Initial actors should be 5 loyalists + 2 traitors = 7 total
       // We can verify this by checking that the game runs and produces a result
-      expect(result.rounds.length).toBeGreaterThan(0)
+      expect(roundsFromEvents(result.events).length).toBeGreaterThan(0)
       expect(result.totalRounds).toBeGreaterThan(0)
     })
 
     it('should create actors with sequential IDs', () => {
-      const game = new VotingGame(3, 1, 'first_traitor_removed', 'random')
+      const game = new VotingGame(makeGameConfig({ loyalistCount: 3, traitorCount: 1, endCondition: 'first_traitor_removed', gameType: 'random' }), new SeededRandom(42))
       const result = game.run()
       
       // First round should have removed actors from the initial pool
-      expect(result.rounds[0]).toBeDefined()
-      expect(result.rounds[0].phaseOneRemoved).toBeGreaterThanOrEqual(0)
+      expect(roundsFromEvents(result.events)[0]).toBeDefined()
+      expect(roundsFromEvents(result.events)[0].phaseOneRemoved).toHaveLength(1)
+      expect(roundsFromEvents(result.events)[0].phaseOneRemoved[0]).toBeGreaterThanOrEqual(0)
     })
 
     it('should handle edge case with 1 loyalist and 1 traitor', () => {
-      const game = new VotingGame(1, 1, 'first_traitor_removed', 'random')
+      const game = new VotingGame(makeGameConfig({ loyalistCount: 1, traitorCount: 1, endCondition: 'first_traitor_removed', gameType: 'random' }), new SeededRandom(42))
       const result = game.run()
       
       expect(result.totalRounds).toBeGreaterThan(0)
@@ -32,7 +39,7 @@ describe('VotingGame', () => {
     })
 
     it('should handle multiple traitors', () => {
-      const game = new VotingGame(5, 3, 'first_traitor_removed', 'random')
+      const game = new VotingGame(makeGameConfig({ loyalistCount: 5, traitorCount: 3, endCondition: 'first_traitor_removed', gameType: 'random' }), new SeededRandom(42))
       const result = game.run()
       
       expect(result.totalRounds).toBeGreaterThan(0)
@@ -46,7 +53,7 @@ describe('VotingGame', () => {
       let traitorRemovedFound = false
       
       for (let i = 0; i < 50; i++) {
-        const game = new VotingGame(5, 1, 'first_traitor_removed', 'random')
+        const game = new VotingGame(makeGameConfig({ loyalistCount: 5, traitorCount: 1, endCondition: 'first_traitor_removed', gameType: 'random' }), new SeededRandom(i))
         const result = game.run()
         
         if (result.outcome === 'traitor_removed') {
@@ -65,7 +72,7 @@ describe('VotingGame', () => {
       let noLoyalistsFound = false
       
       for (let i = 0; i < 50; i++) {
-        const game = new VotingGame(2, 1, 'first_traitor_removed', 'random')
+        const game = new VotingGame(makeGameConfig({ loyalistCount: 2, traitorCount: 1, endCondition: 'first_traitor_removed', gameType: 'random' }), new SeededRandom(i))
         const result = game.run()
         
         if (result.outcome === 'no_loyalists') {
@@ -80,7 +87,7 @@ describe('VotingGame', () => {
     })
 
     it('should terminate within reasonable number of rounds', () => {
-      const game = new VotingGame(10, 3, 'first_traitor_removed', 'random')
+      const game = new VotingGame(makeGameConfig({ loyalistCount: 10, traitorCount: 3, endCondition: 'first_traitor_removed', gameType: 'random' }), new SeededRandom(42))
       const result = game.run()
       
       // Game should complete within a reasonable number of rounds
@@ -92,37 +99,37 @@ describe('VotingGame', () => {
 
   describe('round progression', () => {
     it('should record round history', () => {
-      const game = new VotingGame(4, 1, 'first_traitor_removed', 'random')
+      const game = new VotingGame(makeGameConfig({ loyalistCount: 4, traitorCount: 1, endCondition: 'first_traitor_removed', gameType: 'random' }), new SeededRandom(42))
       const result = game.run()
       
-      expect(result.rounds.length).toBe(result.totalRounds)
+      expect(roundsFromEvents(result.events).length).toBe(result.totalRounds)
       
       // Each round should have required properties
-      result.rounds.forEach((round, index) => {
+      roundsFromEvents(result.events).forEach((round, index) => {
         expect(round.roundNumber).toBe(index + 1)
         expect(round.phaseOneVotes).toBeInstanceOf(Map)
-        expect(round.phaseOneRemoved).toBeGreaterThanOrEqual(0)
+        expect(round.phaseOneRemoved[0]).toBeGreaterThanOrEqual(0)
         expect(round.remainingActors).toBeInstanceOf(Array)
       })
     })
 
     it('should remove exactly one actor in phase one', () => {
-      const game = new VotingGame(5, 2, 'first_traitor_removed', 'random')
+      const game = new VotingGame(makeGameConfig({ loyalistCount: 5, traitorCount: 2, endCondition: 'first_traitor_removed', gameType: 'random' }), new SeededRandom(42))
       const result = game.run()
       
-      result.rounds.forEach(round => {
-        expect(round.phaseOneRemoved).toBeGreaterThanOrEqual(0)
-        expect(typeof round.phaseOneRemoved).toBe('number')
+      roundsFromEvents(result.events).forEach(round => {
+        expect(round.phaseOneRemoved).toHaveLength(1)
+        expect(typeof round.phaseOneRemoved[0]).toBe('number')
       })
     })
 
     it('should track remaining actors after each round', () => {
-      const game = new VotingGame(4, 1, 'first_traitor_removed', 'random')
+      const game = new VotingGame(makeGameConfig({ loyalistCount: 4, traitorCount: 1, endCondition: 'first_traitor_removed', gameType: 'random' }), new SeededRandom(42))
       const result = game.run()
       
       let previousActorCount = 5 // 4 loyalists + 1 traitor
       
-      result.rounds.forEach(round => {
+      roundsFromEvents(result.events).forEach(round => {
         const currentCount = round.remainingActors.length
         
         // Actor count should decrease or stay the same
@@ -135,10 +142,10 @@ describe('VotingGame', () => {
 
   describe('voting mechanics', () => {
     it('should record votes in phase one', () => {
-      const game = new VotingGame(5, 2, 'first_traitor_removed', 'random')
+      const game = new VotingGame(makeGameConfig({ loyalistCount: 5, traitorCount: 2, endCondition: 'first_traitor_removed', gameType: 'random' }), new SeededRandom(42))
       const result = game.run()
       
-      result.rounds.forEach(round => {
+      roundsFromEvents(result.events).forEach(round => {
         expect(round.phaseOneVotes.size).toBeGreaterThan(0)
         
         // Votes should be positive integers
@@ -150,14 +157,14 @@ describe('VotingGame', () => {
     })
 
     it('should handle phase two removal when game continues', () => {
-      const game = new VotingGame(6, 1, 'first_traitor_removed', 'random')
+      const game = new VotingGame(makeGameConfig({ loyalistCount: 6, traitorCount: 1, endCondition: 'first_traitor_removed', gameType: 'random' }), new SeededRandom(42))
       const result = game.run()
       
       // Most rounds should have phase two (except possibly the last)
-      const roundsWithPhaseTwo = result.rounds.filter(r => r.phaseTwoRemoved !== -1)
+      const roundsWithPhaseTwo = roundsFromEvents(result.events).filter(r => r.phaseTwoRemoved.length > 0)
       
       // At least some rounds should have phase two
-      if (result.rounds.length > 1) {
+      if (roundsFromEvents(result.events).length > 1) {
         expect(roundsWithPhaseTwo.length).toBeGreaterThan(0)
       }
     })
@@ -167,13 +174,13 @@ describe('VotingGame', () => {
       let phaseOneEndFound = false
       
       for (let i = 0; i < 30; i++) {
-        const game = new VotingGame(3, 1, 'first_traitor_removed', 'random')
+        const game = new VotingGame(makeGameConfig({ loyalistCount: 3, traitorCount: 1, endCondition: 'first_traitor_removed', gameType: 'random' }), new SeededRandom(i))
         const result = game.run()
         
-        const lastRound = result.rounds[result.rounds.length - 1]
-        if (lastRound.phaseTwoRemoved === -1) {
+        const lastRound = roundsFromEvents(result.events)[roundsFromEvents(result.events).length - 1]
+        if (lastRound.phaseTwoRemoved.length === 0) {
           phaseOneEndFound = true
-          expect(lastRound.phaseTwoRemoved).toBe(-1)
+          expect(lastRound.phaseTwoRemoved).toEqual([])
           break
         }
       }
@@ -186,13 +193,13 @@ describe('VotingGame', () => {
 describe('runSimulation', () => {
   it('should run specified number of iterations', () => {
     const iterations = 10
-    const results = runSimulation(iterations, 5, 2, 'random', 'first_traitor_removed', 'random')
+    const results = runSimulation(iterations, makeGameConfig({ loyalistCount: 5, traitorCount: 2, simulationType: 'random', endCondition: 'first_traitor_removed', gameType: 'random' }), 42)
     
     expect(results.length).toBe(iterations)
   })
 
   it('should return array of round counts', () => {
-    const results = runSimulation(5, 4, 1, 'random', 'first_traitor_removed', 'random')
+    const results = runSimulation(5, makeGameConfig({ loyalistCount: 4, traitorCount: 1, simulationType: 'random', endCondition: 'first_traitor_removed', gameType: 'random' }), 42)
     
     results.forEach(result => {
       expect(typeof result.totalRounds).toBe('number')
@@ -203,7 +210,7 @@ describe('runSimulation', () => {
   })
 
   it('should produce varied results across iterations', () => {
-    const results = runSimulation(100, 5, 2, 'random', 'first_traitor_removed', 'random')
+    const results = runSimulation(100, makeGameConfig({ loyalistCount: 5, traitorCount: 2, simulationType: 'random', endCondition: 'first_traitor_removed', gameType: 'random' }), 42)
     
     // With randomness, we should get at least some variation
     const uniqueResults = new Set(results.map(r => r.totalRounds))
@@ -214,7 +221,7 @@ describe('runSimulation', () => {
   })
 
   it('should handle single iteration', () => {
-    const results = runSimulation(1, 3, 1, 'random', 'first_traitor_removed', 'random')
+    const results = runSimulation(1, makeGameConfig({ loyalistCount: 3, traitorCount: 1, simulationType: 'random', endCondition: 'first_traitor_removed', gameType: 'random' }), 42)
     
     expect(results.length).toBe(1)
     expect(results[0].totalRounds).toBeGreaterThan(0)
@@ -222,7 +229,7 @@ describe('runSimulation', () => {
   })
 
   it('should handle many iterations', () => {
-    const results = runSimulation(100, 5, 2, 'random', 'first_traitor_removed', 'random')
+    const results = runSimulation(100, makeGameConfig({ loyalistCount: 5, traitorCount: 2, simulationType: 'random', endCondition: 'first_traitor_removed', gameType: 'random' }), 42)
     
     expect(results.length).toBe(100)
     results.forEach(result => {
@@ -232,62 +239,47 @@ describe('runSimulation', () => {
   })
 })
 
+describe('streamSimulation', () => {
+  it('should hand over the games runSimulation returns, one at a time', () => {
+    const config = makeGameConfig({ loyalistCount: 6, traitorCount: 2 })
+    const streamed: GameResult[] = []
+    streamSimulation(12, config, 5, 30, game => streamed.push(game))
+
+    expect(streamed).toEqual(runSimulation(12, config, 5, 30))
+  })
+})
+
 describe('calculateStatistics', () => {
   it('should calculate correct mean', () => {
-    const results = [2, 4, 6, 8, 10].map(rounds => ({ 
-      totalRounds: rounds, 
-      outcome: 'traitor_removed' as const,
-      rounds: [],
-      endCondition: 'first_traitor_removed' as const
-    }))
+    const results = [2, 4, 6, 8, 10].map(makeGameResult)
     const stats = calculateStatistics(results)
     
     expect(stats.mean).toBe(6)
   })
 
   it('should calculate correct median for odd-length array', () => {
-    const results = [1, 3, 5, 7, 9].map(rounds => ({ 
-      totalRounds: rounds, 
-      outcome: 'traitor_removed' as const,
-      rounds: [],
-      endCondition: 'first_traitor_removed' as const
-    }))
+    const results = [1, 3, 5, 7, 9].map(makeGameResult)
     const stats = calculateStatistics(results)
     
     expect(stats.median).toBe(5)
   })
 
   it('should calculate correct median for even-length array', () => {
-    const results = [2, 4, 6, 8].map(rounds => ({ 
-      totalRounds: rounds, 
-      outcome: 'traitor_removed' as const,
-      rounds: [],
-      endCondition: 'first_traitor_removed' as const
-    }))
+    const results = [2, 4, 6, 8].map(makeGameResult)
     const stats = calculateStatistics(results)
     
     expect(stats.median).toBe(5)
   })
 
   it('should calculate correct mode', () => {
-    const results = [2, 3, 3, 3, 4, 5].map(rounds => ({ 
-      totalRounds: rounds, 
-      outcome: 'traitor_removed' as const,
-      rounds: [],
-      endCondition: 'first_traitor_removed' as const
-    }))
+    const results = [2, 3, 3, 3, 4, 5].map(makeGameResult)
     const stats = calculateStatistics(results)
     
     expect(stats.mode).toBe(3)
   })
 
   it('should calculate correct min and max', () => {
-    const results = [3, 1, 4, 1, 5, 9, 2, 6].map(rounds => ({ 
-      totalRounds: rounds, 
-      outcome: 'traitor_removed' as const,
-      rounds: [],
-      endCondition: 'first_traitor_removed' as const
-    }))
+    const results = [3, 1, 4, 1, 5, 9, 2, 6].map(makeGameResult)
     const stats = calculateStatistics(results)
     
     expect(stats.min).toBe(1)
@@ -295,12 +287,7 @@ describe('calculateStatistics', () => {
   })
 
   it('should calculate standard deviation', () => {
-    const results = [2, 4, 4, 4, 5, 5, 7, 9].map(rounds => ({ 
-      totalRounds: rounds, 
-      outcome: 'traitor_removed' as const,
-      rounds: [],
-      endCondition: 'first_traitor_removed' as const
-    }))
+    const results = [2, 4, 4, 4, 5, 5, 7, 9].map(makeGameResult)
     const stats = calculateStatistics(results)
     
     expect(stats.stdDev).toBeGreaterThan(0)
@@ -308,7 +295,7 @@ describe('calculateStatistics', () => {
   })
 
   it('should handle empty array', () => {
-    const results: Array<{ totalRounds: number; outcome: 'traitor_removed' | 'no_loyalists'; rounds: never[]; endCondition: 'first_traitor_removed' }> = []
+    const results: GameResult[] = []
     const stats = calculateStatistics(results)
     
     expect(stats.mean).toBe(0)
@@ -320,12 +307,7 @@ describe('calculateStatistics', () => {
   })
 
   it('should handle single value', () => {
-    const results = [{ 
-      totalRounds: 5, 
-      outcome: 'traitor_removed' as const,
-      rounds: [],
-      endCondition: 'first_traitor_removed' as const
-    }]
+    const results = [makeGameResult(5)]
     const stats = calculateStatistics(results)
     
     expect(stats.mean).toBe(5)
@@ -336,13 +318,17 @@ describe('calculateStatistics', () => {
     expect(stats.stdDev).toBe(0)
   })
 
+  it('should count games that hit the round cap', () => {
+    const results = [3, 5, 5].map(makeGameResult)
+    results[1].outcome = 'timeout'
+    results[2].outcome = 'timeout'
+
+    expect(calculateStatistics(results).timeouts).toBe(2)
+    expect(calculateStatistics([]).timeouts).toBe(0)
+  })
+
   it('should handle all same values', () => {
-    const results = [3, 3, 3, 3, 3].map(rounds => ({ 
-      totalRounds: rounds, 
-      outcome: 'traitor_removed' as const,
-      rounds: [],
-      endCondition: 'first_traitor_removed' as const
-    }))
+    const results = [3, 3, 3, 3, 3].map(makeGameResult)
     const stats = calculateStatistics(results)
     
     expect(stats.mean).toBe(3)
@@ -354,7 +340,7 @@ describe('calculateStatistics', () => {
   })
 
   it('should correctly calculate statistics for realistic simulation data', () => {
-    const rounds = runSimulation(50, 5, 2, 'random', 'first_traitor_removed', 'random')
+    const rounds = runSimulation(50, makeGameConfig({ loyalistCount: 5, traitorCount: 2, simulationType: 'random', endCondition: 'first_traitor_removed', gameType: 'random' }), 42)
     const stats = calculateStatistics(rounds)
     
     expect(stats.mean).toBeGreaterThan(0)
@@ -373,25 +359,25 @@ describe('calculateStatistics', () => {
 describe('VotingGame with fixate strategy', () => {
   describe('constructor', () => {
     it('should accept gameType parameter and initialize correctly', () => {
-      const game = new VotingGame(5, 2, 'first_traitor_removed', 'fixate')
+      const game = new VotingGame(makeGameConfig({ loyalistCount: 5, traitorCount: 2, endCondition: 'first_traitor_removed', gameType: 'fixate' }), new SeededRandom(42))
       const result = game.run()
       
-      expect(result.rounds.length).toBeGreaterThan(0)
+      expect(roundsFromEvents(result.events).length).toBeGreaterThan(0)
       expect(result.totalRounds).toBeGreaterThan(0)
       expect(['traitor_removed', 'no_loyalists']).toContain(result.outcome)
     })
 
     it('should default to random strategy when gameType not specified', () => {
-      const game = new VotingGame(5, 2, 'first_traitor_removed', 'random')
+      const game = new VotingGame(makeGameConfig({ loyalistCount: 5, traitorCount: 2, endCondition: 'first_traitor_removed', gameType: 'random' }), new SeededRandom(42))
       const result = game.run()
       
-      expect(result.rounds.length).toBeGreaterThan(0)
+      expect(roundsFromEvents(result.events).length).toBeGreaterThan(0)
     })
   })
 
   describe('fixate voting behavior', () => {
     it('should complete games with fixate strategy', () => {
-      const game = new VotingGame(10, 3, 'first_traitor_removed', 'fixate')
+      const game = new VotingGame(makeGameConfig({ loyalistCount: 10, traitorCount: 3, endCondition: 'first_traitor_removed', gameType: 'fixate' }), new SeededRandom(42))
       const result = game.run()
       
       expect(result.totalRounds).toBeGreaterThan(0)
@@ -400,7 +386,7 @@ describe('VotingGame with fixate strategy', () => {
     })
 
     it('should handle small games with fixate strategy', () => {
-      const game = new VotingGame(2, 1, 'first_traitor_removed', 'fixate')
+      const game = new VotingGame(makeGameConfig({ loyalistCount: 2, traitorCount: 1, endCondition: 'first_traitor_removed', gameType: 'fixate' }), new SeededRandom(42))
       const result = game.run()
       
       expect(result.totalRounds).toBeGreaterThan(0)
@@ -411,7 +397,7 @@ describe('VotingGame with fixate strategy', () => {
       let traitorRemovedFound = false
       
       for (let i = 0; i < 50; i++) {
-        const game = new VotingGame(5, 1, 'first_traitor_removed', 'fixate')
+        const game = new VotingGame(makeGameConfig({ loyalistCount: 5, traitorCount: 1, endCondition: 'first_traitor_removed', gameType: 'fixate' }), new SeededRandom(i))
         const result = game.run()
         
         if (result.outcome === 'traitor_removed') {
@@ -428,7 +414,7 @@ describe('VotingGame with fixate strategy', () => {
       let noLoyalistsFound = false
       
       for (let i = 0; i < 50; i++) {
-        const game = new VotingGame(2, 1, 'first_traitor_removed', 'fixate')
+        const game = new VotingGame(makeGameConfig({ loyalistCount: 2, traitorCount: 1, endCondition: 'first_traitor_removed', gameType: 'fixate' }), new SeededRandom(i))
         const result = game.run()
         
         if (result.outcome === 'no_loyalists') {
@@ -442,21 +428,21 @@ describe('VotingGame with fixate strategy', () => {
     })
 
     it('should record round history with fixate strategy', () => {
-      const game = new VotingGame(4, 1, 'first_traitor_removed', 'fixate')
+      const game = new VotingGame(makeGameConfig({ loyalistCount: 4, traitorCount: 1, endCondition: 'first_traitor_removed', gameType: 'fixate' }), new SeededRandom(42))
       const result = game.run()
       
-      expect(result.rounds.length).toBe(result.totalRounds)
+      expect(roundsFromEvents(result.events).length).toBe(result.totalRounds)
       
-      result.rounds.forEach((round, index) => {
+      roundsFromEvents(result.events).forEach((round, index) => {
         expect(round.roundNumber).toBe(index + 1)
         expect(round.phaseOneVotes).toBeInstanceOf(Map)
-        expect(round.phaseOneRemoved).toBeGreaterThanOrEqual(0)
+        expect(round.phaseOneRemoved[0]).toBeGreaterThanOrEqual(0)
         expect(round.remainingActors).toBeInstanceOf(Array)
       })
     })
 
     it('should handle edge case with 1 loyalist and 1 traitor', () => {
-      const game = new VotingGame(1, 1, 'first_traitor_removed', 'fixate')
+      const game = new VotingGame(makeGameConfig({ loyalistCount: 1, traitorCount: 1, endCondition: 'first_traitor_removed', gameType: 'fixate' }), new SeededRandom(42))
       const result = game.run()
       
       expect(result.totalRounds).toBeGreaterThan(0)
@@ -466,8 +452,8 @@ describe('VotingGame with fixate strategy', () => {
 
   describe('comparison with random strategy', () => {
     it('should produce different statistical distributions than random strategy', () => {
-      const randomResults = runSimulation(100, 8, 2, 'random', 'first_traitor_removed', 'random')
-      const fixateResults = runSimulation(100, 8, 2, 'random', 'first_traitor_removed', 'fixate')
+      const randomResults = runSimulation(100, makeGameConfig({ loyalistCount: 8, traitorCount: 2, simulationType: 'random', endCondition: 'first_traitor_removed', gameType: 'random' }), 42)
+      const fixateResults = runSimulation(100, makeGameConfig({ loyalistCount: 8, traitorCount: 2, simulationType: 'random', endCondition: 'first_traitor_removed', gameType: 'fixate' }), 42)
       
       const randomStats = calculateStatistics(randomResults)
       const fixateStats = calculateStatistics(fixateResults)
@@ -485,7 +471,7 @@ describe('VotingGame with fixate strategy', () => {
       const strategies: GameType[] = ['random', 'fixate']
       
       strategies.forEach(strategy => {
-        const game = new VotingGame(5, 2, 'first_traitor_removed', strategy)
+        const game = new VotingGame(makeGameConfig({ loyalistCount: 5, traitorCount: 2, endCondition: 'first_traitor_removed', gameType: strategy }), new SeededRandom(42))
         const result = game.run()
         
         expect(result.totalRounds).toBeGreaterThan(0)
@@ -497,7 +483,7 @@ describe('VotingGame with fixate strategy', () => {
 
 describe('runSimulation with gameType parameter', () => {
   it('should accept and use gameType parameter', () => {
-    const results = runSimulation(10, 5, 2, 'random', 'first_traitor_removed', 'fixate')
+    const results = runSimulation(10, makeGameConfig({ loyalistCount: 5, traitorCount: 2, simulationType: 'random', endCondition: 'first_traitor_removed', gameType: 'fixate' }), 42)
     
     expect(results.length).toBe(10)
     results.forEach(result => {
@@ -507,7 +493,7 @@ describe('runSimulation with gameType parameter', () => {
   })
 
   it('should default to random when gameType not provided', () => {
-    const results = runSimulation(10, 5, 2, 'random', 'first_traitor_removed', 'random')
+    const results = runSimulation(10, makeGameConfig({ loyalistCount: 5, traitorCount: 2, simulationType: 'random', endCondition: 'first_traitor_removed', gameType: 'random' }), 42)
     
     expect(results.length).toBe(10)
     results.forEach(result => {
@@ -517,7 +503,7 @@ describe('runSimulation with gameType parameter', () => {
   })
 
   it('should work with random gameType explicitly set', () => {
-    const results = runSimulation(10, 5, 2, 'random', 'first_traitor_removed', 'random')
+    const results = runSimulation(10, makeGameConfig({ loyalistCount: 5, traitorCount: 2, simulationType: 'random', endCondition: 'first_traitor_removed', gameType: 'random' }), 42)
     
     expect(results.length).toBe(10)
     results.forEach(result => {
@@ -527,11 +513,1018 @@ describe('runSimulation with gameType parameter', () => {
   })
 
   it('should produce varied results with fixate strategy', () => {
-    const results = runSimulation(100, 5, 2, 'random', 'first_traitor_removed', 'fixate')
+    const results = runSimulation(100, makeGameConfig({ loyalistCount: 5, traitorCount: 2, simulationType: 'random', endCondition: 'first_traitor_removed', gameType: 'fixate' }), 42)
     
-    const uniqueResults = new Set(results.map(r => r.rounds))
+    const uniqueResults = new Set(results.map(r => roundsFromEvents(r.events)))
     
     // Should have variation due to randomness
     expect(uniqueResults.size).toBeGreaterThanOrEqual(2)
   })
 })
+
+describe('seeded reproducibility', () => {
+  it('should replay a game exactly from the same seed', () => {
+    const first = new VotingGame(makeGameConfig({ loyalistCount: 8, traitorCount: 2, endCondition: 'all_one_type', gameType: 'fixate' }), new SeededRandom(2024)).run()
+    const second = new VotingGame(makeGameConfig({ loyalistCount: 8, traitorCount: 2, endCondition: 'all_one_type', gameType: 'fixate' }), new SeededRandom(2024)).run()
+
+    expect(second).toEqual(first)
+  })
+
+  it('should record the seed on the game result', () => {
+    const result = new VotingGame(makeGameConfig({ loyalistCount: 5, traitorCount: 2, endCondition: 'first_traitor_removed', gameType: 'random' }), new SeededRandom(77)).run()
+
+    expect(result.seed).toBe(77)
+  })
+
+  it('should produce the exact rounds for a known seed', () => {
+    const result = new VotingGame(makeGameConfig({ loyalistCount: 5, traitorCount: 2, endCondition: 'first_traitor_removed', gameType: 'random' }), new SeededRandom(1)).run()
+
+    expect(result.totalRounds).toBe(3)
+    expect(result.outcome).toBe('no_loyalists')
+    expect(roundsFromEvents(result.events).map(r => [r.phaseOneRemoved, r.phaseTwoRemoved])).toEqual([[[4], [0]], [[1], [2]], [[3], []]])
+  })
+
+  it('should replay an influence game exactly from the same seed', () => {
+    const first = new VotingGame(makeGameConfig({ loyalistCount: 6, traitorCount: 2, simulationType: 'influence' }), new SeededRandom(5)).run()
+    const second = new VotingGame(makeGameConfig({ loyalistCount: 6, traitorCount: 2, simulationType: 'influence' }), new SeededRandom(5)).run()
+
+    expect(second).toEqual(first)
+  })
+
+  it('should produce identical simulations for the same seed and config', () => {
+    const first = runSimulation(50, makeGameConfig({ loyalistCount: 6, traitorCount: 2, simulationType: 'random', endCondition: 'all_one_type', gameType: 'random' }), 123)
+    const second = runSimulation(50, makeGameConfig({ loyalistCount: 6, traitorCount: 2, simulationType: 'random', endCondition: 'all_one_type', gameType: 'random' }), 123)
+
+    expect(second).toEqual(first)
+  })
+
+  it('should produce different simulations for different seeds', () => {
+    const first = runSimulation(50, makeGameConfig({ loyalistCount: 6, traitorCount: 2, simulationType: 'random', endCondition: 'all_one_type', gameType: 'random' }), 1)
+    const second = runSimulation(50, makeGameConfig({ loyalistCount: 6, traitorCount: 2, simulationType: 'random', endCondition: 'all_one_type', gameType: 'random' }), 2)
+
+    expect(second.map(r => r.totalRounds)).not.toEqual(first.map(r => r.totalRounds))
+  })
+
+  it('should give the same games regardless of batching', () => {
+    const whole = runSimulation(20, makeGameConfig({ loyalistCount: 5, traitorCount: 2, simulationType: 'influence', endCondition: 'first_traitor_removed', gameType: 'random' }), 9)
+    const batched = [
+      ...runSimulation(10, makeGameConfig({ loyalistCount: 5, traitorCount: 2, simulationType: 'influence', endCondition: 'first_traitor_removed', gameType: 'random' }), 9, 0),
+      ...runSimulation(10, makeGameConfig({ loyalistCount: 5, traitorCount: 2, simulationType: 'influence', endCondition: 'first_traitor_removed', gameType: 'random' }), 9, 10)
+    ]
+
+    expect(batched).toEqual(whole)
+  })
+
+  it('should let a single game be reproduced from its recorded seed', () => {
+    const results = runSimulation(10, makeGameConfig({ loyalistCount: 5, traitorCount: 2, simulationType: 'random', endCondition: 'first_traitor_removed', gameType: 'fixate' }), 31)
+    const target = results[6]
+    const replay = new VotingGame(makeGameConfig({ loyalistCount: 5, traitorCount: 2, endCondition: 'first_traitor_removed', gameType: 'fixate' }), new SeededRandom(target.seed)).run()
+
+    expect(roundsFromEvents(replay.events)).toEqual(roundsFromEvents(target.events))
+    expect(replay.outcome).toBe(target.outcome)
+  })
+})
+
+describe('influence rule set end conditions', () => {
+  it('should report the configured end condition and simulation type', () => {
+    const config = makeGameConfig({ loyalistCount: 6, traitorCount: 2, simulationType: 'influence', endCondition: 'all_one_type' })
+    const result = new VotingGame(config, new SeededRandom(3)).run()
+
+    expect(result.endCondition).toBe('all_one_type')
+    expect(result.simulationType).toBe('influence')
+  })
+
+  it('should play all_one_type games until only one faction remains', () => {
+    const config = makeGameConfig({ loyalistCount: 6, traitorCount: 2, simulationType: 'influence', endCondition: 'all_one_type' })
+    const outcomes = new Set<string>()
+
+    for (let i = 0; i < 100; i++) {
+      const result = new VotingGame(config, new SeededRandom(i)).run()
+      const finalActors = roundsFromEvents(result.events)[roundsFromEvents(result.events).length - 1].remainingActors
+      const finalTypes = new Set(finalActors.map(a => a.type))
+
+      expect(['all_loyalists', 'all_traitors']).toContain(result.outcome)
+      expect(finalTypes.size).toBe(1)
+      expect(finalActors[0].type).toBe(result.outcome === 'all_loyalists' ? 'loyalist' : 'traitor')
+      outcomes.add(result.outcome)
+    }
+
+    expect(outcomes).toEqual(new Set(['all_loyalists', 'all_traitors']))
+  })
+
+  it('should end first_traitor_removed games as soon as a traitor is banished', () => {
+    const config = makeGameConfig({ loyalistCount: 6, traitorCount: 2, simulationType: 'influence', endCondition: 'first_traitor_removed' })
+
+    for (let i = 0; i < 100; i++) {
+      const result = new VotingGame(config, new SeededRandom(i)).run()
+      const lastRound = roundsFromEvents(result.events)[roundsFromEvents(result.events).length - 1]
+
+      expect(result.endCondition).toBe('first_traitor_removed')
+      if (result.outcome === 'traitor_removed') {
+        expect(lastRound.phaseOneRemoved[0]).toBeGreaterThanOrEqual(6)
+        expect(lastRound.remainingActors.some(a => a.type === 'traitor')).toBe(true)
+      } else {
+        expect(result.outcome).toBe('no_loyalists')
+        expect(lastRound.remainingActors.every(a => a.type === 'traitor')).toBe(true)
+      }
+    }
+  })
+
+  it('should tally influence outcomes from runSimulation under all_one_type', () => {
+    const config = makeGameConfig({ loyalistCount: 8, traitorCount: 2, simulationType: 'influence', endCondition: 'all_one_type' })
+    const results = runSimulation(50, config, 17)
+
+    results.forEach(result => {
+      expect(['all_loyalists', 'all_traitors']).toContain(result.outcome)
+      expect(result.endCondition).toBe('all_one_type')
+    })
+  })
+})
+
+describe('configurable phase two', () => {
+  const phaseTwo = makeGameConfig({}).phaseTwo
+
+  it('should remove up to removalsPerRound loyalists each night', () => {
+    const config = makeGameConfig({ loyalistCount: 12, traitorCount: 2, endCondition: 'all_one_type', phaseTwo: { ...phaseTwo, removalsPerRound: 2 } })
+
+    for (let i = 0; i < 20; i++) {
+      const result = new VotingGame(config, new SeededRandom(i)).run()
+      const firstRound = roundsFromEvents(result.events)[0]
+
+      if (result.totalRounds > 1) {
+        expect(firstRound.phaseTwoRemoved).toHaveLength(2)
+        expect(new Set(firstRound.phaseTwoRemoved).size).toBe(2)
+        expect(firstRound.phaseTwoRemoved.every(id => id < 12)).toBe(true)
+      }
+    }
+  })
+
+  it('should stop removing once no loyalists remain', () => {
+    const config = makeGameConfig({ loyalistCount: 3, traitorCount: 2, endCondition: 'all_one_type', phaseTwo: { ...phaseTwo, removalsPerRound: 5 } })
+
+    for (let i = 0; i < 20; i++) {
+      const result = new VotingGame(config, new SeededRandom(i)).run()
+
+      roundsFromEvents(result.events).forEach(round => expect(round.phaseTwoRemoved.length).toBeLessThanOrEqual(3))
+    }
+  })
+
+  it('should never remove anyone in phase two with probability 0', () => {
+    const config = makeGameConfig({ endCondition: 'all_one_type', phaseTwo: { ...phaseTwo, removalProbability: 0 } })
+    const results = runSimulation(50, config, 3)
+
+    results.forEach(result => {
+      roundsFromEvents(result.events).forEach(round => expect(round.phaseTwoRemoved).toEqual([]))
+    })
+  })
+
+  it('should remove someone on roughly removalProbability of nights', () => {
+    const config = makeGameConfig({ loyalistCount: 20, traitorCount: 2, phaseTwo: { ...phaseTwo, removalProbability: 0.5 } })
+    const results = runSimulation(200, config, 9)
+    // Only rounds that reached phase two
+    const nights = results.flatMap(r => roundsFromEvents(r.events).slice(0, -1))
+    const removals = nights.filter(round => round.phaseTwoRemoved.length > 0).length
+
+    expect(removals / nights.length).toBeGreaterThan(0.4)
+    expect(removals / nights.length).toBeLessThan(0.6)
+  })
+
+  it('should skip the listed rounds', () => {
+    const config = makeGameConfig({ loyalistCount: 10, traitorCount: 2, endCondition: 'all_one_type', phaseTwo: { ...phaseTwo, skipRounds: [1, 3] } })
+    const results = runSimulation(30, config, 5)
+
+    results.forEach(result => {
+      roundsFromEvents(result.events).forEach(round => {
+        if (round.roundNumber === 1 || round.roundNumber === 3) {
+          expect(round.phaseTwoRemoved).toEqual([])
+        }
+      })
+    })
+    expect(results.some(r => roundsFromEvents(r.events).length > 2 && roundsFromEvents(r.events)[1].phaseTwoRemoved.length > 0)).toBe(true)
+  })
+
+  it('should use and record the targeting override', () => {
+    const config = makeGameConfig({ phaseTwo: { ...phaseTwo, targeting: 'least_suspected' } })
+    const result = new VotingGame(config, new SeededRandom(1)).run()
+
+    expect(result.phaseTwoTargeting).toBe('least_suspected')
+  })
+
+  it('should record the rule set targeting without an override', () => {
+    expect(new VotingGame(makeGameConfig({}), new SeededRandom(1)).run().phaseTwoTargeting).toBe('random_loyalist')
+    expect(new VotingGame(makeGameConfig({ simulationType: 'influence' }), new SeededRandom(1)).run().phaseTwoTargeting)
+      .toBe('most_influential_loyalist')
+  })
+
+  it('should reject influence targeting outside the influence rule set', () => {
+    const config = makeGameConfig({ phaseTwo: { ...phaseTwo, targeting: 'most_influential_loyalist' } })
+
+    expect(() => new VotingGame(config, new SeededRandom(1))).toThrow('needs the influence rule set')
+  })
+
+  it('should reject invalid phase two settings', () => {
+    const invalid = [
+      { ...phaseTwo, removalsPerRound: -1 },
+      { ...phaseTwo, removalsPerRound: 1.5 },
+      { ...phaseTwo, removalProbability: 1.2 },
+      { ...phaseTwo, removalProbability: -0.1 }
+    ]
+
+    invalid.forEach(settings => {
+      expect(() => new VotingGame(makeGameConfig({ phaseTwo: settings }), new SeededRandom(1))).toThrow()
+    })
+  })
+})
+
+describe('traitor recruitment', () => {
+  const recruitment = makeGameConfig({}).recruitment
+
+  it('should never recruit when no triggers are set', () => {
+    const results = runSimulation(50, makeGameConfig({ endCondition: 'all_one_type' }), 2)
+
+    results.forEach(result => {
+      roundsFromEvents(result.events).forEach(round => expect(round.phaseTwoRecruited).toBeNull())
+    })
+  })
+
+  it('should convert a loyalist instead of removing one while traitors are below the threshold', () => {
+    const config = makeGameConfig({
+      loyalistCount: 10,
+      traitorCount: 1,
+      endCondition: 'all_one_type',
+      recruitment: { triggers: ['below_threshold'], traitorThreshold: 3 }
+    })
+    const result = new VotingGame(config, new SeededRandom(4)).run()
+    const firstRound = roundsFromEvents(result.events)[0]
+
+    expect(firstRound.phaseTwoRecruited).not.toBeNull()
+    expect(firstRound.phaseTwoRecruited!).toBeLessThan(10)
+    expect(firstRound.phaseTwoRemoved).toEqual([])
+    const recruit = firstRound.remainingActors.find(a => a.id === firstRound.phaseTwoRecruited)
+    expect(recruit?.type).toBe('traitor')
+  })
+
+  it('should stop recruiting once traitors reach the threshold', () => {
+    const config = makeGameConfig({
+      loyalistCount: 12,
+      traitorCount: 1,
+      endCondition: 'all_one_type',
+      recruitment: { triggers: ['below_threshold'], traitorThreshold: 2 }
+    })
+
+    for (let i = 0; i < 30; i++) {
+      const result = new VotingGame(config, new SeededRandom(i)).run()
+
+      roundsFromEvents(result.events).forEach(round => {
+        if (round.phaseTwoRecruited !== null) {
+          // Phase two only removes loyalists, so the recruit is the one new traitor
+          const traitorsAfter = round.remainingActors.filter(a => a.type === 'traitor').length
+          expect(traitorsAfter - 1).toBeLessThan(2)
+        }
+      })
+    }
+  })
+
+  it('should only recruit after a traitor is banished with the traitor_banished trigger', () => {
+    const config = makeGameConfig({
+      loyalistCount: 10,
+      traitorCount: 3,
+      endCondition: 'all_one_type',
+      recruitment: { ...recruitment, triggers: ['traitor_banished'] }
+    })
+    const results = runSimulation(50, config, 8)
+    let recruits = 0
+
+    results.forEach(result => {
+      const traitorIds = new Set([10, 11, 12])
+      roundsFromEvents(result.events).forEach(round => {
+        if (round.phaseTwoRecruited !== null) {
+          expect(round.phaseOneRemoved.some(id => traitorIds.has(id))).toBe(true)
+          traitorIds.add(round.phaseTwoRecruited)
+          recruits++
+        }
+      })
+    })
+    expect(recruits).toBeGreaterThan(0)
+  })
+
+  it('should recruit in place of the first of several removals', () => {
+    const config = makeGameConfig({
+      loyalistCount: 12,
+      traitorCount: 1,
+      endCondition: 'all_one_type',
+      phaseTwo: { ...makeGameConfig({}).phaseTwo, removalsPerRound: 3 },
+      recruitment: { triggers: ['below_threshold'], traitorThreshold: 2 }
+    })
+    const result = new VotingGame(config, new SeededRandom(6)).run()
+    const firstRound = roundsFromEvents(result.events)[0]
+
+    expect(firstRound.phaseTwoRecruited).not.toBeNull()
+    expect(firstRound.phaseTwoRemoved).toHaveLength(2)
+    expect(firstRound.phaseTwoRemoved).not.toContain(firstRound.phaseTwoRecruited)
+  })
+
+  it('should let recruitment win the game for the traitors', () => {
+    const config = makeGameConfig({
+      loyalistCount: 4,
+      traitorCount: 1,
+      endCondition: 'all_one_type',
+      recruitment: { triggers: ['below_threshold'], traitorThreshold: 10 }
+    })
+    const outcomes = runSimulation(50, config, 1).map(r => r.outcome)
+
+    expect(outcomes).toContain('all_traitors')
+  })
+
+  it('should announce each recruitment round in the game view', () => {
+    const seen: [number, number[]][] = []
+    const config = makeGameConfig({
+      loyalistCount: 8,
+      traitorCount: 1,
+      endCondition: 'all_one_type',
+      recruitment: { triggers: ['below_threshold'], traitorThreshold: 3 }
+    })
+    const game = new VotingGame(config, new SeededRandom(2))
+    game.seatVoter(0, {
+      castBallot: (voter, view) => {
+        seen.push([view.roundNumber, [...view.recruitedRounds]])
+        return view.activeActors.find(a => a.id !== voter.id)?.id ?? null
+      }
+    })
+    const result = game.run()
+    const recruitedRounds = roundsFromEvents(result.events).filter(r => r.phaseTwoRecruited !== null).map(r => r.roundNumber)
+
+    expect(seen.some(([, rounds]) => rounds.length > 0)).toBe(true)
+    seen.forEach(([round, rounds]) => expect(rounds).toEqual(recruitedRounds.filter(recruited => recruited < round)))
+  })
+
+  it('should reject an invalid traitor threshold', () => {
+    const config = makeGameConfig({ recruitment: { triggers: ['below_threshold'], traitorThreshold: -1 } })
+
+    expect(() => new VotingGame(config, new SeededRandom(1))).toThrow('threshold')
+  })
+})
+
+describe('tie policies', () => {
+  const tieBreak = makeGameConfig({}).tieBreak
+
+  function tiedRounds(policy: TiePolicy, overrides: Partial<TieBreakConfig>) {
+    const config = makeGameConfig({ loyalistCount: 6, traitorCount: 2, endCondition: 'all_one_type', tieBreak: { ...tieBreak, policy, ...overrides } })
+    return runSimulation(100, config, 13).flatMap(r => roundsFromEvents(r.events)).filter(round => round.tieBreak !== null)
+  }
+
+  it('should only skip the tie break record when the vote had a single leader', () => {
+    const results = runSimulation(50, makeGameConfig({ endCondition: 'all_one_type' }), 1)
+
+    results.flatMap(r => roundsFromEvents(r.events)).filter(round => round.tieBreak === null).forEach(round => {
+      const topVotes = Math.max(...round.phaseOneVotes.values())
+      expect([...round.phaseOneVotes.values()].filter(count => count === topVotes)).toHaveLength(1)
+    })
+  })
+
+  it('should re-vote up to maxRevotes times before a random draw', () => {
+    const rounds = tiedRounds('revote', { maxRevotes: 3 })
+
+    expect(rounds.length).toBeGreaterThan(0)
+    rounds.forEach(round => {
+      expect(round.phaseOneRemoved).toHaveLength(1)
+      if (round.tieBreak!.policy === 'revote') {
+        expect(round.tieBreak!.revotes).toBeGreaterThanOrEqual(1)
+        expect(round.tieBreak!.revotes).toBeLessThanOrEqual(3)
+      } else {
+        expect(round.tieBreak).toEqual({ policy: 'random', revotes: 3 })
+      }
+    })
+  })
+
+  it('should go straight to a random draw with zero re-votes allowed', () => {
+    const rounds = tiedRounds('revote', { maxRevotes: 0 })
+
+    expect(rounds.length).toBeGreaterThan(0)
+    rounds.forEach(round => expect(round.tieBreak).toEqual({ policy: 'random', revotes: 0 }))
+  })
+
+  it('should banish one tied actor under a random draw', () => {
+    const rounds = tiedRounds('random', {})
+
+    expect(rounds.length).toBeGreaterThan(0)
+    rounds.forEach(round => {
+      expect(round.tieBreak).toEqual({ policy: 'random', revotes: 0 })
+      expect(round.phaseOneRemoved).toHaveLength(1)
+      expect(round.phaseOneVotes.get(round.phaseOneRemoved[0])).toBe(Math.max(...round.phaseOneVotes.values()))
+    })
+  })
+
+  it('should banish no one in a tied round under no_banishment', () => {
+    const rounds = tiedRounds('no_banishment', {})
+
+    expect(rounds.length).toBeGreaterThan(0)
+    rounds.forEach(round => expect(round.phaseOneRemoved).toEqual([]))
+  })
+
+  it('should banish every tied actor under banish_all', () => {
+    const rounds = tiedRounds('banish_all', {})
+
+    expect(rounds.length).toBeGreaterThan(0)
+    rounds.forEach(round => {
+      const topVotes = Math.max(...round.phaseOneVotes.values())
+      const leaders = [...round.phaseOneVotes.entries()].filter(([, count]) => count === topVotes).map(([id]) => id)
+
+      expect(round.phaseOneRemoved.length).toBeGreaterThan(1)
+      expect([...round.phaseOneRemoved].sort()).toEqual(leaders.sort())
+    })
+  })
+
+  it('should never have the lowest-ID decider banish themselves', () => {
+    const rounds = tiedRounds('lowest_id', {})
+
+    expect(rounds.length).toBeGreaterThan(0)
+    rounds.forEach(round => {
+      expect(round.phaseOneRemoved).toHaveLength(1)
+      expect(round.phaseOneRemoved).not.toContain(0)
+    })
+  })
+
+  it('should have a traitor chair spare fellow traitors', () => {
+    const rounds = tiedRounds('chair', { chairId: 6 })
+
+    expect(rounds.length).toBeGreaterThan(0)
+    rounds.forEach(round => {
+      const topVotes = Math.max(...round.phaseOneVotes.values())
+      const leaders = [...round.phaseOneVotes.entries()].filter(([, count]) => count === topVotes).map(([id]) => id)
+      const chairActive = round.remainingActors.some(a => a.id === 6)
+
+      if (chairActive && leaders.some(id => id < 6)) {
+        expect(round.phaseOneRemoved[0]).toBeLessThan(6)
+      }
+    })
+  })
+
+  it('should settle influence re-votes by lowest influence among the tied actors, as the pre-merge engine did', () => {
+    const config = makeGameConfig({ loyalistCount: 6, traitorCount: 2, simulationType: 'influence', endCondition: 'all_one_type' })
+    const results = runSimulation(100, config, 13)
+    let checked = 0
+
+    results.forEach(result => {
+      const started = result.events[0]
+      if (started.type !== 'game_started') {
+        throw new Error('The log must open with game_started')
+      }
+      roundsFromEvents(result.events).forEach((round, index) => {
+        // Influence only changes at the end of phase one
+        const influence = index === 0 ? started.influence! : roundsFromEvents(result.events)[index - 1].influence!
+        const traitors = started.actors.filter(a => a.type === 'traitor').map(a => a.id)
+        round.phaseOneBallots.slice(1, round.tieBreak?.revotes ? round.tieBreak.revotes + 1 : 1).forEach((revote, i) => {
+          const tally = new Map<number, number>()
+          round.phaseOneBallots[i].forEach(b => tally.set(b.targetId, (tally.get(b.targetId) || 0) + 1))
+          const topVotes = Math.max(...tally.values())
+          const tied = [...tally.keys()].filter(id => tally.get(id) === topVotes).sort((a, b) => a - b)
+
+          revote.forEach(({ voterId, targetId }) => {
+            // The pre-merge engine had tied actors vote for themselves and traitors vote for fellow traitors; neither happens now
+            if (tied.includes(voterId) || (traitors.includes(voterId) && tied.some(id => traitors.includes(id)))) {
+              return
+            }
+            const lowest = tied.reduce((best, id) => influence[voterId][id] < influence[voterId][best] ? id : best)
+            expect(targetId).toBe(lowest)
+            checked++
+          })
+        })
+      })
+    })
+
+    expect(checked).toBeGreaterThan(0)
+  })
+
+  it('should keep random re-votes outside the influence rule set', () => {
+    const config = makeGameConfig({ loyalistCount: 6, traitorCount: 2, endCondition: 'all_one_type' })
+    const revotes = runSimulation(100, config, 13).flatMap(r => roundsFromEvents(r.events)).flatMap(round => round.phaseOneBallots.slice(1, (round.tieBreak?.revotes ?? 0) + 1))
+
+    // Random voters may pick themselves among the tied actors, which no strategy does
+    expect(revotes.flat().some(ballot => ballot.voterId === ballot.targetId)).toBe(true)
+  })
+
+  it('should reject a chair who is not in the game', () => {
+    const config = makeGameConfig({ loyalistCount: 5, traitorCount: 2, tieBreak: { ...tieBreak, policy: 'chair', chairId: 7 } })
+
+    expect(() => new VotingGame(config, new SeededRandom(1))).toThrow('not an actor')
+  })
+
+  it('should ignore an out-of-range chair under other tie policies', () => {
+    const config = makeGameConfig({ loyalistCount: 5, traitorCount: 2, tieBreak: { ...tieBreak, policy: 'lowest_id', chairId: 7 } })
+
+    expect(() => new VotingGame(config, new SeededRandom(1)).run()).not.toThrow()
+  })
+
+  it('should reject a negative re-vote limit', () => {
+    const config = makeGameConfig({ tieBreak: { ...tieBreak, maxRevotes: -1 } })
+
+    expect(() => new VotingGame(config, new SeededRandom(1))).toThrow('non-negative integer')
+  })
+})
+
+describe('phase-one ballots', () => {
+  const tieBreak = makeGameConfig({}).tieBreak
+
+  it('should record one opening ballot per active voter', () => {
+    const result = new VotingGame(makeGameConfig({ loyalistCount: 8, traitorCount: 2 }), new SeededRandom(3)).run()
+    let activeCount = 10
+
+    roundsFromEvents(result.events).forEach(round => {
+      const opening = round.phaseOneBallots[0]
+
+      expect(opening).toHaveLength(activeCount)
+      expect(new Set(opening.map(b => b.voterId)).size).toBe(activeCount)
+      opening.forEach(ballot => expect(ballot.voterId).not.toBe(ballot.targetId))
+      activeCount = round.remainingActors.length
+    })
+  })
+
+  it('should tally the last vote into phaseOneVotes', () => {
+    const results = runSimulation(30, makeGameConfig({ endCondition: 'all_one_type' }), 6)
+
+    results.flatMap(r => roundsFromEvents(r.events)).forEach(round => {
+      const lastVote = round.phaseOneBallots[round.phaseOneBallots.length - 1]
+      const tally = new Map<number, number>()
+      lastVote.forEach(b => tally.set(b.targetId, (tally.get(b.targetId) || 0) + 1))
+
+      if (round.tieBreak?.policy !== 'lowest_id' && round.tieBreak?.policy !== 'chair') {
+        expect(tally).toEqual(round.phaseOneVotes)
+      }
+    })
+  })
+
+  it('should record every re-vote, restricted to the tied actors', () => {
+    const config = makeGameConfig({ loyalistCount: 6, traitorCount: 2, endCondition: 'all_one_type' })
+    const rounds = runSimulation(100, config, 13).flatMap(r => roundsFromEvents(r.events)).filter(round => (round.tieBreak?.revotes ?? 0) > 0)
+
+    expect(rounds.length).toBeGreaterThan(0)
+    rounds.forEach(round => {
+      expect(round.phaseOneBallots).toHaveLength(round.tieBreak!.revotes + 1)
+      const opening = round.phaseOneBallots[0]
+      const tally = new Map<number, number>()
+      opening.forEach(b => tally.set(b.targetId, (tally.get(b.targetId) || 0) + 1))
+      const topVotes = Math.max(...tally.values())
+      const tied = [...tally.entries()].filter(([, count]) => count === topVotes).map(([id]) => id)
+
+      round.phaseOneBallots[1].forEach(ballot => expect(tied).toContain(ballot.targetId))
+    })
+  })
+
+  it('should record a deciding vote as its own single-ballot vote', () => {
+    const config = makeGameConfig({ loyalistCount: 6, traitorCount: 2, endCondition: 'all_one_type', tieBreak: { ...tieBreak, policy: 'lowest_id' } })
+    const rounds = runSimulation(100, config, 13).flatMap(r => roundsFromEvents(r.events)).filter(round => round.tieBreak !== null)
+
+    expect(rounds.length).toBeGreaterThan(0)
+    rounds.forEach(round => {
+      expect(round.phaseOneBallots).toHaveLength(2)
+      expect(round.phaseOneBallots[1]).toEqual([{ voterId: expect.any(Number), targetId: round.phaseOneRemoved[0] }])
+    })
+  })
+})
+
+describe('evolving influence', () => {
+  const influenceUpdate = { banishedLoyalistPenalty: 10, banishedTraitorReward: 10, decayRate: 0.1 }
+
+  it('should not snapshot influence without the influence rule set', () => {
+    const result = new VotingGame(makeGameConfig({}), new SeededRandom(1)).run()
+
+    roundsFromEvents(result.events).forEach(round => expect(round.influence).toBeNull())
+  })
+
+  it('should keep the same snapshot every round with static influence', () => {
+    const config = makeGameConfig({ loyalistCount: 6, traitorCount: 2, simulationType: 'influence', endCondition: 'all_one_type' })
+    const result = new VotingGame(config, new SeededRandom(4)).run()
+
+    expect(roundsFromEvents(result.events).length).toBeGreaterThan(1)
+    roundsFromEvents(result.events).forEach(round => expect(round.influence).toEqual(roundsFromEvents(result.events)[0].influence))
+  })
+
+  it('should snapshot evolving influence into every round', () => {
+    const config = makeGameConfig({ loyalistCount: 6, traitorCount: 2, simulationType: 'influence', endCondition: 'all_one_type', influenceUpdate })
+    const result = new VotingGame(config, new SeededRandom(4)).run()
+
+    expect(roundsFromEvents(result.events).length).toBeGreaterThan(1)
+    roundsFromEvents(result.events).forEach(round => expect(round.influence).toHaveLength(8))
+    expect(roundsFromEvents(result.events)[1].influence).not.toEqual(roundsFromEvents(result.events)[0].influence)
+  })
+
+  it('should lower influence over an actor who voted out a loyalist', () => {
+    const config = makeGameConfig({
+      loyalistCount: 6,
+      traitorCount: 2,
+      simulationType: 'influence',
+      endCondition: 'all_one_type',
+      influenceUpdate: { ...influenceUpdate, decayRate: 0 }
+    })
+    const results = runSimulation(20, config, 8)
+    let checked = 0
+
+    results.forEach(result => {
+      roundsFromEvents(result.events).slice(1).forEach((round, index) => {
+        const previous = roundsFromEvents(result.events)[index].influence!
+        const banished = round.phaseOneRemoved[0]
+        if (banished === undefined || banished >= 6) return
+
+        round.phaseOneBallots[0].filter(b => b.targetId === banished).forEach(ballot => {
+          const observer = ballot.voterId === 0 ? 1 : 0
+          expect(round.influence![observer][ballot.voterId]).toBeLessThanOrEqual(previous[observer][ballot.voterId])
+          checked++
+        })
+      })
+    })
+    expect(checked).toBeGreaterThan(0)
+  })
+
+  it('should reject an out-of-range decay rate', () => {
+    const config = makeGameConfig({ simulationType: 'influence', influenceUpdate: { ...influenceUpdate, decayRate: 1.5 } })
+
+    expect(() => new VotingGame(config, new SeededRandom(1))).toThrow('decay rate')
+  })
+})
+
+describe('reveal policies', () => {
+  // Every view handed to the spies, copied as it was when the ballot was cast
+  const loyalistViews: VisibleActor[][] = []
+  const traitorViews: VisibleActor[][] = []
+  const spy = (views: VisibleActor[][]): VoterStrategy => ({
+    castBallot: (voter, view) => {
+      views.push(view.actors.map(a => ({ ...a })))
+      const others = view.activeActors.filter(a => a.id !== voter.id)
+      return others.length > 0 ? others[0].id : null
+    }
+  })
+  useTestStrategies(
+    { id: 'test-loyalist-spy', faction: 'loyalist', label: 'Spy', description: '', requiresInfluence: false, create: () => spy(loyalistViews) },
+    { id: 'test-traitor-spy', faction: 'traitor', label: 'Spy', description: '', requiresInfluence: false, create: () => spy(traitorViews) }
+  )
+
+  const spyConfig = { loyalistCount: 6, traitorCount: 2, endCondition: 'all_one_type' as const, gameType: 'test-loyalist-spy', traitorPolicy: 'test-traitor-spy' }
+
+  beforeEach(() => {
+    loyalistViews.length = 0
+    traitorViews.length = 0
+  })
+
+  it('should show loyalists the types of removed actors only', () => {
+    runSimulation(10, makeGameConfig(spyConfig), 5)
+
+    expect(loyalistViews.some(view => view.some(a => a.type !== null))).toBe(true)
+    loyalistViews.forEach(view => view.forEach(actor => {
+      expect(actor.type !== null).toBe(actor.status === 'removed')
+    }))
+  })
+
+  it('should show traitors every type', () => {
+    runSimulation(10, makeGameConfig(spyConfig), 5)
+
+    expect(traitorViews.length).toBeGreaterThan(0)
+    traitorViews.forEach(view => view.forEach(actor => expect(actor.type).not.toBeNull()))
+  })
+
+  it('should keep every type hidden from loyalists under never', () => {
+    const results = runSimulation(10, makeGameConfig({ ...spyConfig, reveal: { policy: 'never', probability: 1 } }), 5)
+
+    loyalistViews.forEach(view => view.forEach(actor => expect(actor.type).toBeNull()))
+    results.forEach(result => roundsFromEvents(result.events).forEach(round => expect(round.revealed).toEqual([])))
+  })
+
+  it('should record every removal so far as revealed under immediate and end_of_round', () => {
+    for (const policy of ['immediate', 'end_of_round'] as const) {
+      const results = runSimulation(20, makeGameConfig({ loyalistCount: 6, traitorCount: 2, endCondition: 'all_one_type', reveal: { policy, probability: 1 } }), 3)
+
+      results.forEach(result => {
+        const removed: number[] = []
+        roundsFromEvents(result.events).forEach(round => {
+          removed.push(...round.phaseOneRemoved, ...round.phaseTwoRemoved)
+          expect(round.revealed).toEqual([...removed].sort((a, b) => a - b))
+        })
+      })
+    }
+  })
+
+  it('should not change the default draw sequence under end_of_round or never', () => {
+    const rounds = (policy: 'immediate' | 'end_of_round' | 'never') =>
+      runSimulation(20, makeGameConfig({ reveal: { policy, probability: 1 } }), 9)
+        .map(result => roundsFromEvents(result.events).map(r => [r.phaseOneRemoved, r.phaseTwoRemoved]))
+
+    expect(rounds('end_of_round')).toEqual(rounds('immediate'))
+    expect(rounds('never')).toEqual(rounds('immediate'))
+  })
+
+  it('should reveal about the configured share of removals under probabilistic', () => {
+    const config = makeGameConfig({ loyalistCount: 8, traitorCount: 2, endCondition: 'all_one_type', reveal: { policy: 'probabilistic', probability: 0.3 } })
+    let removals = 0
+    let revealed = 0
+
+    runSimulation(300, config, 12).forEach(result => {
+      const last = roundsFromEvents(result.events)[roundsFromEvents(result.events).length - 1]
+      removals += roundsFromEvents(result.events).reduce((sum, r) => sum + r.phaseOneRemoved.length + r.phaseTwoRemoved.length, 0)
+      revealed += last.revealed.length
+    })
+
+    expect(revealed / removals).toBeGreaterThan(0.25)
+    expect(revealed / removals).toBeLessThan(0.35)
+  })
+
+  it('should give bayesian loyalists more wins when types are revealed', () => {
+    const wins = (policy: 'immediate' | 'never') =>
+      runSimulation(500, makeGameConfig({ loyalistCount: 8, traitorCount: 2, endCondition: 'all_one_type', gameType: 'bayesian', reveal: { policy, probability: 1 } }), 21)
+        .filter(result => result.outcome === 'all_loyalists').length
+
+    expect(wins('immediate')).toBeGreaterThan(wins('never'))
+  })
+
+  it('should reject an out-of-range reveal probability', () => {
+    const config = makeGameConfig({ reveal: { policy: 'probabilistic', probability: 1.2 } })
+
+    expect(() => new VotingGame(config, new SeededRandom(1))).toThrow('Reveal probability')
+  })
+})
+
+describe('third factions', () => {
+  it('should give third-faction actors the IDs after the traitors', () => {
+    const config = makeGameConfig({ loyalistCount: 4, traitorCount: 2, factions: { neutral: 1, jester: 2 } })
+    const result = new VotingGame(config, new SeededRandom(1)).run()
+
+    expect(result.factions).toEqual(new Map([[6, 'neutral'], [7, 'jester'], [8, 'jester']]))
+  })
+
+  it('should end the game when a jester is banished in phase one', () => {
+    const config = makeGameConfig({ loyalistCount: 6, traitorCount: 2, endCondition: 'all_one_type', factions: { neutral: 0, jester: 1 } })
+    const results = runSimulation(200, config, 4)
+    const jesterWins = results.filter(r => r.outcome === 'jester_banished')
+
+    expect(jesterWins.length).toBeGreaterThan(0)
+    jesterWins.forEach(result => {
+      expect(roundsFromEvents(result.events)[roundsFromEvents(result.events).length - 1].phaseOneRemoved).toContain(8)
+      expect(roundsFromEvents(result.events)[roundsFromEvents(result.events).length - 1].phaseTwoRemoved).toEqual([])
+    })
+    results.filter(r => r.outcome !== 'jester_banished').forEach(result => {
+      roundsFromEvents(result.events).forEach(round => expect(round.phaseOneRemoved).not.toContain(8))
+    })
+  })
+
+  it('should record a neutral still active when the contest is decided as winning alongside the outcome', () => {
+    const config = makeGameConfig({ loyalistCount: 6, traitorCount: 2, endCondition: 'all_one_type', factions: { neutral: 1, jester: 0 } })
+    const results = runSimulation(200, config, 4)
+
+    expect(results.some(r => r.thirdFactionWinners.includes('neutral'))).toBe(true)
+    results.forEach(result => {
+      const rounds = roundsFromEvents(result.events)
+      const neutralActive = rounds[rounds.length - 1].remainingActors.some(a => a.id === 8)
+      expect(['all_loyalists', 'all_traitors']).toContain(result.outcome)
+      expect(result.thirdFactionWinners).toEqual(neutralActive ? ['neutral'] : [])
+      expect(result.events[result.events.length - 1]).toMatchObject({ outcome: result.outcome, thirdFactionWinners: result.thirdFactionWinners })
+    })
+  })
+
+  it('should count a neutral surviving a loyalist win as a win for both', () => {
+    const config = makeGameConfig({ loyalistCount: 6, traitorCount: 2, endCondition: 'all_one_type', factions: { neutral: 1, jester: 0 } })
+    const results = runSimulation(200, config, 4)
+    const statistics = createRunningStatistics()
+    results.forEach(r => addGame(statistics, { rounds: r.totalRounds, outcome: r.outcome, thirdFactionWinners: r.thirdFactionWinners }))
+    const count = (won: (result: GameResult) => boolean) => results.filter(won).length / results.length
+
+    expect(results.some(r => r.outcome === 'all_loyalists' && r.thirdFactionWinners.includes('neutral'))).toBe(true)
+    expect(winRate(statistics, 'loyalist')).toBe(count(r => r.outcome === 'all_loyalists'))
+    expect(winRate(statistics, 'traitor')).toBe(count(r => r.outcome === 'all_traitors'))
+    expect(winRate(statistics, 'neutral')).toBe(count(r => r.thirdFactionWinners.includes('neutral')))
+    expect(winRate(statistics, 'loyalist') + winRate(statistics, 'traitor')).toBe(1)
+  })
+
+  it('should never have traitors remove a third-faction actor at night', () => {
+    const config = makeGameConfig({ loyalistCount: 6, traitorCount: 2, endCondition: 'all_one_type', factions: { neutral: 1, jester: 1 } })
+
+    runSimulation(100, config, 6).forEach(result => {
+      roundsFromEvents(result.events).forEach(round => round.phaseTwoRemoved.forEach(id => expect(id).toBeLessThan(6)))
+    })
+  })
+
+  it('should hide third-faction types from loyalist strategies', () => {
+    const seen: (string | null)[] = []
+    const config = makeGameConfig({ loyalistCount: 3, traitorCount: 1, factions: { neutral: 1, jester: 1 } })
+    const game = new VotingGame(config, new SeededRandom(2))
+    game.seatVoter(0, {
+      castBallot: (voter, view) => {
+        seen.push(...view.activeActors.filter(a => a.id >= 4).map(a => a.type))
+        return view.activeActors.find(a => a.id !== voter.id)?.id ?? null
+      }
+    })
+    game.run()
+
+    expect(seen.length).toBeGreaterThan(0)
+    seen.forEach(type => expect(type).toBeNull())
+  })
+
+  it('should reject a negative faction count', () => {
+    const config = makeGameConfig({ factions: { neutral: -1, jester: 0 } })
+
+    expect(() => new VotingGame(config, new SeededRandom(1))).toThrow('neutral')
+  })
+})
+
+describe('round cap', () => {
+  useTestStrategies(...(['loyalist', 'traitor'] as const).map(faction => ({
+    id: 'test-abstain',
+    faction,
+    label: 'Abstain',
+    description: '',
+    requiresInfluence: false,
+    create: () => ({ castBallot: () => null })
+  })))
+
+  // No one votes or removes anyone at night, so without a cap the game never ends
+  const stalled = makeGameConfig({
+    gameType: 'test-abstain',
+    traitorPolicy: 'test-abstain',
+    loyalistCount: 3,
+    traitorCount: 1,
+    tieBreak: { policy: 'no_banishment', maxRevotes: 0, chairId: 0 },
+    phaseTwo: { removalsPerRound: 0, removalProbability: 1, skipRounds: [], targeting: null }
+  })
+
+  it('should end a stalled game with a timeout after the cap', () => {
+    const result = new VotingGame({ ...stalled, maxRounds: 5 }, new SeededRandom(1)).run()
+
+    expect(result.outcome).toBe('timeout')
+    expect(result.totalRounds).toBe(5)
+    expect(roundsFromEvents(result.events)).toHaveLength(5)
+  })
+
+  it('should not change games that finish within the cap', () => {
+    const uncapped = runSimulation(20, makeGameConfig({}), 3)
+    const capped = runSimulation(20, makeGameConfig({ maxRounds: 100 }), 3)
+
+    expect(capped.map(r => [r.outcome, r.totalRounds])).toEqual(uncapped.map(r => [r.outcome, r.totalRounds]))
+  })
+
+  it('should prefer a decided game to a timeout in the final round', () => {
+    const config = makeGameConfig({ loyalistCount: 2, traitorCount: 1, endCondition: 'all_one_type' })
+    const uncapped = new VotingGame(config, new SeededRandom(5)).run()
+    const capped = new VotingGame({ ...config, maxRounds: uncapped.totalRounds }, new SeededRandom(5)).run()
+
+    expect(capped.outcome).toBe(uncapped.outcome)
+  })
+
+  it('should reject a round cap below one', () => {
+    expect(() => new VotingGame({ ...stalled, maxRounds: 0 }, new SeededRandom(1))).toThrow('round cap')
+  })
+})
+
+describe('composable end conditions', () => {
+  const base = { loyalistCount: 8, traitorCount: 2, endThresholds: { remainingActors: 4, traitorsRemoved: 2, rounds: 2 } }
+
+  it('should end at traitor parity', () => {
+    runSimulation(50, makeGameConfig({ ...base, endCondition: 'traitor_parity' }), 1).forEach(result => {
+      const last = roundsFromEvents(result.events)[roundsFromEvents(result.events).length - 1].remainingActors
+      const traitors = last.filter(a => a.type === 'traitor').length
+      if (result.outcome === 'traitor_parity') {
+        expect(traitors).toBeGreaterThanOrEqual(last.length - traitors)
+      } else {
+        expect(result.outcome).toBe('all_loyalists')
+        expect(traitors).toBe(0)
+      }
+    })
+  })
+
+  it('should end when the final circle is reached', () => {
+    const results = runSimulation(50, makeGameConfig({ ...base, endCondition: 'final_circle' }), 2)
+
+    expect(results.some(r => r.outcome === 'final_circle_traitors')).toBe(true)
+    results.filter(r => r.outcome.startsWith('final_circle')).forEach(result => {
+      const last = roundsFromEvents(result.events)[roundsFromEvents(result.events).length - 1].remainingActors
+      expect(last.length).toBeLessThanOrEqual(4)
+      expect(result.outcome === 'final_circle_traitors').toBe(last.some(a => a.type === 'traitor'))
+    })
+  })
+
+  it('should keep playing until K traitors have been removed', () => {
+    const results = runSimulation(50, makeGameConfig({ ...base, endCondition: 'traitors_removed' }), 3)
+
+    expect(results.some(r => r.outcome === 'traitors_removed')).toBe(true)
+    results.filter(r => r.outcome === 'traitors_removed').forEach(result => {
+      const removed = roundsFromEvents(result.events).flatMap(r => r.phaseOneRemoved).filter(id => id >= 8)
+      expect(removed).toHaveLength(2)
+    })
+  })
+
+  it('should award traitors who survive R full rounds', () => {
+    const results = runSimulation(50, makeGameConfig({ ...base, endCondition: 'survive_rounds' }), 4)
+
+    results.forEach(result => {
+      expect(result.totalRounds).toBeLessThanOrEqual(2)
+      if (result.outcome === 'traitors_survived') {
+        expect(result.totalRounds).toBe(2)
+        expect(roundsFromEvents(result.events)[1].phaseTwoRemoved.length + roundsFromEvents(result.events)[1].phaseTwoSaved.length).toBeGreaterThan(0)
+      }
+    })
+    expect(results.some(r => r.outcome === 'traitors_survived')).toBe(true)
+  })
+
+  it('should reject a threshold below one', () => {
+    const config = makeGameConfig({ ...base, endThresholds: { ...base.endThresholds, rounds: 0 } })
+
+    expect(() => new VotingGame(config, new SeededRandom(1))).toThrow('rounds')
+  })
+})
+
+describe('step API', () => {
+  const configs = [
+    makeGameConfig({}),
+    makeGameConfig({ loyalistCount: 8, traitorCount: 2, endCondition: 'all_one_type', reveal: { policy: 'probabilistic', probability: 0.5 } }),
+    makeGameConfig({ loyalistCount: 6, traitorCount: 2, factions: { neutral: 1, jester: 1 }, maxRounds: 3 }),
+    makeGameConfig({ loyalistCount: 6, traitorCount: 2, simulationType: 'influence', endCondition: 'traitor_parity' })
+  ]
+
+  it('should play the same game as run() when stepped round by round', () => {
+    for (const config of configs) {
+      for (let seed = 1; seed <= 5; seed++) {
+        const expected = new VotingGame(config, new SeededRandom(seed)).run()
+        const game = new VotingGame(config, new SeededRandom(seed))
+        while (!game.isFinished()) {
+          game.step()
+        }
+
+        expect(game.run()).toEqual(expected)
+      }
+    }
+  })
+
+  it('should play the same game as run() when stepped phase by phase, then finished with run()', () => {
+    for (const config of configs) {
+      const expected = new VotingGame(config, new SeededRandom(9)).run()
+      const game = new VotingGame(config, new SeededRandom(9))
+      game.stepPhase()
+
+      expect(game.run()).toEqual(expected)
+    }
+  })
+
+  it('should hold phase one until phase two is played', () => {
+    const game = new VotingGame(makeGameConfig({ loyalistCount: 8, traitorCount: 2, endCondition: 'all_one_type' }), new SeededRandom(2))
+    const initial = game.getState()
+
+    expect(initial).toMatchObject({ currentRound: 0, nextPhase: 'phase_one', rounds: [], pendingPhaseOne: null, outcome: null })
+
+    const afterPhaseOne = game.stepPhase()
+    expect(afterPhaseOne.currentRound).toBe(1)
+    expect(afterPhaseOne.nextPhase).toBe('phase_two')
+    expect(afterPhaseOne.rounds).toHaveLength(0)
+    expect(afterPhaseOne.pendingPhaseOne!.removedIds).toHaveLength(1)
+    const banished = afterPhaseOne.pendingPhaseOne!.removedIds[0]
+    expect(afterPhaseOne.actors[banished].status).toBe('removed')
+
+    const afterPhaseTwo = game.stepPhase()
+    expect(afterPhaseTwo.currentRound).toBe(1)
+    expect(afterPhaseTwo.nextPhase).toBe('phase_one')
+    expect(afterPhaseTwo.pendingPhaseOne).toBeNull()
+    expect(afterPhaseTwo.rounds).toHaveLength(1)
+    expect(afterPhaseTwo.rounds[0].phaseOneRemoved).toEqual([banished])
+  })
+
+  it('should finish a round with step() after a single stepPhase()', () => {
+    const game = new VotingGame(makeGameConfig({ loyalistCount: 8, traitorCount: 2, endCondition: 'all_one_type' }), new SeededRandom(2))
+    game.stepPhase()
+
+    const state = game.step()
+    expect(state.currentRound).toBe(1)
+    expect(state.rounds).toHaveLength(1)
+  })
+
+  it('should report the outcome once finished and refuse to step further', () => {
+    const game = new VotingGame(makeGameConfig({}), new SeededRandom(4))
+    const result = game.run()
+    const state = game.getState()
+
+    expect(game.isFinished()).toBe(true)
+    expect(state.nextPhase).toBe('finished')
+    expect(state.outcome).toBe(result.outcome)
+    expect(state.currentRound).toBe(result.totalRounds)
+    expect(() => game.stepPhase()).toThrow('already over')
+    expect(() => game.step()).toThrow('already over')
+  })
+
+  it('should be finished before the first round when the end condition already holds', () => {
+    const game = new VotingGame(makeGameConfig({ traitorCount: 0, endCondition: 'all_one_type' }), new SeededRandom(1))
+
+    expect(game.isFinished()).toBe(true)
+    expect(game.getState().outcome).toBe('all_loyalists')
+    expect(game.run().totalRounds).toBe(0)
+  })
+
+  it('should hand out copies that do not affect the game', () => {
+    const game = new VotingGame(makeGameConfig({}), new SeededRandom(3))
+    const expected = new VotingGame(makeGameConfig({}), new SeededRandom(3)).run()
+
+    const state = game.getState()
+    state.actors.forEach(actor => {
+      actor.status = 'removed'
+    })
+    state.rounds.push(roundsFromEvents(expected.events)[0])
+
+    expect(game.getState().actors.every(a => a.status === 'active')).toBe(true)
+    expect(game.getState().rounds).toHaveLength(0)
+    expect(game.run()).toEqual(expected)
+  })
+})
@@ -2,46 +2,245 @@ import {
   Actor,
   ActorType,
   ActorStatus,
-  GameType,
   EndCondition,
   VoteResult,
   RoundResult,
   GameResult,
-  SimulationType,
-  SimulationResult
+  SimulationResult,
+  SimulationStatistics,
+  RandomSource,
+  GameView,
+  VoterStrategy,
+  GameConfig,
+  GameOutcome,
+  RuleSet,
+  Ballot,
+  TraitorPolicy,
+  PhaseTwoConfig,
+  PhaseTwoTargetingDefinition,
+  RecruitmentConfig,
+  ActorRole,
+  TieBreakConfig,
+  TieBreakRecord,
+  TiePolicy,
+  InfluenceUpdateConfig,
+  RevealConfig,
+  VisibleActor,
+  PhaseOneResolution,
+  PhaseTwoResolution,
+  ThirdFaction,
+  WinCheck,
+  EndPredicate,
+  GamePhase,
+  GameState,
+  GameEvent
 } from './interfaces';
-
+import { SeededRandom, deriveSeed } from './random';
+import { getStrategy } from './strategies';
+import { RULE_SETS } from './rule-sets';
+import { PHASE_TWO_TARGETING } from './phase-two';
+import { ROLES } from './roles';
+import { FACTIONS } from './factions';
+import { END_CONDITIONS } from './end-conditions';
+import { InfluenceMatrix } from './influence';
+import { addGame, createRunningStatistics, summariseStatistics } from './statistics';
+
+/**
+ * The game engine. Mechanics that differ between simulation types (voting
+ * behaviour, phase-two targeting, influence) come from the configured
+ * RuleSet; phase order, tie-breaks and end conditions are shared.
+ */
 export class VotingGame {
   private actors: Actor[];
   private roundHistory: RoundResult[] = [];
   private currentRound = 0;
-  private gameType: GameType;
-  private loyalistSuspects: Map<number, number> = new Map(); // Maps loyalist ID to their suspect ID
-  private static readonly NO_VALID_TARGET = -1;
+  private nextPhase: GamePhase;
+  /** This round's phase-one vote, held until phase two has been played */
+  private pendingPhaseOne: PhaseOneResolution | null = null;
+  private events: GameEvent[] = [];
+  private ruleSet: RuleSet;
+  private loyalistStrategy: VoterStrategy;
+  private traitorStrategy: VoterStrategy;
+  /** Voters for role holders, replacing their faction strategy */
+  private roleVoters: Map<number, VoterStrategy> = new Map();
+  /** Voters given a seat with seatVoter(), replacing every other strategy */
+  private seatedVoters: Map<number, VoterStrategy> = new Map();
+  private roles: Map<number, ActorRole> = new Map();
+  /** One strategy per third faction in play */
+  private thirdFactionStrategies: Map<ActorType, VoterStrategy> = new Map();
+  private factions: Map<number, ThirdFaction> = new Map();
+  /** Set when a third faction wins outright, overriding the end condition's outcome */
+  private thirdFactionOutcome: GameOutcome | null = null;
+  private thirdFactionWinners: ThirdFaction[] = [];
+  private maxRounds: number | null;
+  private timedOut = false;
+  private traitorPolicy: TraitorPolicy;
+  private phaseTwo: PhaseTwoConfig;
+  private phaseTwoTargeting: PhaseTwoTargetingDefinition;
+  private tieBreak: TieBreakConfig;
+  private recruitment: RecruitmentConfig;
+  private influence: InfluenceMatrix | null;
+  /** The latest influence scores as logged, shared with the round history rather than copied again */
+  private influenceSnapshot: number[][] | null;
+  private influenceUpdate: InfluenceUpdateConfig;
+  private reveal: RevealConfig;
+  /** Actors whose true type is public */
+  private revealedIds: Set<number> = new Set();
+  private startingTraitorCount: number;
   private endCondition: EndCondition;
+  private endPredicate: EndPredicate;
+  /** The end predicate's outcome once the game is over */
+  private endOutcome: GameOutcome | null = null;
+  private random: RandomSource;
 
-  constructor(loyalistCount: number, traitorCount: number, endCondition: EndCondition, gameType: GameType) {
+  constructor(config: GameConfig, random: RandomSource) {
+    const { loyalistCount, traitorCount } = config;
     this.actors = [];
-    this.gameType = gameType;
-    this.endCondition = endCondition;
+    this.ruleSet = RULE_SETS[config.simulationType];
+    const loyalistDefinition = getStrategy('loyalist', this.ruleSet.loyalistStrategy ?? config.gameType);
+    const traitorDefinition = getStrategy('traitor', this.ruleSet.traitorStrategy ?? config.traitorPolicy);
+    for (const definition of [loyalistDefinition, traitorDefinition]) {
+      if (definition.requiresInfluence && !this.ruleSet.usesInfluence) {
+        throw new Error(`The ${definition.faction} strategy "${definition.id}" needs the influence rule set`);
+      }
+    }
+    this.loyalistStrategy = loyalistDefinition.create();
+    this.traitorStrategy = traitorDefinition.create();
+    this.traitorPolicy = traitorDefinition.id;
+
+    this.phaseTwo = config.phaseTwo;
+    if (!Number.isInteger(this.phaseTwo.removalsPerRound) || this.phaseTwo.removalsPerRound < 0) {
+      throw new Error('Phase two removals per round must be a non-negative integer');
+    }
+    if (this.phaseTwo.removalProbability < 0 || this.phaseTwo.removalProbability > 1) {
+      throw new Error('Phase two removal probability must be between 0 and 1');
+    }
+    this.phaseTwoTargeting = PHASE_TWO_TARGETING[this.phaseTwo.targeting ?? this.ruleSet.phaseTwoTargeting];
+    if (this.phaseTwoTargeting.requiresInfluence && !this.ruleSet.usesInfluence) {
+      throw new Error(`The phase two targeting "${this.phaseTwoTargeting.id}" needs the influence rule set`);
+    }
+    this.influenceUpdate = config.influenceUpdate;
+    const { banishedLoyalistPenalty, banishedTraitorReward, decayRate } = this.influenceUpdate;
+    if (banishedLoyalistPenalty < 0 || banishedTraitorReward < 0) {
+      throw new Error('Influence penalties and rewards must not be negative');
+    }
+    if (decayRate < 0 || decayRate > 1) {
+      throw new Error('Influence decay rate must be between 0 and 1');
+    }
+    this.reveal = config.reveal;
+    if (this.reveal.probability < 0 || this.reveal.probability > 1) {
+      throw new Error('Reveal probability must be between 0 and 1');
+    }
+    const factionQueue: ThirdFaction[] = [];
+    for (const faction of Object.keys(config.factions) as ThirdFaction[]) {
+      const count = config.factions[faction];
+      if (!Number.isInteger(count) || count < 0) {
+        throw new Error(`The number of ${faction} actors must be a non-negative integer`);
+      }
+      factionQueue.push(...Array<ThirdFaction>(count).fill(faction));
+    }
+    const actorCount = loyalistCount + traitorCount + factionQueue.length;
+    this.maxRounds = config.maxRounds;
+    if (this.maxRounds !== null && (!Number.isInteger(this.maxRounds) || this.maxRounds < 1)) {
+      throw new Error('The round cap must be a positive integer');
+    }
+    this.tieBreak = config.tieBreak;
+    if (!Number.isInteger(this.tieBreak.maxRevotes) || this.tieBreak.maxRevotes < 0) {
+      throw new Error('Maximum tie-break re-votes must be a non-negative integer');
+    }
+    // The chair only matters under the chair policy, so other policies keep whatever it was left at
+    if (this.tieBreak.policy === 'chair' &&
+      (!Number.isInteger(this.tieBreak.chairId) || this.tieBreak.chairId < 0 || this.tieBreak.chairId >= actorCount)) {
+      throw new Error(`Tie-break chair ${this.tieBreak.chairId} is not an actor in this game`);
+    }
+    this.recruitment = config.recruitment;
+    if (!Number.isInteger(this.recruitment.traitorThreshold) || this.recruitment.traitorThreshold < 0) {
+      throw new Error('Recruitment traitor threshold must be a non-negative integer');
+    }
+    const roleQueue: ActorRole[] = [];
+    for (const role of Object.keys(ROLES) as ActorRole[]) {
+      const count = config.roles[role];
+      if (!Number.isInteger(count) || count < 0) {
+        throw new Error(`The number of ${role} roles must be a non-negative integer`);
+      }
+      roleQueue.push(...Array<ActorRole>(count).fill(role));
+    }
+    if (roleQueue.length > loyalistCount) {
+      throw new Error('There are more roles than loyalists to hold them');
+    }
+    this.startingTraitorCount = traitorCount;
+    this.endCondition = config.endCondition;
+    for (const [name, count] of Object.entries(config.endThresholds)) {
+      if (!Number.isInteger(count) || count < 1) {
+        throw new Error(`The end threshold ${name} must be a positive integer`);
+      }
+    }
+    this.endPredicate = END_CONDITIONS[this.endCondition].create(config.endThresholds);
+    this.random = random;
 
     for (let i = 0; i < loyalistCount; i++) {
+      const role = roleQueue[i] ?? null;
       this.actors.push({
         id: i,
         type: 'loyalist',
-        status: 'active'
+        status: 'active',
+        role
       });
+      if (role) {
+        this.roles.set(i, role);
+        this.roleVoters.set(i, ROLES[role].createVoter(this.loyalistStrategy, actorId => this.getTrueType(actorId)));
+      }
     }
 
     for (let i = loyalistCount; i < loyalistCount + traitorCount; i++) {
       this.actors.push({
         id: i,
         type: 'traitor',
-        status: 'active'
+        status: 'active',
+        role: null
+      });
+    }
+
+    for (let i = loyalistCount + traitorCount; i < actorCount; i++) {
+      const faction = factionQueue[i - loyalistCount - traitorCount];
+      this.actors.push({
+        id: i,
+        type: faction,
+        status: 'active',
+        role: null
       });
+      this.factions.set(i, faction);
+      if (!this.thirdFactionStrategies.has(faction)) {
+        this.thirdFactionStrategies.set(faction, getStrategy(faction, FACTIONS[faction].strategy!).create());
+      }
+    }
+
+    this.influence = this.ruleSet.usesInfluence ? new InfluenceMatrix(this.actors, random) : null;
+    this.influenceSnapshot = this.influence?.snapshot() ?? null;
+    this.events.push({
+      type: 'game_started',
+      seed: random.seed,
+      endCondition: this.endCondition,
+      simulationType: this.ruleSet.id,
+      traitorPolicy: this.traitorPolicy,
+      phaseTwoTargeting: this.phaseTwoTargeting.id,
+      actors: this.actors,
+      influence: this.influenceSnapshot
+    });
+    this.nextPhase = 'phase_one';
+    if (this.checkEnd(0)) {
+      this.finish();
     }
   }
 
+  /**
+   * Replaces an actor rather than changing it, so the round history can keep
+   * the actors it saw without copying them.
+   */
+  private updateActor(id: number, changes: Partial<Actor>): void {
+    this.actors = this.actors.map(a => (a.id === id ? { ...a, ...changes } : a));
+  }
+
   private getActiveActors(): Actor[] {
     return this.actors.filter(a => a.status === 'active');
   }
@@ -54,79 +253,93 @@ export class VotingGame {
     return this.actors.filter(a => a.status === 'active' && a.type === 'traitor');
   }
 
-  private randomChoice<T>(array: T[]): T {
-    return array[Math.floor(Math.random() * array.length)];
+  private getTrueType(actorId: number): ActorType {
+    const actor = this.actors.find(a => a.id === actorId);
+    if (!actor) {
+      throw new Error(`Unknown actor ${actorId}`);
+    }
+    return actor.type;
   }
 
-  private getSuspectForLoyalist(loyalistId: number): number {
-    const activeActors = this.getActiveActors();
-    const validTargets = activeActors.filter(a => a.id !== loyalistId);
+  private toVisible(actor: Actor): VisibleActor {
+    return this.revealedIds.has(actor.id) ? actor : { ...actor, type: null };
+  }
 
-    if (validTargets.length === 0) {
-      return VotingGame.NO_VALID_TARGET;
-    }
+  /** Builds the view for one faction; everyone but the traitors only sees revealed types. */
+  private createView(ballots: readonly Ballot[], viewer: ActorType): GameView {
+    const actors = viewer === 'traitor' ? this.actors : this.actors.map(a => this.toVisible(a));
+    const history = viewer === 'traitor' ? this.roundHistory : this.roundHistory.map(round => ({
+      ...round,
+      remainingActors: round.remainingActors.map(a => this.toVisible(a)),
+      phaseTwoRecruited: null
+    }));
 
-    // Check if loyalist has an existing suspect
-    const currentSuspect = this.loyalistSuspects.get(loyalistId);
+    return {
+      roundNumber: this.currentRound,
+      actors,
+      activeActors: actors.filter(a => a.status === 'active'),
+      startingTraitorCount: this.startingTraitorCount,
+      recruitedRounds: this.events.flatMap(e => (e.type === 'converted' ? [e.round] : [])),
+      ballots,
+      history,
+      influence: this.influence,
+      random: this.random
+    };
+  }
 
-    // If suspect exists and is still in valid targets, keep them
-    if (currentSuspect !== undefined) {
-      const suspectStillActive = validTargets.some(a => a.id === currentSuspect);
-      if (suspectStillActive) {
-        return currentSuspect;
-      }
+  private strategyFor(actor: Actor): VoterStrategy {
+    const seatedVoter = this.seatedVoters.get(actor.id);
+    if (seatedVoter) {
+      return seatedVoter;
+    }
+    const roleVoter = this.roleVoters.get(actor.id);
+    if (roleVoter) {
+      return roleVoter;
+    }
+    switch (actor.type) {
+      case 'loyalist':
+        return this.loyalistStrategy;
+      case 'traitor':
+        return this.traitorStrategy;
+      default:
+        return this.thirdFactionStrategies.get(actor.type)!;
     }
-
-    // Otherwise, select a new random suspect
-    const newSuspect = this.randomChoice(validTargets);
-    this.loyalistSuspects.set(loyalistId, newSuspect.id);
-    return newSuspect.id;
   }
 
-  private conductVote(eligibleTargets: Actor[]): Map<number, number> {
+  /**
+   * Collects a ballot from every active actor. A tie-break re-vote passes the
+   * tied actors as `eligibleTargets`: voters then pick one of them at random,
+   * unless the rule set has them follow their strategies with only the tied
+   * actors in view. Seated voters always pick at random in a re-vote.
+   */
+  private conductVote(eligibleTargets: Actor[]): { votes: Map<number, number>; ballots: Ballot[] } {
     const votes = new Map<number, number>();
-    const activeActors = this.getActiveActors();
-
-    for (const actor of activeActors) {
-      let targetId: number | undefined;
-
-      if (eligibleTargets.length > 0) {
-        // In tie-breaking scenarios, vote randomly from eligible targets
-        const target = this.randomChoice(eligibleTargets);
-        targetId = target.id;
-      } else if (actor.type === 'loyalist') {
-        // Loyalist voting strategy depends on game type
-        if (this.gameType === 'fixate') {
-          const suspectId = this.getSuspectForLoyalist(actor.id);
-          if (suspectId !== VotingGame.NO_VALID_TARGET) {
-            targetId = suspectId;
-          }
-          // If no valid suspect, skip this vote (continue)
-        } else {
-          // Random strategy
-          const validTargets = activeActors.filter(a => a.id !== actor.id);
-          if (validTargets.length > 0) {
-            const target = this.randomChoice(validTargets);
-            targetId = target.id;
-          }
-          // If no valid targets, skip this vote (continue)
-        }
+    const ballots: Ballot[] = [];
+    const isRevote = eligibleTargets.length > 0;
+    const limitToTied = (view: GameView): GameView => isRevote
+      ? { ...view, activeActors: view.activeActors.filter(a => eligibleTargets.some(t => t.id === a.id)) }
+      : view;
+    // Both views share the ballot list, so later voters see earlier ballots
+    const traitorView = limitToTied(this.createView(ballots, 'traitor'));
+    const publicView = limitToTied(this.createView(ballots, 'loyalist'));
+
+    for (const actor of this.getActiveActors()) {
+      let targetId: number | null;
+
+      if (isRevote && (!this.ruleSet.revotesFollowStrategies || this.seatedVoters.has(actor.id))) {
+        targetId = this.random.choice(eligibleTargets).id;
       } else {
-        // Traitor strategy (unchanged): vote for loyalists
-        const validTargets = this.getActiveLoyalists();
-        if (validTargets.length > 0) {
-          const target = this.randomChoice(validTargets);
-          targetId = target.id;
-        }
-        // If no valid targets, skip this vote (continue)
+        targetId = this.strategyFor(actor).castBallot(actor, actor.type === 'traitor' ? traitorView : publicView);
       }
 
-      if (targetId !== undefined) {
+      if (targetId !== null) {
         votes.set(targetId, (votes.get(targetId) || 0) + 1);
+        ballots.push({ voterId: actor.id, targetId });
+        this.events.push({ type: 'vote_cast', round: this.currentRound, voterId: actor.id, targetId });
       }
     }
 
-    return votes;
+    return { votes, ballots };
   }
 
   private findMostVoted(votes: Map<number, number>): number[] {
@@ -146,407 +359,470 @@ export class VotingGame {
     return topVoted;
   }
 
-  private resolvePhaseOne(): { votes: Map<number, number>; removedId: number } {
-    let votes = this.conductVote([]);
+  /**
+   * Runs the phase-one vote and banishes the most-voted actor, resolving ties
+   * with the configured tie policy. If nobody voted, every active actor counts
+   * as tied.
+   */
+  private resolvePhaseOne(): PhaseOneResolution {
+    const openingVote = this.conductVote([]);
+    const ballots = [openingVote.ballots];
+    let votes = openingVote.votes;
     let mostVoted = this.findMostVoted(votes);
-    let tieBreakAttempts = 0;
-    const MAX_TIE_BREAKS = 10;
-
-    while (mostVoted.length > 1 && tieBreakAttempts < MAX_TIE_BREAKS) {
-      const tiedActors = this.actors.filter(a => mostVoted.includes(a.id) && a.status === 'active');
-      votes = this.conductVote(tiedActors);
-      mostVoted = this.findMostVoted(votes);
-      tieBreakAttempts++;
+    const wasTied = mostVoted.length !== 1;
+    if (wasTied) {
+      this.events.push({ type: 'tie_detected', round: this.currentRound, tiedIds: this.tiedOrEveryone(mostVoted) });
     }
-
-    const removedId = mostVoted.length > 0 ? this.randomChoice(mostVoted) : this.randomChoice(this.getActiveActors()).id;
-    const actor = this.actors.find(a => a.id === removedId);
-    if (actor) {
-      actor.status = 'removed';
+    let revotes = 0;
+
+    if (this.tieBreak.policy === 'revote') {
+      while (mostVoted.length > 1 && revotes < this.tieBreak.maxRevotes) {
+        const tiedActors = this.actors.filter(a => mostVoted.includes(a.id) && a.status === 'active');
+        this.events.push({ type: 'revote_started', round: this.currentRound, candidateIds: tiedActors.map(a => a.id) });
+        const revote = this.conductVote(tiedActors);
+        votes = revote.votes;
+        ballots.push(revote.ballots);
+        mostVoted = this.findMostVoted(votes);
+        revotes++;
+        if (mostVoted.length !== 1) {
+          this.events.push({ type: 'tie_detected', round: this.currentRound, tiedIds: this.tiedOrEveryone(mostVoted) });
+        }
+      }
     }
 
-    return { votes, removedId };
-  }
-
-  private resolvePhaseTwo(): number {
-    const activeLoyalists = this.getActiveLoyalists();
-    if (activeLoyalists.length === 0) {
-      return -1;
+    const tied = this.tiedOrEveryone(mostVoted);
+    // A re-vote that never settles falls back to a random draw
+    const policy: TiePolicy = this.tieBreak.policy === 'revote' ? 'random' : this.tieBreak.policy;
+    // A single leader is still drawn through the random source, so games keep their seeded sequence
+    const removedIds = tied.length === 1 ? [this.random.choice(tied)] : this.breakTie(policy, tied, votes.size === 0, ballots);
+    for (const removedId of removedIds) {
+      this.updateActor(removedId, { status: 'removed' });
+      this.events.push({ type: 'banished', round: this.currentRound, actorId: removedId });
     }
 
-    const removed = this.randomChoice(activeLoyalists);
-    removed.status = 'removed';
-    return removed.id;
+    const tieBreak = wasTied ? { policy: tied.length === 1 ? this.tieBreak.policy : policy, revotes } : null;
+    if (tieBreak) {
+      this.events.push({ type: 'tie_broken', round: this.currentRound, record: tieBreak });
+    }
+    return { votes, ballots, removedIds, tieBreak };
   }
 
-  private isGameOver(): boolean {
-    const activeTraitors = this.getActiveTraitors();
-    const activeLoyalists = this.getActiveLoyalists();
-
-    // This helper only checks whether one side has been completely eliminated.
-    // Usage by end condition (see run() method):
-    // - 'all_one_type': this directly represents the terminal condition
-    // - 'first_traitor_removed': this is used only to detect "no loyalists remain";
-    //   the fact that the game ends when any traitor is removed is handled elsewhere
-    return activeTraitors.length === 0 || activeLoyalists.length === 0;
+  /** The most-voted actors, or every active actor if nobody voted. */
+  private tiedOrEveryone(mostVoted: number[]): number[] {
+    return mostVoted.length > 0 ? mostVoted : this.getActiveActors().map(a => a.id);
   }
 
-  private getOutcome(): 'traitor_removed' | 'no_loyalists' | 'all_loyalists' | 'all_traitors' {
-    const activeTraitors = this.getActiveTraitors();
-    const activeLoyalists = this.getActiveLoyalists();
-
-    if (this.endCondition === 'first_traitor_removed') {
-      // In 'first_traitor_removed' mode, the game ends either because
-      // all loyalists have been removed or because at least one traitor
-      // has been removed while some loyalists remain.
-      return activeLoyalists.length === 0 ? 'no_loyalists' : 'traitor_removed';
-    } else {
-      // 'all_one_type'
-      if (activeTraitors.length === 0) {
-        return 'all_loyalists';
-      } else {
-        return 'all_traitors';
+  /** Settles a tie; a deciding vote is appended to `ballots` as its own vote. */
+  private breakTie(policy: TiePolicy, tied: number[], nobodyVoted: boolean, ballots: Ballot[][]): number[] {
+    switch (policy) {
+      case 'revote':
+      case 'random':
+        return [this.random.choice(tied)];
+      case 'no_banishment':
+        return [];
+      case 'banish_all':
+        // Banishing everyone because nobody voted would end the game on a technicality
+        return nobodyVoted ? [] : tied;
+      case 'lowest_id':
+      case 'chair': {
+        const decidingBallot = this.castDecidingVote(policy, tied);
+        ballots.push([decidingBallot]);
+        this.events.push({ type: 'deciding_vote_cast', round: this.currentRound, ...decidingBallot });
+        return [decidingBallot.targetId];
+      }
+      default: {
+        const unhandled: never = policy;
+        throw new Error(`Unsupported tie policy: ${unhandled}`);
       }
     }
   }
 
-  public run(): GameResult {
-    while (!this.isGameOver()) {
-      this.currentRound++;
-
-      const phaseOne = this.resolvePhaseOne();
-
-      // For 'first_traitor_removed', check if a traitor was just removed
-      const removedActor = this.actors.find(a => a.id === phaseOne.removedId);
-      if (this.endCondition === 'first_traitor_removed' && removedActor?.type === 'traitor') {
-        this.roundHistory.push({
-          roundNumber: this.currentRound,
-          phaseOneVotes: phaseOne.votes,
-          phaseOneRemoved: phaseOne.removedId,
-          phaseTwoRemoved: -1,
-          remainingActors: this.getActiveActors().map(a => ({ ...a }))
-        });
-        break;
-      }
-
-      // Check if one side has been completely eliminated (applies to both modes)
-      if (this.isGameOver()) {
-        this.roundHistory.push({
-          roundNumber: this.currentRound,
-          phaseOneVotes: phaseOne.votes,
-          phaseOneRemoved: phaseOne.removedId,
-          phaseTwoRemoved: -1,
-          remainingActors: this.getActiveActors().map(a => ({ ...a }))
-        });
-        break;
-      }
-
-      const phaseTwoRemoved = this.resolvePhaseTwo();
+  /**
+   * The decider picks a random tied actor other than themselves. A traitor
+   * decider spares fellow traitors whenever a loyalist is tied.
+   */
+  private castDecidingVote(policy: 'lowest_id' | 'chair', tied: number[]): Ballot {
+    const activeActors = this.getActiveActors();
+    const chair = policy === 'chair' ? activeActors.find(a => a.id === this.tieBreak.chairId) : undefined;
+    // Actors are kept in ID order
+    const decider = chair ?? activeActors[0];
+
+    const candidates = this.actors.filter(a => tied.includes(a.id) && a.id !== decider.id);
+    const tiedLoyalists = candidates.filter(a => a.type === 'loyalist');
+    const pool = decider.type === 'traitor' && tiedLoyalists.length > 0 ? tiedLoyalists : candidates;
+    return { voterId: decider.id, targetId: this.random.choice(pool).id };
+  }
 
-      this.roundHistory.push({
-        roundNumber: this.currentRound,
-        phaseOneVotes: phaseOne.votes,
-        phaseOneRemoved: phaseOne.removedId,
-        phaseTwoRemoved,
-        remainingActors: this.getActiveActors().map(a => ({ ...a }))
-      });
+  private shouldRecruit(traitorBanished: boolean): boolean {
+    const { triggers, traitorThreshold } = this.recruitment;
+    return (triggers.includes('traitor_banished') && traitorBanished) ||
+      (triggers.includes('below_threshold') && this.getActiveTraitors().length < traitorThreshold);
+  }
 
-      // For both conditions, check after both phases are complete
-      if (this.isGameOver()) {
-        break;
+  /** Asks every active role holder who they shield from removal tonight. */
+  private chooseProtected(): Set<number> {
+    const protectedIds = new Set<number>();
+    const view = this.createView([], 'loyalist');
+    for (const actor of this.getActiveActors()) {
+      if (actor.role) {
+        const protectedId = ROLES[actor.role].chooseProtected(actor, view);
+        if (protectedId !== null) {
+          protectedIds.add(protectedId);
+        }
       }
     }
-
-    return {
-      rounds: this.roundHistory,
-      totalRounds: this.currentRound,
-      outcome: this.getOutcome(),
-      endCondition: this.endCondition
-    };
+    return protectedIds;
   }
-}
-
-export class InfluenceVotingGame {
-  private static readonly MAX_INFLUENCE_SCORE = 100;
-  private static readonly MIN_INFLUENCE_SCORE = 1;
-
-  private actors: Actor[];
-  private roundHistory: RoundResult[] = [];
-  private currentRound = 0;
-  private influenceScores: Map<string, number> = new Map(); // key: "fromId-toId", value: influence score
 
-  constructor(loyalistCount: number, traitorCount: number) {
-    this.actors = [];
-
-    for (let i = 0; i < loyalistCount; i++) {
-      this.actors.push({
-        id: i,
-        type: 'loyalist',
-        status: 'active'
-      });
+  /**
+   * Removes up to `removalsPerRound` loyalists using the phase-two targeting,
+   * unless this round is skipped or the removal probability roll fails. When
+   * recruitment is triggered, the first removal converts a loyalist instead.
+   * A removal aimed at a protected actor is spent without effect.
+   */
+  private resolvePhaseTwo(phaseOneBallots: Ballot[], traitorBanished: boolean): PhaseTwoResolution {
+    const { removalsPerRound, removalProbability, skipRounds } = this.phaseTwo;
+    if (skipRounds.includes(this.currentRound)) {
+      return { removed: [], recruited: null, saved: [] };
+    }
+    // Only roll when removal is uncertain, so default games draw the same numbers
+    if (removalProbability < 1 && this.random.next() >= removalProbability) {
+      return { removed: [], recruited: null, saved: [] };
     }
 
-    for (let i = loyalistCount; i < loyalistCount + traitorCount; i++) {
-      this.actors.push({
-        id: i,
-        type: 'traitor',
-        status: 'active'
-      });
+    const protectedIds = this.chooseProtected();
+
+    let recruited: number | null = null;
+    let removals = removalsPerRound;
+    if (removals > 0 && this.shouldRecruit(traitorBanished)) {
+      const recruit = this.random.choice(this.getActiveLoyalists());
+      this.updateActor(recruit.id, { type: 'traitor', role: null });
+      this.roleVoters.delete(recruit.id);
+      recruited = recruit.id;
+      this.events.push({ type: 'converted', round: this.currentRound, actorId: recruit.id });
+      removals--;
     }
 
-    // Initialize influence scores randomly (MIN_INFLUENCE_SCORE to MAX_INFLUENCE_SCORE)
-    for (const actor of this.actors) {
-      for (const target of this.actors) {
-        if (actor.id !== target.id) {
-          const key = `${actor.id}-${target.id}`;
-          const range = InfluenceVotingGame.MAX_INFLUENCE_SCORE - InfluenceVotingGame.MIN_INFLUENCE_SCORE + 1;
-          this.influenceScores.set(key, Math.floor(Math.random() * range) + InfluenceVotingGame.MIN_INFLUENCE_SCORE);
-        }
+    const removed: number[] = [];
+    const saved: number[] = [];
+    for (let i = 0; i < removals; i++) {
+      const targetId = this.phaseTwoTargeting.selectTarget(this.createView(phaseOneBallots, 'traitor'));
+      if (targetId === null) {
+        break;
+      }
+      if (protectedIds.has(targetId)) {
+        saved.push(targetId);
+        this.events.push({ type: 'saved', round: this.currentRound, actorId: targetId });
+        continue;
       }
-    }
-  }
 
-  private getActiveActors(): Actor[] {
-    return this.actors.filter(a => a.status === 'active');
+      this.updateActor(targetId, { status: 'removed' });
+      removed.push(targetId);
+      this.events.push({ type: 'murdered', round: this.currentRound, actorId: targetId });
+    }
+    return { removed, recruited, saved };
   }
 
-  private getActiveLoyalists(): Actor[] {
-    return this.actors.filter(a => a.status === 'active' && a.type === 'loyalist');
+  /**
+   * Asks the end predicate whether the game is over, recording its outcome.
+   * Checked before each round and after each phase.
+   */
+  private checkEnd(completedRounds: number): boolean {
+    this.endOutcome = this.endPredicate({
+      activeLoyalists: this.getActiveLoyalists().length,
+      activeTraitors: this.getActiveTraitors().length,
+      activeActors: this.getActiveActors().length,
+      traitorsRemoved: this.actors.filter(a => a.status === 'removed' && a.type === 'traitor').length,
+      completedRounds
+    });
+    return this.endOutcome !== null;
   }
 
-  private getActiveTraitors(): Actor[] {
-    return this.actors.filter(a => a.status === 'active' && a.type === 'traitor');
+  /**
+   * Checks every third-faction actor's win condition, in actor order. The
+   * first win with an outcome of its own ends the game with it, returning
+   * true; any other win is recorded alongside the end condition's outcome.
+   */
+  private checkThirdFactionWin(check: WinCheck): boolean {
+    for (const actor of this.actors) {
+      const { hasWon, outcome } = FACTIONS[actor.type];
+      if (!hasWon || !hasWon(actor, check)) {
+        continue;
+      }
+      if (outcome) {
+        this.thirdFactionOutcome = outcome;
+        return true;
+      }
+      const faction = actor.type as ThirdFaction;
+      if (!this.thirdFactionWinners.includes(faction)) {
+        this.thirdFactionWinners.push(faction);
+      }
+    }
+    return false;
   }
 
-  private getInfluence(fromId: number, toId: number): number {
-    const key = `${fromId}-${toId}`;
-    return this.influenceScores.get(key) || 0;
+  private getOutcome(): GameOutcome {
+    if (this.timedOut) {
+      return 'timeout';
+    }
+    if (this.thirdFactionOutcome) {
+      return this.thirdFactionOutcome;
+    }
+    if (!this.endOutcome) {
+      throw new Error('The game has not ended');
+    }
+    return this.endOutcome;
   }
 
-  private conductVote(eligibleTargets: Actor[]): Map<number, number> {
-    const votes = new Map<number, number>();
-    const activeActors = this.getActiveActors();
-
-    for (const actor of activeActors) {
-      let validTargets: Actor[];
-
-      if (eligibleTargets.length > 0) {
-        validTargets = eligibleTargets;
-      } else if (actor.type === 'loyalist') {
-        validTargets = activeActors.filter(a => a.id !== actor.id);
-      } else {
-        validTargets = this.getActiveLoyalists();
+  /**
+   * Makes the true types of removed actors public according to the reveal
+   * policy. Immediate and probabilistic reveals happen as each actor is
+   * removed; end-of-round reveals wait until the round is recorded.
+   */
+  private revealRemovals(removedIds: number[], moment: 'removal' | 'round_end'): void {
+    const { policy, probability } = this.reveal;
+    for (const id of removedIds) {
+      if (this.revealedIds.has(id)) {
+        continue;
       }
-
-      if (validTargets.length > 0) {
-        // Vote for target with lowest influence score
-        let lowestInfluence = Infinity;
-        let targetId = validTargets[0].id;
-
-        for (const target of validTargets) {
-          const influence = this.getInfluence(actor.id, target.id);
-          if (influence < lowestInfluence) {
-            lowestInfluence = influence;
-            targetId = target.id;
-          }
+      let reveal: boolean;
+      switch (policy) {
+        case 'immediate':
+          reveal = moment === 'removal';
+          break;
+        case 'end_of_round':
+          reveal = moment === 'round_end';
+          break;
+        case 'probabilistic':
+          // The only reveal policy that draws, so other policies keep the default sequence
+          reveal = moment === 'removal' && this.random.next() < probability;
+          break;
+        case 'never':
+          reveal = false;
+          break;
+        default: {
+          const unhandled: never = policy;
+          throw new Error(`Unsupported reveal policy: ${unhandled}`);
         }
-
-        votes.set(targetId, (votes.get(targetId) || 0) + 1);
+      }
+      if (reveal) {
+        this.revealedIds.add(id);
+        this.events.push({ type: 'revealed', round: this.currentRound, actorId: id });
       }
     }
+  }
 
-    return votes;
+  private recordRound(phaseOne: PhaseOneResolution, phaseTwo: PhaseTwoResolution): void {
+    this.revealRemovals([...phaseOne.removedIds, ...phaseTwo.removed], 'round_end');
+    this.roundHistory.push({
+      roundNumber: this.currentRound,
+      phaseOneVotes: phaseOne.votes,
+      phaseOneBallots: phaseOne.ballots,
+      influence: this.influenceSnapshot,
+      phaseOneRemoved: phaseOne.removedIds,
+      tieBreak: phaseOne.tieBreak,
+      phaseTwoRemoved: phaseTwo.removed,
+      phaseTwoRecruited: phaseTwo.recruited,
+      phaseTwoSaved: phaseTwo.saved,
+      remainingActors: this.getActiveActors(),
+      revealed: [...this.revealedIds].sort((x, y) => x - y)
+    });
+    this.events.push({ type: 'round_ended', round: this.currentRound });
   }
 
-  private findMostVoted(votes: Map<number, number>): number[] {
-    let maxVotes = 0;
-    const topVoted: number[] = [];
+  /** Ends the game, logging the outcome. */
+  private finish(): void {
+    this.nextPhase = 'finished';
+    this.events.push({
+      type: 'game_ended',
+      round: this.currentRound,
+      outcome: this.getOutcome(),
+      thirdFactionWinners: this.thirdFactionWinners
+    });
+  }
 
-    for (const [actorId, voteCount] of votes.entries()) {
-      if (voteCount > maxVotes) {
-        maxVotes = voteCount;
-        topVoted.length = 0;
-        topVoted.push(actorId);
-      } else if (voteCount === maxVotes) {
-        topVoted.push(actorId);
-      }
+  /**
+   * Hands an actor's opening phase-one votes to `voter`, such as a person
+   * playing that seat. The actor still sees only what its faction sees, and
+   * its tie-break re-votes and deciding votes stay random.
+   */
+  public seatVoter(actorId: number, voter: VoterStrategy): void {
+    const actor = this.actors.find(a => a.id === actorId);
+    if (!actor || actor.status !== 'active') {
+      throw new Error(`Actor ${actorId} is not an active actor in this game`);
     }
+    this.seatedVoters.set(actorId, voter);
+  }
 
-    return topVoted;
+  public isFinished(): boolean {
+    return this.nextPhase === 'finished';
   }
 
-  private randomChoice<T>(array: T[]): T {
-    return array[Math.floor(Math.random() * array.length)];
+  /** A copy of the event log so far. */
+  public getEvents(): GameEvent[] {
+    return [...this.events];
   }
 
-  private resolvePhaseOne(): { votes: Map<number, number>; removedId: number } {
-    let votes = this.conductVote([]);
-    let mostVoted = this.findMostVoted(votes);
-    let tieBreakAttempts = 0;
-    const MAX_TIE_BREAKS = 10;
+  /** A copy of the game's current state, safe to keep and modify. */
+  public getState(): GameState {
+    return {
+      currentRound: this.currentRound,
+      nextPhase: this.nextPhase,
+      actors: this.actors.map(a => ({ ...a })),
+      rounds: [...this.roundHistory],
+      pendingPhaseOne: this.pendingPhaseOne,
+      revealed: [...this.revealedIds].sort((x, y) => x - y),
+      outcome: this.isFinished() ? this.getOutcome() : null
+    };
+  }
 
-    while (mostVoted.length > 1 && tieBreakAttempts < MAX_TIE_BREAKS) {
-      const tiedActors = this.actors.filter(a => mostVoted.includes(a.id) && a.status === 'active');
-      votes = this.conductVote(tiedActors);
-      mostVoted = this.findMostVoted(votes);
-      tieBreakAttempts++;
+  /** Plays the next phase: the phase-one vote that starts a round, or phase two to finish it. */
+  public stepPhase(): GameState {
+    switch (this.nextPhase) {
+      case 'phase_one':
+        this.playPhaseOne();
+        break;
+      case 'phase_two':
+        this.playPhaseTwo();
+        break;
+      case 'finished':
+        throw new Error('The game is already over');
+      default: {
+        const unhandled: never = this.nextPhase;
+        throw new Error(`Unsupported game phase: ${unhandled}`);
+      }
     }
+    return this.getState();
+  }
 
-    const removedId = mostVoted.length > 0 ? this.randomChoice(mostVoted) : this.randomChoice(this.getActiveActors()).id;
-    const actor = this.actors.find(a => a.id === removedId);
-    if (actor) {
-      actor.status = 'removed';
+  /** Plays to the end of the current round, or of the game if it ends sooner. */
+  public step(): GameState {
+    this.stepPhase();
+    if (this.nextPhase === 'phase_two') {
+      this.stepPhase();
     }
-
-    return { votes, removedId };
+    return this.getState();
   }
 
-  private resolvePhaseTwo(): number {
-    const activeLoyalists = this.getActiveLoyalists();
-    if (activeLoyalists.length === 0) {
-      return -1;
+  private playPhaseOne(): void {
+    const noPhaseTwo: PhaseTwoResolution = { removed: [], recruited: null, saved: [] };
+    this.currentRound++;
+    this.events.push({ type: 'round_started', round: this.currentRound });
+
+    const phaseOne = this.resolvePhaseOne();
+    this.influence?.evolve(
+      this.influenceUpdate,
+      phaseOne.ballots[0],
+      this.actors.filter(a => phaseOne.removedIds.includes(a.id))
+    );
+    if (this.influence) {
+      this.influenceSnapshot = this.influence.snapshot();
+      this.events.push({ type: 'influence_updated', round: this.currentRound, influence: this.influenceSnapshot });
     }
-
-    // Find loyalist with highest total influence
-    let highestInfluence = -1;
-    let targetId = activeLoyalists[0].id;
-
-    for (const loyalist of activeLoyalists) {
-      // Calculate total influence this loyalist has over all other active actors
-      let totalInfluence = 0;
-      const activeActors = this.getActiveActors();
-
-      for (const other of activeActors) {
-        if (other.id !== loyalist.id) {
-          totalInfluence += this.getInfluence(loyalist.id, other.id);
-        }
-      }
-
-      if (totalInfluence > highestInfluence) {
-        highestInfluence = totalInfluence;
-        targetId = loyalist.id;
-      }
+    this.revealRemovals(phaseOne.removedIds, 'removal');
+    this.events.push({ type: 'phase_ended', round: this.currentRound, phase: 'phase_one' });
+
+    // A third faction such as the jester can win outright in phase one
+    if (this.checkThirdFactionWin({ phaseOneRemoved: phaseOne.removedIds, contestOver: false })) {
+      this.recordRound(phaseOne, noPhaseTwo);
+      this.finish();
+      return;
     }
 
-    const removed = this.actors.find(a => a.id === targetId);
-    if (removed) {
-      removed.status = 'removed';
+    // The round is not complete yet, so round-count predicates wait for phase two
+    if (this.checkEnd(this.currentRound - 1)) {
+      this.checkThirdFactionWin({ phaseOneRemoved: phaseOne.removedIds, contestOver: true });
+      this.recordRound(phaseOne, noPhaseTwo);
+      this.finish();
+      return;
     }
-    return targetId;
-  }
 
-  private isGameOver(): boolean {
-    const activeTraitors = this.getActiveTraitors();
-    const activeLoyalists = this.getActiveLoyalists();
-
-    return activeTraitors.length === 0 || activeLoyalists.length === 0;
+    this.pendingPhaseOne = phaseOne;
+    this.nextPhase = 'phase_two';
   }
 
-  private getOutcome(): 'traitor_removed' | 'no_loyalists' {
-    const activeTraitors = this.getActiveTraitors();
-    return activeTraitors.length === 0 ? 'traitor_removed' : 'no_loyalists';
+  private playPhaseTwo(): void {
+    const phaseOne = this.pendingPhaseOne!;
+    this.pendingPhaseOne = null;
+
+    const traitorBanished = this.actors.some(a => phaseOne.removedIds.includes(a.id) && a.type === 'traitor');
+    const phaseTwo = this.resolvePhaseTwo(phaseOne.ballots[0], traitorBanished);
+    this.revealRemovals(phaseTwo.removed, 'removal');
+    this.events.push({ type: 'phase_ended', round: this.currentRound, phase: 'phase_two' });
+    this.recordRound(phaseOne, phaseTwo);
+
+    if (this.checkEnd(this.currentRound)) {
+      this.checkThirdFactionWin({ phaseOneRemoved: phaseOne.removedIds, contestOver: true });
+      this.finish();
+    } else if (this.maxRounds !== null && this.currentRound >= this.maxRounds) {
+      this.timedOut = true;
+      this.finish();
+    } else {
+      this.nextPhase = 'phase_one';
+    }
   }
 
+  /** Plays the game to the end, continuing from wherever stepping left it. */
   public run(): GameResult {
-    while (!this.isGameOver()) {
-      this.currentRound++;
-
-      const phaseOne = this.resolvePhaseOne();
-
-      if (this.isGameOver()) {
-        this.roundHistory.push({
-          roundNumber: this.currentRound,
-          phaseOneVotes: phaseOne.votes,
-          phaseOneRemoved: phaseOne.removedId,
-          phaseTwoRemoved: -1,
-          remainingActors: this.getActiveActors().map(a => ({ ...a }))
-        });
-        break;
-      }
-
-      const phaseTwoRemoved = this.resolvePhaseTwo();
-
-      this.roundHistory.push({
-        roundNumber: this.currentRound,
-        phaseOneVotes: phaseOne.votes,
-        phaseOneRemoved: phaseOne.removedId,
-        phaseTwoRemoved,
-        remainingActors: this.getActiveActors().map(a => ({ ...a }))
-      });
-
-      if (this.isGameOver()) {
-        break;
-      }
+    while (!this.isFinished()) {
+      this.step();
     }
 
     return {
-      rounds: this.roundHistory,
       totalRounds: this.currentRound,
       outcome: this.getOutcome(),
-      endCondition: 'first_traitor_removed' // InfluenceVotingGame only supports this end condition
-      // TODO: update InfluenceVotingGame to support all end conditions
+      thirdFactionWinners: this.thirdFactionWinners,
+      endCondition: this.endCondition,
+      simulationType: this.ruleSet.id,
+      traitorPolicy: this.traitorPolicy,
+      phaseTwoTargeting: this.phaseTwoTargeting.id,
+      roles: this.roles,
+      factions: this.factions,
+      seed: this.random.seed,
+      events: this.events
     };
   }
 }
 
-export function runSimulation(iterations: number, loyalistCount: number, traitorCount: number,
-  type: SimulationType, endCondition: EndCondition,
-  gameType: GameType, startId: number = 0): GameResult[] {
+/**
+ * Runs `iterations` independent games. Each game is seeded with
+ * deriveSeed(seed, id), so the same seed and configuration always produce the
+ * same games, however the run is split into batches via `startId`.
+ */
+export function runSimulation(iterations: number, config: GameConfig, seed: number,
+  startId: number = 0): GameResult[] {
 
   const results: GameResult[] = [];
+  streamSimulation(iterations, config, seed, startId, result => results.push(result));
+  return results;
+}
+
+/** runSimulation, handing each game to `onGame` as it finishes instead of keeping them. */
+export function streamSimulation(iterations: number, config: GameConfig, seed: number, startId: number,
+  onGame: (result: GameResult) => void): void {
 
   for (let i = 0; i < iterations; i++) {
-    const game = type === 'influence'
-      ? new InfluenceVotingGame(loyalistCount, traitorCount)
-      : new VotingGame(loyalistCount, traitorCount, endCondition, gameType);
+    const id = startId + i + 1;
+    const game = new VotingGame(config, new SeededRandom(deriveSeed(seed, id)));
     const result = game.run();
-    results.push({
+    onGame({
       ...result,
-      id: startId + i + 1
+      id
     });
   }
-
-  return results;
 }
-export function calculateStatistics(results: GameResult[]): {
-  mean: number;
-  median: number;
-  mode: number;
-  min: number;
-  max: number;
-  stdDev: number;
-} {
-  if (results.length === 0) {
-    return { mean: 0, median: 0, mode: 0, min: 0, max: 0, stdDev: 0 };
-  }
-
-  const rounds = results.map(r => r.totalRounds);
-  const sorted = [...rounds].sort((a, b) => a - b);
-  const min = sorted[0];
-  const max = sorted[sorted.length - 1];
 
-  const mean = rounds.reduce((sum, val) => sum + val, 0) / rounds.length;
-
-  const median = sorted.length % 2 === 0
-    ? (sorted[sorted.length / 2 - 1] + sorted[sorted.length / 2]) / 2
-    : sorted[Math.floor(sorted.length / 2)];
-
-  const frequency = new Map<number, number>();
-  for (const round of rounds) {
-    frequency.set(round, (frequency.get(round) || 0) + 1);
-  }
-
-  let mode = rounds[0];
-  let maxFreq = 0;
-  for (const [value, freq] of frequency.entries()) {
-    if (freq > maxFreq) {
-      maxFreq = freq;
-      mode = value;
-    }
-  }
-
-  const variance = rounds.reduce((sum, val) => sum + Math.pow(val - mean, 2), 0) / rounds.length;
-  const stdDev = Math.sqrt(variance);
+/**
+ * Summarises the rounds each game took. Games that hit the round cap are
+ * included at the cap and also counted in `timeouts`.
+ */
+export function calculateStatistics(results: GameResult[]): SimulationStatistics {
+  return calculateSimulationStatistics(results.map(r => ({ rounds: r.totalRounds, outcome: r.outcome })));
+}
 
-  return { mean, median, mode, min, max, stdDev };
+/** calculateStatistics for games recorded without their history, such as runFastSimulation's. */
+export function calculateSimulationStatistics(results: readonly SimulationResult[]): SimulationStatistics {
+  const statistics = createRunningStatistics();
+  results.forEach(result => addGame(statistics, result));
+  return summariseStatistics(statistics);
 }
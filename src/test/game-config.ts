@@ -0,0 +1,52 @@
+import type { GameConfig } from '@/lib/interfaces'
+
+/** Builds a GameConfig for tests, overriding the defaults with the given fields. */
+export function makeGameConfig(overrides: Partial<GameConfig>): GameConfig {
+  return {
+    loyalistCount: 5,
+    traitorCount: 2,
+    simulationType: 'random',
+    endCondition: 'first_traitor_removed',
+    endThresholds: {
+      remainingActors: 3,
+      traitorsRemoved: 1,
+      rounds: 10
+    },
+    gameType: 'random',
+    traitorPolicy: 'random',
+    phaseTwo: {
+      removalsPerRound: 1,
+      removalProbability: 1,
+      skipRounds: [],
+      targeting: null
+    },
+    influenceUpdate: {
+      banishedLoyalistPenalty: 0,
+      banishedTraitorReward: 0,
+      decayRate: 0
+    },
+    tieBreak: {
+      policy: 'revote',
+      maxRevotes: 10,
+      chairId: 0
+    },
+    recruitment: {
+      triggers: [],
+      traitorThreshold: 0
+    },
+    roles: {
+      seer: 0,
+      protector: 0
+    },
+    factions: {
+      neutral: 0,
+      jester: 0
+    },
+    maxRounds: null,
+    reveal: {
+      policy: 'immediate',
+      probability: 1
+    },
+    ...overrides
+  }
+}
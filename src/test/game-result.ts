@@ -0,0 +1,18 @@
+import type { GameResult } from '@/lib/interfaces'
+
+/** Builds a minimal GameResult with the given round count for statistics tests. */
+export function makeGameResult(totalRounds: number): GameResult {
+  return {
+    totalRounds,
+    outcome: 'traitor_removed',
+    thirdFactionWinners: [],
+    endCondition: 'first_traitor_removed',
+    simulationType: 'random',
+    traitorPolicy: 'random',
+    phaseTwoTargeting: 'random_loyalist',
+    roles: new Map(),
+    factions: new Map(),
+    seed: 0,
+    events: []
+  }
+}
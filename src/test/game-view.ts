@@ -0,0 +1,22 @@
+import type { GameView, VisibleActor } from '@/lib/interfaces'
+import { SeededRandom } from '@/lib/random'
+
+/**
+ * Builds a round-one GameView of `actors` for strategy tests, overriding the
+ * defaults with the given fields. Actors shown as traitors are the starting
+ * traitors.
+ */
+export function makeView(actors: readonly VisibleActor[], overrides: Partial<GameView> = {}): GameView {
+  return {
+    roundNumber: 1,
+    actors,
+    activeActors: actors.filter(a => a.status === 'active'),
+    startingTraitorCount: actors.filter(a => a.type === 'traitor').length,
+    recruitedRounds: [],
+    ballots: [],
+    history: [],
+    influence: null,
+    random: new SeededRandom(1),
+    ...overrides
+  }
+}
@@ -0,0 +1,19 @@
+import type { RoundResult } from '@/lib/interfaces'
+
+/** Builds a RoundResult for strategy tests that read the game history. */
+export function makeRoundResult(overrides: Partial<RoundResult>): RoundResult {
+  return {
+    roundNumber: 1,
+    phaseOneVotes: new Map(),
+    phaseOneBallots: [[]],
+    influence: null,
+    phaseOneRemoved: [],
+    tieBreak: null,
+    phaseTwoRemoved: [],
+    phaseTwoRecruited: null,
+    phaseTwoSaved: [],
+    remainingActors: [],
+    revealed: [],
+    ...overrides
+  }
+}
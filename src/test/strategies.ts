@@ -0,0 +1,12 @@
+import { afterEach, beforeEach } from 'vitest'
+import type { StrategyDefinition } from '@/lib/interfaces'
+import { registerStrategy, unregisterStrategy } from '@/lib/strategies'
+
+/**
+ * Registers test-only strategies before each test in the enclosing describe
+ * and removes them after it, so they never reach other tests.
+ */
+export function useTestStrategies(...definitions: StrategyDefinition[]): void {
+  beforeEach(() => definitions.forEach(registerStrategy))
+  afterEach(() => definitions.forEach(definition => unregisterStrategy(definition.faction, definition.id)))
+}
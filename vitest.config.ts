@@ -17,6 +17,7 @@ export default defineConfig({
       exclude: [
         'src/**/*.d.ts',
         'src/main.tsx',
+        'src/cli.ts',
         'src/vite-end.d.ts',
         'src/components/ui/**',
         'src/test/**'